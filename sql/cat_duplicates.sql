@@ -0,0 +1,126 @@
+-- Perceptual and content hashes for duplicate photo detection.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- after moderation.sql and before user_metrics.sql, so
+-- create_cat_with_post_count can store hashes and the duplicate checks have
+-- corresponding RPC functions.
+
+-- Splits a 64-bit dHash into eight tagged bytes (band * 256 + byte). Two hashes
+-- within Hamming distance 7 always share at least one band, so the GIN index
+-- narrows the candidates before the exact distance is computed.
+create or replace function public.perceptual_hash_bands(p_hash bigint)
+returns integer[]
+language sql
+immutable
+as $$
+select case
+	when p_hash is null then null
+	else array(
+		select band * 256 + ((p_hash >> (band * 8)) & 255)::integer
+		from generate_series(0, 7) as band
+	)
+end;
+$$;
+
+create or replace function public.perceptual_hash_distance(p_left bigint, p_right bigint)
+returns integer
+language sql
+immutable
+as $$
+select bit_count((p_left # p_right)::bit(64))::integer;
+$$;
+
+alter table public.cat_images
+	add column if not exists perceptual_hash bigint,
+	add column if not exists perceptual_hash_bands integer[]
+		generated always as (public.perceptual_hash_bands(perceptual_hash)) stored;
+
+create index if not exists cat_images_hash_bands_idx
+	on public.cat_images using gin (perceptual_hash_bands);
+
+-- SHA-256 (hex) of the stored bytes. Images the worker cannot decode (WebP)
+-- have no perceptual hash, so only byte-identical copies of them are found.
+-- Images posted before this column existed stay null.
+alter table public.cat_images add column if not exists content_hash text;
+
+create index if not exists cat_images_content_hash_idx
+	on public.cat_images (content_hash)
+	where content_hash is not null;
+
+-- p_content_hashes was added for images without a perceptual hash; drop the
+-- old signature so PostgREST does not see two candidate overloads.
+drop function if exists public.find_similar_cats(bigint[], integer, text, uuid, integer);
+
+-- Cats with at least one image within p_max_distance (at most 7) of any of
+-- p_hashes, or with the same bytes as any of p_content_hashes (distance 0),
+-- closest first. Posts by p_exclude_username and p_exclude_cat_id itself are
+-- left out.
+create or replace function public.find_similar_cats(
+	p_hashes bigint[],
+	p_content_hashes text[],
+	p_max_distance integer,
+	p_exclude_username text default null,
+	p_exclude_cat_id uuid default null,
+	p_limit integer default 10
+) returns table (cat public.cats, hash_distance integer)
+language sql
+stable
+as $$
+with query_hashes as (
+	select hash, public.perceptual_hash_bands(hash) as bands
+	from unnest(p_hashes) as hash
+	where hash is not null
+),
+candidates as (
+	select
+		cat_images.cat_id,
+		public.perceptual_hash_distance(cat_images.perceptual_hash, query_hashes.hash) as hash_distance
+	from query_hashes
+	join public.cat_images on cat_images.perceptual_hash_bands && query_hashes.bands
+	where public.perceptual_hash_distance(cat_images.perceptual_hash, query_hashes.hash) <= p_max_distance
+	union all
+	select cat_images.cat_id, 0
+	from public.cat_images
+	where cat_images.content_hash = any(p_content_hashes)
+),
+matches as (
+	select cat_id, min(hash_distance) as hash_distance
+	from candidates
+	where cat_id is distinct from p_exclude_cat_id
+	group by cat_id
+)
+select cats as cat, matches.hash_distance
+from matches
+join public.cats on cats.id = matches.cat_id
+where p_exclude_username is null or cats.username <> p_exclude_username
+order by matches.hash_distance asc, cats.created_at asc
+limit p_limit;
+$$;
+
+-- Hidden cats still block reposts through find_similar_cats but are not listed.
+create or replace function public.find_duplicate_cats(
+	p_cat_id uuid,
+	p_max_distance integer,
+	p_limit integer default 10
+) returns table (cat public.cats, hash_distance integer)
+language sql
+stable
+as $$
+select similar.cat, similar.hash_distance
+from public.find_similar_cats(
+	array(
+		select perceptual_hash
+		from public.cat_images
+		where cat_id = p_cat_id and perceptual_hash is not null
+	),
+	array(
+		select content_hash
+		from public.cat_images
+		where cat_id = p_cat_id and content_hash is not null
+	),
+	p_max_distance,
+	null,
+	p_cat_id,
+	p_limit
+) as similar
+where (similar.cat).hidden_at is null;
+$$;
@@ -0,0 +1,351 @@
+-- Geospatial helpers for cat posts.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- after moderation.sql, so the CatGeoService RPC calls have corresponding
+-- functions. Hidden cats never appear on the map or in nearby results.
+
+create index if not exists cats_location_idx
+	on public.cats (location_latitude, location_longitude)
+	where location_latitude is not null and location_longitude is not null;
+
+-- Per-user location precision for posted cats: exact, neighborhood (snapped
+-- to a ~500 m grid) or hidden. Must stay in sync with src/locationPrivacy.ts.
+alter table public.users
+	add column if not exists location_precision text not null default 'exact'
+		check (location_precision in ('exact', 'neighborhood', 'hidden'));
+
+create or replace function public.neighborhood_latitude(
+	p_latitude double precision
+) returns double precision
+language sql
+immutable
+as $$
+select (floor(p_latitude / 0.0045) + 0.5) * 0.0045;
+$$;
+
+create or replace function public.neighborhood_longitude(
+	p_latitude double precision,
+	p_longitude double precision
+) returns double precision
+language sql
+immutable
+as $$
+select least(
+	(floor((p_longitude + 180) / step) + 0.5) * step - 180,
+	180
+)
+from (
+	select 0.0045 / greatest(cos(radians(public.neighborhood_latitude(p_latitude))), 0.01) as step
+) as grid;
+$$;
+
+-- Whether p_longitude lies in [p_min_longitude, p_max_longitude]. A range
+-- whose min is greater than its max wraps the antimeridian.
+create or replace function public.longitude_between(
+	p_longitude double precision,
+	p_min_longitude double precision,
+	p_max_longitude double precision
+) returns boolean
+language sql
+immutable
+as $$
+select case
+	when p_min_longitude <= p_max_longitude
+		then p_longitude between p_min_longitude and p_max_longitude
+	else p_longitude >= p_min_longitude or p_longitude <= p_max_longitude
+end;
+$$;
+
+-- Brings a longitude pushed past the antimeridian back into [-180, 180].
+create or replace function public.wrap_longitude(
+	p_longitude double precision
+) returns double precision
+language sql
+immutable
+as $$
+select case
+	when p_longitude < -180 then p_longitude + 360
+	when p_longitude > 180 then p_longitude - 360
+	else p_longitude
+end;
+$$;
+
+-- Box around a point that contains every location within p_radius_m. The
+-- longitude range wraps the antimeridian, and spans the whole globe once the
+-- radius covers a full circle of latitude.
+create or replace function public.radius_bounds(
+	p_latitude double precision,
+	p_longitude double precision,
+	p_radius_m double precision
+) returns table (
+	min_latitude double precision,
+	min_longitude double precision,
+	max_latitude double precision,
+	max_longitude double precision
+)
+language sql
+immutable
+as $$
+select
+	p_latitude - lat_delta,
+	case when lon_delta >= 180 then -180 else public.wrap_longitude(p_longitude - lon_delta) end,
+	p_latitude + lat_delta,
+	case when lon_delta >= 180 then 180 else public.wrap_longitude(p_longitude + lon_delta) end
+from (
+	select
+		p_radius_m / 111320.0 as lat_delta,
+		p_radius_m / (111320.0 * greatest(cos(radians(p_latitude)), 0.01)) as lon_delta
+) as deltas;
+$$;
+
+-- Coordinates of a cat as p_viewer_username may see them: snapped to the
+-- neighborhood grid when the poster asked for it, unless the viewer is the poster.
+create or replace function public.visible_latitude(
+	p_latitude double precision,
+	p_location_precision text,
+	p_poster_username text,
+	p_viewer_username text
+) returns double precision
+language sql
+immutable
+as $$
+select case
+	when p_location_precision = 'neighborhood'
+		and p_poster_username is distinct from p_viewer_username
+		then public.neighborhood_latitude(p_latitude)
+	else p_latitude
+end;
+$$;
+
+create or replace function public.visible_longitude(
+	p_latitude double precision,
+	p_longitude double precision,
+	p_location_precision text,
+	p_poster_username text,
+	p_viewer_username text
+) returns double precision
+language sql
+immutable
+as $$
+select case
+	when p_location_precision = 'neighborhood'
+		and p_poster_username is distinct from p_viewer_username
+		then public.neighborhood_longitude(p_latitude, p_longitude)
+	else p_longitude
+end;
+$$;
+
+-- Located cats whose coordinates, as p_viewer_username may see them, fall in
+-- the bbox (a min longitude greater than the max wraps the antimeridian). Cats
+-- of posters with hidden locations are left out unless the viewer is the
+-- poster. Raw coordinates are first matched against the bbox widened by the
+-- largest neighborhood snap (half a grid cell), so cats_location_idx narrows
+-- the scan before anything is snapped.
+drop function if exists public.visible_cat_locations(text);
+
+create or replace function public.visible_cat_locations(
+	p_viewer_username text,
+	p_min_latitude double precision,
+	p_min_longitude double precision,
+	p_max_latitude double precision,
+	p_max_longitude double precision
+) returns table (
+	id uuid,
+	created_at timestamptz,
+	location_latitude double precision,
+	location_longitude double precision
+)
+language sql
+stable
+as $$
+with search_box as (
+	select
+		p_min_latitude - 0.00225 as min_latitude,
+		p_max_latitude + 0.00225 as max_latitude,
+		public.wrap_longitude(p_min_longitude - margin) as min_longitude,
+		public.wrap_longitude(p_max_longitude + margin) as max_longitude,
+		case
+			when p_min_longitude <= p_max_longitude then p_max_longitude - p_min_longitude
+			else p_max_longitude - p_min_longitude + 360
+		end + 2 * margin >= 360 as all_longitudes
+	from (
+		-- Grid cells widen toward the poles; size the margin for the cell
+		-- nearest to a pole that a cat in the widened box can snap into.
+		select 0.00225 / greatest(
+			cos(radians(least(greatest(abs(p_min_latitude), abs(p_max_latitude)) + 0.0045, 90))),
+			0.01
+		) as margin
+	) as snap
+),
+located as (
+	select
+		cats.id,
+		cats.created_at,
+		public.visible_latitude(
+			cats.location_latitude,
+			users.location_precision,
+			cats.username,
+			p_viewer_username
+		) as location_latitude,
+		public.visible_longitude(
+			cats.location_latitude,
+			cats.location_longitude,
+			users.location_precision,
+			cats.username,
+			p_viewer_username
+		) as location_longitude
+	from search_box, public.cats
+	join public.users on users.username = cats.username
+	where cats.location_latitude between search_box.min_latitude and search_box.max_latitude
+		and cats.location_longitude is not null
+		and (
+			search_box.all_longitudes
+			or public.longitude_between(
+				cats.location_longitude,
+				search_box.min_longitude,
+				search_box.max_longitude
+			)
+		)
+		and (
+			users.location_precision <> 'hidden'
+			or cats.username = p_viewer_username
+		)
+		and cats.hidden_at is null
+)
+select id, created_at, location_latitude, location_longitude
+from located
+where location_latitude between p_min_latitude and p_max_latitude
+	and public.longitude_between(location_longitude, p_min_longitude, p_max_longitude);
+$$;
+
+-- Great-circle distance in meters (haversine, mean Earth radius).
+create or replace function public.cat_distance_m(
+	p_lat1 double precision,
+	p_lon1 double precision,
+	p_lat2 double precision,
+	p_lon2 double precision
+) returns double precision
+language sql
+immutable
+as $$
+select 2 * 6371008.8 * asin(sqrt(
+	power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+	cos(radians(p_lat1)) * cos(radians(p_lat2)) *
+	power(sin(radians(p_lon2 - p_lon1) / 2), 2)
+));
+$$;
+
+-- Cats within p_radius_m of a point, nearest first. Pagination is keyset-based
+-- on (distance_m, id) so pages stay stable while new cats are posted. The
+-- search box wraps the antimeridian. Distances use the coordinates
+-- p_viewer_username is allowed to see.
+drop function if exists public.nearby_cats(
+	double precision, double precision, double precision, double precision, uuid, integer
+);
+
+create or replace function public.nearby_cats(
+	p_latitude double precision,
+	p_longitude double precision,
+	p_radius_m double precision,
+	p_after_distance_m double precision,
+	p_after_id uuid,
+	p_limit integer,
+	p_viewer_username text default null
+) returns table (cat public.cats, distance_m double precision)
+language sql
+stable
+as $$
+with candidates as (
+	select
+		visible.id,
+		public.cat_distance_m(
+			p_latitude,
+			p_longitude,
+			visible.location_latitude,
+			visible.location_longitude
+		) as distance_m
+	from public.radius_bounds(p_latitude, p_longitude, p_radius_m) as bounds
+	cross join lateral public.visible_cat_locations(
+		p_viewer_username,
+		bounds.min_latitude,
+		bounds.min_longitude,
+		bounds.max_latitude,
+		bounds.max_longitude
+	) as visible
+)
+select cats as cat, candidates.distance_m
+from candidates
+join public.cats on cats.id = candidates.id
+where candidates.distance_m <= p_radius_m
+	and (
+		p_after_distance_m is null
+		or (candidates.distance_m, candidates.id) > (p_after_distance_m, p_after_id)
+	)
+order by candidates.distance_m asc, candidates.id asc
+limit p_limit;
+$$;
+
+-- Viewport clustering for the map screen. Cats are bucketed into the grid
+-- cells of a geohash prefix (p_lon_bits/p_lat_bits come from the prefix
+-- length), so every returned cell maps to exactly one geohash. A bbox whose
+-- min longitude is greater than its max longitude wraps the antimeridian.
+-- Cells and centroids use the coordinates p_viewer_username is allowed to see.
+drop function if exists public.map_cat_clusters(
+	double precision, double precision, double precision, double precision,
+	integer, integer, integer, integer
+);
+
+create or replace function public.map_cat_clusters(
+	p_min_latitude double precision,
+	p_min_longitude double precision,
+	p_max_latitude double precision,
+	p_max_longitude double precision,
+	p_lon_bits integer,
+	p_lat_bits integer,
+	p_sample_size integer,
+	p_limit integer,
+	p_viewer_username text default null
+) returns table (
+	lon_cell bigint,
+	lat_cell bigint,
+	cat_count bigint,
+	centroid_latitude double precision,
+	centroid_longitude double precision,
+	sample_cat_ids uuid[]
+)
+language sql
+stable
+as $$
+with visible as (
+	select
+		id,
+		created_at,
+		location_latitude,
+		location_longitude,
+		least(
+			floor((location_longitude + 180) / (360.0 / power(2, p_lon_bits)))::bigint,
+			power(2, p_lon_bits)::bigint - 1
+		) as lon_cell,
+		least(
+			floor((location_latitude + 90) / (180.0 / power(2, p_lat_bits)))::bigint,
+			power(2, p_lat_bits)::bigint - 1
+		) as lat_cell
+	from public.visible_cat_locations(
+		p_viewer_username,
+		p_min_latitude,
+		p_min_longitude,
+		p_max_latitude,
+		p_max_longitude
+	)
+)
+select
+	lon_cell,
+	lat_cell,
+	count(*) as cat_count,
+	avg(location_latitude) as centroid_latitude,
+	avg(location_longitude) as centroid_longitude,
+	(array_agg(id order by created_at desc, id desc))[1:p_sample_size] as sample_cat_ids
+from visible
+group by lon_cell, lat_cell
+order by cat_count desc, lon_cell, lat_cell
+limit p_limit;
+$$;
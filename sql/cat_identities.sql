@@ -0,0 +1,145 @@
+-- Cat identity schema and linking helpers.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- before user_metrics.sql, so CatIdentityService and the cat delete RPC have
+-- the table, column and functions they rely on.
+
+create table if not exists public.cat_identities (
+	id uuid primary key,
+	name text not null,
+	description text,
+	photo_cat_id uuid references public.cats (id) on delete set null,
+	created_by text not null references public.users (username) on delete cascade,
+	sighting_count integer not null default 0,
+	created_at timestamptz not null default now()
+);
+
+alter table public.cats
+	add column if not exists identity_id uuid references public.cat_identities (id) on delete set null;
+
+create index if not exists cats_identity_created_idx
+	on public.cats (identity_id, created_at desc, id desc)
+	where identity_id is not null;
+
+-- Creates a profile seeded with one of the caller's posts, which becomes both
+-- the canonical photo and the first linked sighting. Returns no row when the
+-- post does not belong to p_username.
+create or replace function public.create_cat_identity(
+	p_id uuid,
+	p_name text,
+	p_description text,
+	p_cat_id uuid,
+	p_username text
+) returns setof public.cat_identities
+language sql
+as $$
+with target as (
+	select id, identity_id
+	from public.cats
+	where id = p_cat_id and username = p_username
+),
+previous as (
+	update public.cat_identities
+	set sighting_count = greatest(sighting_count - 1, 0)
+	from target
+	where cat_identities.id = target.identity_id
+	returning 1
+),
+inserted as (
+	insert into public.cat_identities (
+		id,
+		name,
+		description,
+		photo_cat_id,
+		created_by,
+		sighting_count
+	)
+	select p_id, p_name, nullif(trim(p_description), ''), target.id, p_username, 1
+	from target
+	returning *
+),
+linked as (
+	update public.cats
+	set identity_id = inserted.id
+	from inserted
+	where cats.id = p_cat_id
+	returning 1
+)
+select * from inserted;
+$$;
+
+-- Links one of p_username's posts to an identity, moving it off any identity it
+-- was linked to before. Returns the target identity's sighting count, or no row
+-- when the post or identity is missing.
+create or replace function public.link_cat_to_identity(
+	p_identity_id uuid,
+	p_cat_id uuid,
+	p_username text
+) returns integer
+language sql
+as $$
+with identity_target as (
+	select id
+	from public.cat_identities
+	where id = p_identity_id
+),
+target as (
+	select cats.id, cats.identity_id
+	from public.cats
+	cross join identity_target
+	where cats.id = p_cat_id
+		and cats.username = p_username
+		and cats.identity_id is distinct from identity_target.id
+),
+previous as (
+	update public.cat_identities
+	set sighting_count = greatest(sighting_count - 1, 0)
+	from target
+	where cat_identities.id = target.identity_id
+	returning 1
+),
+linked as (
+	update public.cats
+	set identity_id = p_identity_id
+	from target
+	where cats.id = target.id
+	returning 1
+),
+updated as (
+	update public.cat_identities
+	set sighting_count = sighting_count + coalesce((select count(*) from linked), 0)
+	from identity_target
+	where cat_identities.id = identity_target.id
+	returning cat_identities.sighting_count
+)
+select sighting_count from updated;
+$$;
+
+-- Unlinks one of p_username's posts from its identity. Returns the identity's
+-- remaining sighting count, or no row when the post was not linked.
+create or replace function public.unlink_cat_from_identity(
+	p_cat_id uuid,
+	p_username text
+) returns integer
+language sql
+as $$
+with target as (
+	select id, identity_id
+	from public.cats
+	where id = p_cat_id and username = p_username and identity_id is not null
+),
+unlinked as (
+	update public.cats
+	set identity_id = null
+	from target
+	where cats.id = target.id
+	returning 1
+),
+updated as (
+	update public.cat_identities
+	set sighting_count = greatest(sighting_count - coalesce((select count(*) from unlinked), 0), 0)
+	from target
+	where cat_identities.id = target.identity_id
+	returning cat_identities.sighting_count
+)
+select sighting_count from updated;
+$$;
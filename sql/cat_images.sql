@@ -0,0 +1,12 @@
+-- Gallery images for cat posts.
+-- Run this file before user_metrics.sql so create_cat_with_post_count can
+-- insert gallery rows alongside the cat.
+
+create table if not exists public.cat_images (
+	cat_id uuid not null references public.cats (id) on delete cascade,
+	position integer not null,
+	r2_path text not null,
+	width integer,
+	height integer,
+	primary key (cat_id, position)
+);
@@ -0,0 +1,14 @@
+-- Photo metadata columns for cats.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- before user_metrics.sql, so create_cat_with_post_count can store spotted_at.
+
+-- When the cat was seen, as opposed to when it was posted. Filled from the
+-- client or, when the client opts in, from the photo's EXIF capture time.
+alter table public.cats
+	add column if not exists spotted_at timestamptz;
+
+-- spotted_at when known, otherwise created_at, so sighting trails can be
+-- ordered by when the cat was seen.
+alter table public.cats
+	add column if not exists seen_at timestamptz
+		generated always as (coalesce(spotted_at, created_at)) stored;
@@ -0,0 +1,123 @@
+-- Atomic helpers for cat reactions. A like is the "heart" reaction.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- so the CatReactionService RPC calls have corresponding functions. Run it
+-- before like_lists.sql, which only lists hearts.
+
+-- Every existing row is a like, so it becomes a heart. The allowed set must
+-- stay in sync with CAT_REACTIONS in src/validation.ts.
+alter table public.likes
+	add column if not exists reaction text not null default 'heart';
+
+alter table public.likes drop constraint if exists likes_reaction_check;
+alter table public.likes
+	add constraint likes_reaction_check
+		check (reaction in ('heart', 'cute', 'funny', 'chonk'));
+
+-- A user may leave several reactions on a cat, but each one only once. The
+-- original one-like-per-user key is dropped whatever it was named.
+do $$
+declare
+	v_constraint text;
+begin
+	for v_constraint in
+		select pg_constraint.conname
+		from pg_constraint
+		where pg_constraint.conrelid = 'public.likes'::regclass
+			and pg_constraint.contype in ('p', 'u')
+			and (
+				select array_agg(pg_attribute.attname::text order by pg_attribute.attname)
+				from pg_attribute
+				where pg_attribute.attrelid = pg_constraint.conrelid
+					and pg_attribute.attnum = any(pg_constraint.conkey)
+			) = array['cat_id', 'username']
+	loop
+		execute format('alter table public.likes drop constraint %I', v_constraint);
+	end loop;
+end;
+$$;
+
+create unique index if not exists likes_cat_username_reaction_key
+	on public.likes (cat_id, username, reaction);
+
+-- Hearts keep being counted in cats.likes, which sorting and feed ranking use;
+-- the other reactions are counted here by name.
+alter table public.cats
+	add column if not exists reaction_counts jsonb not null default '{}'::jsonb;
+
+drop function if exists public.like_cat_with_count(uuid, text);
+drop function if exists public.unlike_cat_with_count(uuid, text);
+
+-- Both functions return every count as one object (hearts included), or null
+-- when the cat does not exist.
+create or replace function public.add_cat_reaction_with_counts(
+	p_cat_id uuid,
+	p_username text,
+	p_reaction text
+) returns jsonb
+language sql
+as $$
+with inserted as (
+	insert into public.likes (cat_id, username, reaction)
+	values (p_cat_id, p_username, p_reaction)
+	on conflict (cat_id, username, reaction) do nothing
+	returning 1
+),
+delta as (
+	select count(*)::integer as value from inserted
+),
+updated as (
+	update public.cats
+	set likes = case
+			when p_reaction = 'heart' then coalesce(likes, 0) + delta.value
+			else likes
+		end,
+		reaction_counts = case
+			when p_reaction = 'heart' then reaction_counts
+			else jsonb_set(
+				reaction_counts,
+				array[p_reaction],
+				to_jsonb(coalesce((reaction_counts ->> p_reaction)::integer, 0) + delta.value)
+			)
+		end
+	from delta
+	where id = p_cat_id
+	returning likes, reaction_counts
+)
+select reaction_counts || jsonb_build_object('heart', coalesce(likes, 0)) from updated;
+$$;
+
+create or replace function public.remove_cat_reaction_with_counts(
+	p_cat_id uuid,
+	p_username text,
+	p_reaction text
+) returns jsonb
+language sql
+as $$
+with deleted as (
+	delete from public.likes
+	where cat_id = p_cat_id and username = p_username and reaction = p_reaction
+	returning 1
+),
+delta as (
+	select count(*)::integer as value from deleted
+),
+updated as (
+	update public.cats
+	set likes = case
+			when p_reaction = 'heart' then greatest(coalesce(likes, 0) - delta.value, 0)
+			else likes
+		end,
+		reaction_counts = case
+			when p_reaction = 'heart' then reaction_counts
+			else jsonb_set(
+				reaction_counts,
+				array[p_reaction],
+				to_jsonb(greatest(coalesce((reaction_counts ->> p_reaction)::integer, 0) - delta.value, 0))
+			)
+		end
+	from delta
+	where id = p_cat_id
+	returning likes, reaction_counts
+)
+select reaction_counts || jsonb_build_object('heart', coalesce(likes, 0)) from updated;
+$$;
@@ -0,0 +1,74 @@
+-- Cat edit history and atomic update helper.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- so the CatRevisionService RPC calls have corresponding functions.
+
+alter table public.cats
+	add column if not exists edited_at timestamptz;
+
+create table if not exists public.cat_revisions (
+	revision_id uuid primary key default gen_random_uuid(),
+	cat_id uuid not null references public.cats (id) on delete cascade,
+	username text not null references public.users (username) on delete cascade,
+	name text not null,
+	description text,
+	tags text[],
+	location_latitude double precision,
+	location_longitude double precision,
+	edited_at timestamptz not null default now()
+);
+
+create index if not exists cat_revisions_cat_idx
+	on public.cat_revisions (cat_id, edited_at desc);
+
+-- Snapshots the current values into cat_revisions, then applies the edit.
+create or replace function public.update_cat_with_revision(
+	p_cat_id uuid,
+	p_username text,
+	p_name text,
+	p_description text,
+	p_tags text[],
+	p_location_latitude double precision,
+	p_location_longitude double precision
+) returns setof public.cats
+language sql
+as $$
+with target as (
+	select *
+	from public.cats
+	where id = p_cat_id and username = p_username
+),
+revision as (
+	insert into public.cat_revisions (
+		cat_id,
+		username,
+		name,
+		description,
+		tags,
+		location_latitude,
+		location_longitude
+	)
+	select
+		id,
+		username,
+		name,
+		description,
+		tags,
+		location_latitude,
+		location_longitude
+	from target
+	returning 1
+),
+updated as (
+	update public.cats
+	set name = p_name,
+		description = nullif(trim(p_description), ''),
+		tags = p_tags,
+		location_latitude = p_location_latitude,
+		location_longitude = p_location_longitude,
+		edited_at = now()
+	from target
+	where cats.id = target.id
+	returning cats.*
+)
+select * from updated;
+$$;
@@ -0,0 +1,59 @@
+-- Full-text search over cat names, tags and descriptions.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- after moderation.sql, so the CatSearchService RPC calls have corresponding
+-- functions.
+
+-- Declared immutable so it can back a generated column; array_to_string alone is only stable.
+create or replace function public.cat_search_document(
+	p_name text,
+	p_tags text[],
+	p_description text
+) returns tsvector
+language sql
+immutable
+as $$
+select
+	setweight(to_tsvector('english', coalesce(p_name, '')), 'A') ||
+	setweight(to_tsvector('english', coalesce(array_to_string(p_tags, ' '), '')), 'B') ||
+	setweight(to_tsvector('english', coalesce(p_description, '')), 'C');
+$$;
+
+alter table public.cats
+	add column if not exists search_vector tsvector
+		generated always as (public.cat_search_document(name, tags, description)) stored;
+
+create index if not exists cats_search_vector_idx
+	on public.cats using gin (search_vector);
+
+-- Every term is prefix-matched after English stemming and all terms must match.
+-- Results are ordered by relevance, then newest first; pagination is keyset-based
+-- on (rank, created_at, id).
+create or replace function public.search_cats(
+	p_terms text[],
+	p_after_rank real,
+	p_after_created_at timestamptz,
+	p_after_id uuid,
+	p_limit integer
+) returns table (cat public.cats, rank real)
+language sql
+stable
+as $$
+with query as (
+	select to_tsquery(
+		'english',
+		array_to_string(array(select term || ':*' from unnest(p_terms) as term), ' & ')
+	) as tsquery
+),
+ranked as (
+	select cats, cats.id, cats.created_at, ts_rank(cats.search_vector, query.tsquery) as rank
+	from public.cats, query
+	where cats.search_vector @@ query.tsquery
+		and cats.hidden_at is null
+)
+select cats as cat, rank
+from ranked
+where p_after_rank is null
+	or (rank, created_at, id) < (p_after_rank, p_after_created_at, p_after_id)
+order by rank desc, created_at desc, id desc
+limit p_limit;
+$$;
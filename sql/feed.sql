@@ -0,0 +1,207 @@
+-- Feed helpers.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- after moderation.sql, so the FeedService and CommentService RPC calls have
+-- corresponding functions.
+
+create index if not exists cats_username_created_idx
+	on public.cats (username, created_at desc, id desc);
+
+-- Cats posted by everyone p_username follows, newest first. The keyset matches
+-- the (created_at, id) cursor used by /cats/list.
+create or replace function public.following_feed(
+	p_username text,
+	p_after_created_at timestamptz,
+	p_after_id uuid,
+	p_limit integer
+) returns setof public.cats
+language sql
+stable
+as $$
+select cats.*
+from public.cats
+join public.follows on follows.followee_username = cats.username
+where follows.follower_username = p_username
+	and cats.hidden_at is null
+	and (
+		p_after_created_at is null
+		or (cats.created_at, cats.id) < (p_after_created_at, p_after_id)
+	)
+order by cats.created_at desc, cats.id desc
+limit p_limit;
+$$;
+
+create index if not exists comments_cat_idx
+	on public.comments (cat_id);
+
+-- Comments per cat, kept by add_comment_with_count and
+-- delete_comment_with_count so explore ranking does not count them per row.
+alter table public.cats
+	add column if not exists comment_count integer not null default 0;
+
+update public.cats
+set comment_count = counts.value
+from (
+	select cat_id, count(*)::integer as value
+	from public.comments
+	group by cat_id
+) as counts
+where cats.id = counts.cat_id
+	and cats.comment_count <> counts.value;
+
+-- Returns the new comment, or nothing when the cat does not exist.
+create or replace function public.add_comment_with_count(
+	p_cat_id uuid,
+	p_username text,
+	p_comment text
+) returns setof public.comments
+language sql
+as $$
+with inserted as (
+	insert into public.comments (cat_id, username, comment)
+	select cats.id, p_username, p_comment
+	from public.cats
+	where cats.id = p_cat_id
+	returning *
+),
+updated as (
+	update public.cats
+	set comment_count = comment_count + 1
+	where id = (select cat_id from inserted)
+	returning 1
+)
+select * from inserted;
+$$;
+
+-- Returns the deleted comment, or nothing when it does not exist (or, with
+-- p_username, belongs to someone else).
+create or replace function public.delete_comment_with_count(
+	p_comment_id uuid,
+	p_username text default null
+) returns setof public.comments
+language sql
+as $$
+with deleted as (
+	delete from public.comments
+	where comment_id = p_comment_id
+		and (p_username is null or username = p_username)
+	returning *
+),
+updated as (
+	update public.cats
+	set comment_count = greatest(comment_count - 1, 0)
+	where id = (select cat_id from deleted)
+	returning 1
+)
+select * from deleted;
+$$;
+
+-- Explore pages are read from a ranking stored when the first page is
+-- requested, so later pages neither shift as scores change nor drop cats the
+-- viewer reacts to while scrolling. Snapshots only hold ids, and can only be
+-- paged by the viewer they were ranked for (null for anonymous viewers, who
+-- share recent snapshots).
+create table if not exists public.explore_snapshots (
+	id uuid primary key default gen_random_uuid(),
+	cat_ids uuid[] not null,
+	created_at timestamptz not null default now()
+);
+
+alter table public.explore_snapshots
+	add column if not exists viewer_username text;
+
+create index if not exists explore_snapshots_created_idx
+	on public.explore_snapshots (created_at);
+
+create index if not exists explore_snapshots_anonymous_idx
+	on public.explore_snapshots (created_at desc)
+	where viewer_username is null;
+
+-- The keyset version paged over live scores.
+drop function if exists public.explore_feed(
+	text, double precision, double precision, double precision,
+	timestamptz, timestamptz, double precision, uuid, integer
+);
+
+-- Ranks the explore feed using Hacker News style time decay:
+--   score = (likes * p_like_weight + comments * p_comment_weight) / (age_hours + 2) ^ p_gravity
+-- and stores the top p_max_cats ids as a new snapshot. Hidden cats, and cats
+-- posted or liked by p_viewer_username, are left out; other reactions do not
+-- count. Snapshots created before p_expire_before are deleted on the way.
+create or replace function public.create_explore_snapshot(
+	p_viewer_username text,
+	p_like_weight double precision,
+	p_comment_weight double precision,
+	p_gravity double precision,
+	p_as_of timestamptz,
+	p_since timestamptz,
+	p_max_cats integer,
+	p_expire_before timestamptz
+) returns uuid
+language sql
+as $$
+with expired as (
+	delete from public.explore_snapshots
+	where created_at < p_expire_before
+	returning 1
+),
+ranked as (
+	select
+		cats.id,
+		(
+			coalesce(cats.likes, 0) * p_like_weight +
+			cats.comment_count * p_comment_weight
+		) / power(
+			greatest(extract(epoch from (p_as_of - cats.created_at)) / 3600, 0) + 2,
+			p_gravity
+		) as score
+	from public.cats
+	where cats.created_at >= p_since
+		and cats.created_at <= p_as_of
+		and cats.hidden_at is null
+		and (p_viewer_username is null or cats.username <> p_viewer_username)
+		and not exists (
+			select 1
+			from public.likes
+			where likes.cat_id = cats.id
+				and likes.username = p_viewer_username
+				and likes.reaction = 'heart'
+		)
+	order by score desc, cats.id desc
+	limit p_max_cats
+),
+inserted as (
+	insert into public.explore_snapshots (cat_ids, viewer_username)
+	select coalesce(array_agg(id order by score desc, id desc), '{}'), p_viewer_username
+	from ranked
+	returning id
+)
+select id from inserted;
+$$;
+
+drop function if exists public.explore_snapshot_page(uuid, integer, integer);
+
+-- Cats of a snapshot after position p_offset (1-based), in ranked order.
+-- Cats deleted or hidden since the snapshot was taken are skipped without
+-- shifting the positions of the others. Snapshots ranked for another viewer
+-- return nothing.
+create or replace function public.explore_snapshot_page(
+	p_snapshot_id uuid,
+	p_viewer_username text,
+	p_offset integer,
+	p_limit integer
+) returns table (cat public.cats, snapshot_position integer)
+language sql
+stable
+as $$
+select cats as cat, ranked.position::integer
+from public.explore_snapshots
+cross join lateral unnest(explore_snapshots.cat_ids)
+	with ordinality as ranked (cat_id, position)
+join public.cats on cats.id = ranked.cat_id
+where explore_snapshots.id = p_snapshot_id
+	and explore_snapshots.viewer_username is not distinct from p_viewer_username
+	and ranked.position > p_offset
+	and cats.hidden_at is null
+order by ranked.position
+limit p_limit;
+$$;
@@ -0,0 +1,24 @@
+-- Image dimension and placeholder columns for cats, gallery images and avatars.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- before user_metrics.sql, so create_cat_with_post_count can store them.
+
+-- The cover image is denormalised onto the cat row so list queries do not need
+-- to join cat_images. Placeholders are `#rrggbb` dominant colours; rows from
+-- before this migration are filled by POST /admin/images/backfill.
+alter table public.cats
+	add column if not exists image_width integer,
+	add column if not exists image_height integer,
+	add column if not exists image_placeholder text;
+
+alter table public.cat_images
+	add column if not exists placeholder text;
+
+alter table public.users
+	add column if not exists avatar_width integer,
+	add column if not exists avatar_height integer,
+	add column if not exists avatar_placeholder text;
+
+-- Lets the backfill walk unprocessed cats in created_at order.
+create index if not exists cats_missing_placeholder_idx
+	on public.cats (created_at, id)
+	where image_placeholder is null;
@@ -0,0 +1,70 @@
+-- Listings of who liked a cat and which cats a user liked.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- so the LikeListService RPC calls have corresponding functions. Run it after
+-- cat_reactions.sql (only "heart" reactions count as likes here) and
+-- moderation.sql (hidden cats drop out of liked-cat lists).
+
+-- Likes recorded before this column existed all get the time it was added.
+alter table public.likes
+	add column if not exists liked_at timestamptz not null default now();
+
+create index if not exists likes_cat_liked_at_idx
+	on public.likes (cat_id, liked_at desc, username desc);
+
+create index if not exists likes_username_liked_at_idx
+	on public.likes (username, liked_at desc, cat_id desc);
+
+-- Whether other users may see which cats this user liked. Must stay in sync
+-- with LIKES_VISIBILITIES in src/validation.ts.
+alter table public.users
+	add column if not exists likes_visibility text not null default 'public'
+		check (likes_visibility in ('public', 'hidden'));
+
+-- Users who hide their likes are left out of other people's views of a cat's
+-- likers, but still count towards cats.likes.
+create or replace function public.list_cat_likers(
+	p_cat_id uuid,
+	p_viewer_username text default null,
+	p_cursor_liked_at timestamptz default null,
+	p_cursor_username text default null,
+	p_limit integer default 25
+) returns table (username text, liked_at timestamptz)
+language sql
+stable
+as $$
+select likes.username, likes.liked_at
+from public.likes
+join public.users on users.username = likes.username
+where likes.cat_id = p_cat_id
+	and likes.reaction = 'heart'
+	and (users.likes_visibility = 'public' or likes.username = p_viewer_username)
+	and (
+		p_cursor_liked_at is null
+		or (likes.liked_at, likes.username) < (p_cursor_liked_at, p_cursor_username)
+	)
+order by likes.liked_at desc, likes.username desc
+limit p_limit;
+$$;
+
+create or replace function public.list_liked_cats(
+	p_username text,
+	p_cursor_liked_at timestamptz default null,
+	p_cursor_cat_id uuid default null,
+	p_limit integer default 20
+) returns table (cat public.cats, liked_at timestamptz)
+language sql
+stable
+as $$
+select cats as cat, likes.liked_at
+from public.likes
+join public.cats on cats.id = likes.cat_id
+where likes.username = p_username
+	and likes.reaction = 'heart'
+	and cats.hidden_at is null
+	and (
+		p_cursor_liked_at is null
+		or (likes.liked_at, likes.cat_id) < (p_cursor_liked_at, p_cursor_cat_id)
+	)
+order by likes.liked_at desc, likes.cat_id desc
+limit p_limit;
+$$;
@@ -0,0 +1,160 @@
+-- Lost and found posts.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- after cat_geo.sql and moderation.sql, and before user_metrics.sql, so
+-- create_cat_with_post_count can store post types and LostCatService has
+-- corresponding functions.
+
+-- Must stay in sync with CAT_POST_TYPES in src/validation.ts. Lost and found
+-- posts start "open" and move to "reunited" once the cat is home; sightings
+-- have no status.
+alter table public.cats
+	add column if not exists post_type text not null default 'sighting'
+		check (post_type in ('sighting', 'lost', 'found'));
+alter table public.cats
+	add column if not exists post_status text
+		check (post_status in ('open', 'reunited'));
+alter table public.cats add column if not exists reunited_at timestamptz;
+
+-- Only set on lost posts. Alerts reach viewers within alert_radius_m.
+alter table public.cats add column if not exists reward text;
+alter table public.cats add column if not exists contact text;
+alter table public.cats add column if not exists alert_radius_m integer;
+
+create index if not exists cats_open_lost_idx
+	on public.cats (location_latitude, location_longitude)
+	where post_type = 'lost' and post_status = 'open';
+
+-- Open lost posts whose alert radius covers the given point, nearest first.
+-- p_max_radius_m bounds the candidate box and must be at least the largest
+-- alert radius. Distances use the coordinates p_viewer_username may see.
+create or replace function public.lost_cats_near(
+	p_latitude double precision,
+	p_longitude double precision,
+	p_max_radius_m double precision,
+	p_after_distance_m double precision,
+	p_after_id uuid,
+	p_limit integer,
+	p_viewer_username text default null
+) returns table (cat public.cats, distance_m double precision)
+language sql
+stable
+as $$
+with candidates as (
+	select
+		visible.id,
+		public.cat_distance_m(
+			p_latitude,
+			p_longitude,
+			visible.location_latitude,
+			visible.location_longitude
+		) as distance_m
+	from public.radius_bounds(p_latitude, p_longitude, p_max_radius_m) as bounds
+	cross join lateral public.visible_cat_locations(
+		p_viewer_username,
+		bounds.min_latitude,
+		bounds.min_longitude,
+		bounds.max_latitude,
+		bounds.max_longitude
+	) as visible
+)
+select cats as cat, candidates.distance_m
+from candidates
+join public.cats on cats.id = candidates.id
+where cats.post_type = 'lost'
+	and cats.post_status = 'open'
+	and cats.hidden_at is null
+	and candidates.distance_m <= cats.alert_radius_m
+	and (
+		p_after_distance_m is null
+		or (candidates.distance_m, candidates.id) > (p_after_distance_m, p_after_id)
+	)
+order by candidates.distance_m asc, candidates.id asc
+limit p_limit;
+$$;
+
+-- Sightings and open found posts that could be the lost cat: posted by someone
+-- else within its alert radius, and seen between a day before it went missing
+-- and p_window_days after. Nearest first; returns nothing when p_lost_cat_id
+-- is not a lost post or its location is hidden from p_viewer_username.
+create or replace function public.lost_cat_matches(
+	p_lost_cat_id uuid,
+	p_window_days integer,
+	p_after_distance_m double precision,
+	p_after_id uuid,
+	p_limit integer,
+	p_viewer_username text default null
+) returns table (cat public.cats, distance_m double precision)
+language sql
+stable
+as $$
+with lost as (
+	select
+		cats.username,
+		cats.alert_radius_m,
+		coalesce(cats.spotted_at, cats.created_at) as lost_at,
+		public.visible_latitude(
+			cats.location_latitude,
+			users.location_precision,
+			cats.username,
+			p_viewer_username
+		) as location_latitude,
+		public.visible_longitude(
+			cats.location_latitude,
+			cats.location_longitude,
+			users.location_precision,
+			cats.username,
+			p_viewer_username
+		) as location_longitude
+	from public.cats
+	join public.users on users.username = cats.username
+	where cats.id = p_lost_cat_id
+		and cats.post_type = 'lost'
+		and cats.location_latitude is not null
+		and cats.location_longitude is not null
+		and (
+			users.location_precision <> 'hidden'
+			or cats.username = p_viewer_username
+		)
+),
+candidates as (
+	select
+		visible.id,
+		public.cat_distance_m(
+			lost.location_latitude,
+			lost.location_longitude,
+			visible.location_latitude,
+			visible.location_longitude
+		) as distance_m
+	from lost
+	cross join lateral public.radius_bounds(
+		lost.location_latitude,
+		lost.location_longitude,
+		lost.alert_radius_m
+	) as bounds
+	cross join lateral public.visible_cat_locations(
+		p_viewer_username,
+		bounds.min_latitude,
+		bounds.min_longitude,
+		bounds.max_latitude,
+		bounds.max_longitude
+	) as visible
+)
+select cats as cat, candidates.distance_m
+from candidates
+join public.cats on cats.id = candidates.id
+cross join lost
+where cats.post_type in ('sighting', 'found')
+	and cats.post_status is distinct from 'reunited'
+	and cats.hidden_at is null
+	and cats.username <> lost.username
+	and coalesce(cats.spotted_at, cats.created_at)
+		between lost.lost_at - interval '1 day'
+		and lost.lost_at + make_interval(days => p_window_days)
+	and candidates.distance_m <= lost.alert_radius_m
+	and (
+		p_after_distance_m is null
+		or (candidates.distance_m, candidates.id) > (p_after_distance_m, p_after_id)
+	)
+order by candidates.distance_m asc, candidates.id asc
+limit p_limit;
+$$;
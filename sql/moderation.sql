@@ -0,0 +1,184 @@
+-- Content reports and the moderation queue.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- so ModerationService can record reports and work through cases.
+
+-- Set while an item is hidden, either automatically after enough reports or by
+-- a moderator resolving its case. Hidden cats and comments drop out of listings.
+alter table public.cats add column if not exists hidden_at timestamptz;
+alter table public.comments add column if not exists hidden_at timestamptz;
+alter table public.users add column if not exists hidden_at timestamptz;
+
+create index if not exists cats_visible_created_idx
+	on public.cats (created_at desc, id desc)
+	where hidden_at is null;
+
+-- One case collects every report on a target until a moderator closes it.
+-- A target reported again after that gets a new case.
+create table if not exists public.moderation_cases (
+	id uuid primary key,
+	target_type text not null check (target_type in ('cat', 'comment', 'user')),
+	target_id text not null,
+	status text not null default 'open'
+		check (status in ('open', 'claimed', 'resolved', 'dismissed')),
+	report_count integer not null default 0,
+	auto_hidden boolean not null default false,
+	claimed_by text,
+	claimed_at timestamptz,
+	closed_by text,
+	closed_at timestamptz,
+	resolution_note text,
+	created_at timestamptz not null default now(),
+	updated_at timestamptz not null default now()
+);
+
+create unique index if not exists moderation_cases_active_target_key
+	on public.moderation_cases (target_type, target_id)
+	where status in ('open', 'claimed');
+
+create index if not exists moderation_cases_queue_idx
+	on public.moderation_cases (status, created_at, id);
+
+-- Reason values must stay in sync with REPORT_REASONS in src/validation.ts.
+create table if not exists public.reports (
+	id uuid primary key,
+	case_id uuid not null references public.moderation_cases (id) on delete cascade,
+	target_type text not null check (target_type in ('cat', 'comment', 'user')),
+	target_id text not null,
+	reporter_username text not null references public.users (username) on delete cascade,
+	reason text not null check (
+		reason in ('spam', 'harassment', 'hate_speech', 'explicit_content', 'animal_cruelty', 'not_a_cat', 'other')
+	),
+	details text,
+	created_at timestamptz not null default now(),
+	unique (target_type, target_id, reporter_username)
+);
+
+create index if not exists reports_case_idx
+	on public.reports (case_id, created_at desc);
+
+-- Files a report under the target's active case, opening one if needed, and
+-- hides the target once the case reaches p_hide_threshold reports (a null
+-- threshold never hides). A second report by the same user fails with a
+-- unique violation and leaves the case untouched.
+create or replace function public.create_report(
+	p_report_id uuid,
+	p_case_id uuid,
+	p_target_type text,
+	p_target_id text,
+	p_reporter_username text,
+	p_reason text,
+	p_details text,
+	p_hide_threshold integer
+) returns public.moderation_cases
+language sql
+as $$
+with active_case as (
+	insert into public.moderation_cases (id, target_type, target_id, report_count, auto_hidden)
+	values (p_case_id, p_target_type, p_target_id, 1, coalesce(1 >= p_hide_threshold, false))
+	on conflict (target_type, target_id) where status in ('open', 'claimed')
+	do update set
+		report_count = moderation_cases.report_count + 1,
+		auto_hidden = moderation_cases.auto_hidden
+			or coalesce(moderation_cases.report_count + 1 >= p_hide_threshold, false),
+		updated_at = now()
+	returning *
+),
+inserted_report as (
+	insert into public.reports (id, case_id, target_type, target_id, reporter_username, reason, details)
+	select p_report_id, active_case.id, p_target_type, p_target_id, p_reporter_username, p_reason, p_details
+	from active_case
+	returning 1
+),
+hidden_cats as (
+	update public.cats
+	set hidden_at = coalesce(cats.hidden_at, now())
+	from active_case
+	where active_case.auto_hidden
+		and active_case.target_type = 'cat'
+		and cats.id::text = active_case.target_id
+	returning 1
+),
+hidden_comments as (
+	update public.comments
+	set hidden_at = coalesce(comments.hidden_at, now())
+	from active_case
+	where active_case.auto_hidden
+		and active_case.target_type = 'comment'
+		and comments.comment_id::text = active_case.target_id
+	returning 1
+),
+hidden_users as (
+	update public.users
+	set hidden_at = coalesce(users.hidden_at, now())
+	from active_case
+	where active_case.auto_hidden
+		and active_case.target_type = 'user'
+		and users.username = active_case.target_id
+	returning 1
+)
+select * from active_case;
+$$;
+
+-- Returns null when the case is closed or claimed by someone else.
+create or replace function public.claim_moderation_case(
+	p_case_id uuid,
+	p_moderator text
+) returns public.moderation_cases
+language sql
+as $$
+update public.moderation_cases
+set status = 'claimed',
+	claimed_by = p_moderator,
+	claimed_at = coalesce(claimed_at, now()),
+	updated_at = now()
+where id = p_case_id
+	and (status = 'open' or (status = 'claimed' and claimed_by = p_moderator))
+returning *;
+$$;
+
+-- Resolving confirms the reports and keeps the target hidden; dismissing
+-- rejects them and makes the target visible again. Returns null when the case
+-- is already closed or claimed by someone else.
+create or replace function public.close_moderation_case(
+	p_case_id uuid,
+	p_moderator text,
+	p_status text,
+	p_note text
+) returns public.moderation_cases
+language sql
+as $$
+with closed as (
+	update public.moderation_cases
+	set status = p_status,
+		closed_by = p_moderator,
+		closed_at = now(),
+		resolution_note = p_note,
+		updated_at = now()
+	where id = p_case_id
+		and p_status in ('resolved', 'dismissed')
+		and (status = 'open' or (status = 'claimed' and claimed_by = p_moderator))
+	returning *
+),
+updated_cats as (
+	update public.cats
+	set hidden_at = case when closed.status = 'resolved' then coalesce(cats.hidden_at, now()) end
+	from closed
+	where closed.target_type = 'cat' and cats.id::text = closed.target_id
+	returning 1
+),
+updated_comments as (
+	update public.comments
+	set hidden_at = case when closed.status = 'resolved' then coalesce(comments.hidden_at, now()) end
+	from closed
+	where closed.target_type = 'comment' and comments.comment_id::text = closed.target_id
+	returning 1
+),
+updated_users as (
+	update public.users
+	set hidden_at = case when closed.status = 'resolved' then coalesce(users.hidden_at, now()) end
+	from closed
+	where closed.target_type = 'user' and users.username = closed.target_id
+	returning 1
+)
+select * from closed;
+$$;
@@ -0,0 +1,129 @@
+-- Tag usage helpers computed from cats.tags.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- after moderation.sql, so the TagService RPC calls have corresponding
+-- functions. Hidden cats are not counted.
+
+create index if not exists cats_created_at_idx
+	on public.cats (created_at desc);
+
+-- Per-tag post counts for autocomplete, so suggest_tags reads one row per
+-- distinct tag instead of unnesting every cat on each keystroke. The worker's
+-- cron trigger calls refresh_tag_counts(); counts may lag by up to one run.
+create table if not exists public.tag_counts (
+	tag text primary key,
+	post_count integer not null
+);
+
+-- Byte-wise ordering so a prefix is one contiguous index range.
+create index if not exists tag_counts_prefix_idx
+	on public.tag_counts (tag collate "C");
+
+create or replace function public.refresh_tag_counts()
+returns integer
+language sql
+as $$
+with counts as (
+	select tag, count(*)::integer as post_count
+	from public.cats, unnest(cats.tags) as tag
+	where cats.hidden_at is null
+	group by tag
+),
+upserted as (
+	insert into public.tag_counts (tag, post_count)
+	select tag, post_count from counts
+	on conflict (tag) do update set post_count = excluded.post_count
+	returning 1
+),
+removed as (
+	delete from public.tag_counts
+	where not exists (select 1 from counts where counts.tag = tag_counts.tag)
+	returning 1
+)
+select count(*)::integer from upserted;
+$$;
+
+select public.refresh_tag_counts();
+
+-- U+10FFFF sorts after every character, so the upper bound covers every tag
+-- that starts with the prefix.
+create or replace function public.suggest_tags(
+	p_prefix text,
+	p_limit integer
+) returns table (tag text, post_count bigint)
+language sql
+stable
+as $$
+select tag, post_count::bigint
+from public.tag_counts
+where (tag collate "C") >= p_prefix
+	and (tag collate "C") < p_prefix || chr(1114111)
+order by post_count desc, tag asc
+limit p_limit;
+$$;
+
+-- Only cats inside the window are unnested; cats_created_at_idx finds them.
+create or replace function public.trending_tags(
+	p_since timestamptz,
+	p_limit integer
+) returns table (tag text, post_count bigint)
+language sql
+stable
+as $$
+select tag, count(*) as post_count
+from public.cats, unnest(cats.tags) as tag
+where cats.created_at >= p_since
+	and cats.hidden_at is null
+group by tag
+order by post_count desc, tag asc
+limit p_limit;
+$$;
+
+-- Tag aliases map synonyms (e.g. "ginger") onto a canonical tag ("orange").
+-- Aliases are resolved by the worker on write and on tag search; run
+-- backfill_canonical_tags() after adding aliases to rewrite existing posts.
+create table if not exists public.tag_aliases (
+	alias text primary key,
+	canonical_tag text not null,
+	created_at timestamptz not null default now(),
+	check (alias <> canonical_tag)
+);
+
+create index if not exists tag_aliases_canonical_idx
+	on public.tag_aliases (canonical_tag);
+
+-- Maps every tag through tag_aliases, keeping first-seen order and dropping duplicates.
+create or replace function public.canonicalize_tags(
+	p_tags text[]
+) returns text[]
+language sql
+stable
+as $$
+select case
+	when p_tags is null then null
+	else coalesce(array(
+		select resolved.tag
+		from (
+			select distinct on (coalesce(tag_aliases.canonical_tag, input.tag))
+				coalesce(tag_aliases.canonical_tag, input.tag) as tag,
+				input.ord
+			from unnest(p_tags) with ordinality as input (tag, ord)
+			left join public.tag_aliases on tag_aliases.alias = input.tag
+			order by coalesce(tag_aliases.canonical_tag, input.tag), input.ord
+		) as resolved
+		order by resolved.ord
+	), '{}')
+end;
+$$;
+
+create or replace function public.backfill_canonical_tags()
+returns integer
+language sql
+as $$
+with updated as (
+	update public.cats
+	set tags = public.canonicalize_tags(tags)
+	where tags && (select array_agg(alias) from public.tag_aliases)
+	returning 1
+)
+select count(*)::integer from updated;
+$$;
@@ -0,0 +1,20 @@
+-- Two-phase upload staging table.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- so UploadService can track staged R2 objects between init, PUT and use.
+
+create table if not exists public.pending_uploads (
+	id uuid primary key,
+	username text not null references public.users (username) on delete cascade,
+	r2_key text not null,
+	status text not null default 'pending' check (status in ('pending', 'uploaded')),
+	byte_length integer,
+	content_type text,
+	created_at timestamptz not null default now(),
+	expires_at timestamptz not null
+);
+
+create index if not exists pending_uploads_username_idx
+	on public.pending_uploads (username, created_at desc);
+
+create index if not exists pending_uploads_expires_idx
+	on public.pending_uploads (expires_at);
@@ -2,6 +2,19 @@
 -- Run this file against your Supabase database (e.g. via `supabase db push`)
 -- so the metrics-aware services have corresponding RPC functions.
 
+-- p_images was added for gallery posts, p_spotted_at for photo capture
+-- times and the post type parameters for lost and found posts; drop the old
+-- signatures so PostgREST does not see two candidate overloads.
+drop function if exists public.create_cat_with_post_count(
+	uuid, text, text[], text, text, double precision, double precision, text
+);
+drop function if exists public.create_cat_with_post_count(
+	uuid, text, text[], text, text, double precision, double precision, text, jsonb
+);
+drop function if exists public.create_cat_with_post_count(
+	uuid, text, text[], text, text, double precision, double precision, text, jsonb, timestamptz
+);
+
 create or replace function public.create_cat_with_post_count(
 	p_id uuid,
 	p_name text,
@@ -10,7 +23,13 @@ create or replace function public.create_cat_with_post_count(
 	p_description text,
 	p_location_latitude double precision,
 	p_location_longitude double precision,
-	p_r2_path text
+	p_r2_path text,
+	p_images jsonb default '[]'::jsonb,
+	p_spotted_at timestamptz default null,
+	p_post_type text default 'sighting',
+	p_reward text default null,
+	p_contact text default null,
+	p_alert_radius_m integer default null
 ) returns public.cats
 language sql
 as $$
@@ -23,7 +42,16 @@ with inserted as (
 		description,
 		location_latitude,
 		location_longitude,
-		r2_path
+		r2_path,
+		image_width,
+		image_height,
+		image_placeholder,
+		spotted_at,
+		post_type,
+		post_status,
+		reward,
+		contact,
+		alert_radius_m
 	)
 	values (
 		p_id,
@@ -33,10 +61,51 @@ with inserted as (
 		p_description,
 		p_location_latitude,
 		p_location_longitude,
-		p_r2_path
+		p_r2_path,
+		(p_images -> 0 ->> 'width')::integer,
+		(p_images -> 0 ->> 'height')::integer,
+		p_images -> 0 ->> 'placeholder',
+		p_spotted_at,
+		p_post_type,
+		case when p_post_type = 'sighting' then null else 'open' end,
+		p_reward,
+		p_contact,
+		p_alert_radius_m
 	)
 	returning *
 ),
+inserted_images as (
+	insert into public.cat_images (
+		cat_id,
+		position,
+		r2_path,
+		width,
+		height,
+		placeholder,
+		perceptual_hash,
+		content_hash
+	)
+	select
+		inserted.id,
+		image.position,
+		image.r2_path,
+		image.width,
+		image.height,
+		image.placeholder,
+		image.perceptual_hash,
+		image.content_hash
+	from inserted
+	cross join jsonb_to_recordset(p_images) as image (
+		position integer,
+		r2_path text,
+		width integer,
+		height integer,
+		placeholder text,
+		perceptual_hash bigint,
+		content_hash text
+	)
+	returning 1
+),
 updated as (
 	update public.users
 	set post_count = coalesce(post_count, 0) + coalesce((select count(*) from inserted), 0)
@@ -46,6 +115,69 @@ updated as (
 select * from inserted;
 $$;
 
+create or replace function public.delete_cat_with_post_count(
+	p_cat_id uuid,
+	p_username text
+) returns setof public.cats
+language sql
+as $$
+with target as (
+	select id
+	from public.cats
+	where id = p_cat_id and username = p_username
+),
+removed_links as (
+	delete from public.collection_cats
+	using target
+	where collection_cats.cat_id = target.id
+	returning collection_cats.collection_id
+),
+updated_collections as (
+	update public.collections
+	set cat_count = greatest(cat_count - removed.link_count, 0),
+		updated_at = now()
+	from (
+		select collection_id, count(*) as link_count
+		from removed_links
+		group by collection_id
+	) as removed
+	where collections.id = removed.collection_id
+	returning 1
+),
+deleted_likes as (
+	delete from public.likes
+	using target
+	where likes.cat_id = target.id
+	returning 1
+),
+deleted_comments as (
+	delete from public.comments
+	using target
+	where comments.cat_id = target.id
+	returning 1
+),
+deleted as (
+	delete from public.cats
+	using target
+	where cats.id = target.id
+	returning cats.*
+),
+updated_identities as (
+	update public.cat_identities
+	set sighting_count = greatest(sighting_count - 1, 0)
+	from deleted
+	where cat_identities.id = deleted.identity_id
+	returning 1
+),
+updated as (
+	update public.users
+	set post_count = greatest(coalesce(post_count, 0) - coalesce((select count(*) from deleted), 0), 0)
+	where username = p_username
+	returning 1
+)
+select * from deleted;
+$$;
+
 create or replace function public.follow_user_with_counts(
 	p_follower_username text,
 	p_followee_username text
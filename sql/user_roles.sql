@@ -0,0 +1,15 @@
+-- User roles and account suspension.
+-- Run this file against your Supabase database (e.g. via `supabase db push`)
+-- so UserService can check roles and suspensions. Grant the first admin by
+-- hand or through POST /admin/users/setRole, e.g.:
+--   update public.users set role = 'admin' where username = 'alice';
+
+-- Must stay in sync with USER_ROLES in src/validation.ts.
+alter table public.users
+	add column if not exists role text not null default 'user'
+		check (role in ('user', 'moderator', 'admin'));
+
+-- Suspended users keep their session token so requests fail with a
+-- "suspended" error instead of looking logged out.
+alter table public.users add column if not exists suspended_at timestamptz;
+alter table public.users add column if not exists suspension_reason text;
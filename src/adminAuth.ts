@@ -0,0 +1,63 @@
+import { AuthError, HttpError } from "./errors";
+import type { UserProfile, UserRole } from "./models";
+import type { UserService } from "./services/userService";
+import { validateSessionToken, validateUserRole } from "./validation";
+
+type EnvWithAdminKey = Env & {
+	ADMIN_API_KEY?: string;
+};
+
+export const ADMIN_KEY_HEADER = "X-Admin-Key";
+
+/**
+ * Resolves the session user and checks they hold at least requiredRole.
+ * Admin endpoints use this; the admin key is only for appointing the first
+ * admin, before any session can hold the role.
+ */
+export async function authorizeRole(
+	userService: UserService,
+	sessionToken: string | undefined,
+	requiredRole: UserRole,
+): Promise<UserProfile> {
+	const sessionError = validateSessionToken(sessionToken);
+	if (sessionError) {
+		throw sessionError === "Missing session_token"
+			? new AuthError(sessionError)
+			: new HttpError(sessionError, 400);
+	}
+
+	const actor = await userService.getUserBySessionToken(sessionToken!);
+	const roleError = validateUserRole(actor.role, requiredRole);
+	if (roleError) {
+		throw new HttpError(roleError, 403);
+	}
+
+	return actor;
+}
+
+export function assertAdminKey(request: Request, env: Env): void {
+	const expected = (env as EnvWithAdminKey).ADMIN_API_KEY;
+	if (!expected) {
+		throw new HttpError("Admin API is not configured", 503);
+	}
+
+	const provided = request.headers.get(ADMIN_KEY_HEADER);
+	if (!provided) {
+		throw new AuthError(`Missing ${ADMIN_KEY_HEADER} header`);
+	}
+
+	if (!timingSafeEqual(provided, expected)) {
+		throw new HttpError("Forbidden", 403);
+	}
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+	const encoder = new TextEncoder();
+	const aBytes = encoder.encode(a);
+	const bBytes = encoder.encode(b);
+	let diff = aBytes.length ^ bBytes.length;
+	for (let i = 0; i < bBytes.length; i += 1) {
+		diff |= (aBytes[i] ?? 0) ^ bBytes[i];
+	}
+	return diff === 0;
+}
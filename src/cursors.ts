@@ -0,0 +1,76 @@
+import type { CatRecord } from "./models";
+
+// Keyset position in lists ordered by created_at desc, id desc.
+export type CursorPayload = {
+	created_at: string;
+	id: string;
+};
+
+/**
+ * Encodes a pagination cursor as base64 JSON. Cursors are opaque to clients;
+ * each decoder checks the fields it needs.
+ */
+export function encodeCursorPayload(payload: object): string {
+	return base64Encode(JSON.stringify(payload));
+}
+
+// Throws on malformed input; decoders catch it and report "Invalid cursor".
+export function decodeCursorPayload(rawCursor: string): unknown {
+	return JSON.parse(base64Decode(rawCursor));
+}
+
+export function encodeCursor(row: Pick<CatRecord, "created_at" | "id">): string {
+	return encodeCursorPayload({
+		created_at: row.created_at,
+		id: row.id,
+	});
+}
+
+export function decodeCursor(
+	rawCursor: string | null,
+): { cursor: CursorPayload | null; error: string | null } {
+	if (!rawCursor) {
+		return { cursor: null, error: null };
+	}
+
+	try {
+		const parsed = decodeCursorPayload(rawCursor) as Partial<CursorPayload>;
+		if (
+			typeof parsed.created_at === "string" &&
+			typeof parsed.id === "string"
+		) {
+			return {
+				cursor: {
+					created_at: parsed.created_at,
+					id: parsed.id,
+				},
+				error: null,
+			};
+		}
+		return { cursor: null, error: "Invalid cursor" };
+	} catch {
+		return { cursor: null, error: "Invalid cursor" };
+	}
+}
+
+export function buildCursorClause(cursor: CursorPayload): string {
+	return `and(created_at.lt.${cursor.created_at}),and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`;
+}
+
+function base64Encode(input: string): string {
+	const utf8 = new TextEncoder().encode(input);
+	let binary = "";
+	for (const byte of utf8) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function base64Decode(encoded: string): string {
+	const binary = atob(encoded);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i += 1) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return new TextDecoder().decode(bytes);
+}
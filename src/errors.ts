@@ -22,4 +22,9 @@ export class ConflictError extends HttpError {
 	}
 }
 
-
+export class SuspendedError extends HttpError {
+	constructor(message = "Account suspended") {
+		super(message, 403);
+		this.name = "SuspendedError";
+	}
+}
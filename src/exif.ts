@@ -0,0 +1,570 @@
+export type ExifMetadata = {
+	capturedAt: string | null;
+	latitude: number | null;
+	longitude: number | null;
+	orientation: number | null;
+};
+
+type TiffReader = {
+	bytes: Uint8Array;
+	littleEndian: boolean;
+};
+
+type IfdEntry = {
+	type: number;
+	count: number;
+	valueOffset: number;
+};
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_TIME_STAMP = 0x0007;
+const TAG_GPS_DATE_STAMP = 0x001d;
+
+const TYPE_SIZES: Record<number, number> = {
+	1: 1,
+	2: 1,
+	3: 2,
+	4: 4,
+	5: 8,
+	7: 1,
+	9: 4,
+	10: 8,
+};
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "iTXt", "zTXt"]);
+const WEBP_METADATA_CHUNKS = new Set(["EXIF", "XMP "]);
+
+/**
+ * Reads capture time, GPS position and orientation from the EXIF block of a
+ * JPEG, WebP or PNG image. Returns null when the image carries no readable EXIF.
+ */
+export function readExifMetadata(
+	bytes: Uint8Array,
+	contentType: string,
+): ExifMetadata | null {
+	const tiff = findExifPayload(bytes, contentType);
+	if (!tiff) {
+		return null;
+	}
+
+	try {
+		return parseTiff(tiff);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Returns a copy of the image without EXIF, XMP and text metadata. When the
+ * original declared a non-default orientation, a minimal EXIF block holding
+ * only that tag is written back so the photo still displays upright.
+ */
+export function stripImageMetadata(
+	bytes: Uint8Array,
+	contentType: string,
+	orientation: number | null,
+): Uint8Array {
+	const keptOrientation =
+		orientation !== null && orientation > 1 && orientation <= 8
+			? orientation
+			: null;
+
+	switch (contentType) {
+		case "image/jpeg":
+			return stripJpegMetadata(bytes, keptOrientation);
+		case "image/webp":
+			return stripWebpMetadata(bytes, keptOrientation);
+		case "image/png":
+			return stripPngMetadata(bytes);
+		default:
+			return bytes;
+	}
+}
+
+function findExifPayload(
+	bytes: Uint8Array,
+	contentType: string,
+): Uint8Array | null {
+	switch (contentType) {
+		case "image/jpeg": {
+			for (const segment of iterateJpegSegments(bytes)) {
+				if (
+					segment.marker === 0xe1 &&
+					startsWith(bytes, segment.dataStart, EXIF_HEADER)
+				) {
+					return bytes.subarray(segment.dataStart + EXIF_HEADER.length, segment.end);
+				}
+			}
+			return null;
+		}
+		case "image/webp": {
+			for (const chunk of iterateWebpChunks(bytes)) {
+				if (chunk.type === "EXIF") {
+					const data = bytes.subarray(chunk.dataStart, chunk.dataEnd);
+					// Some encoders keep the JPEG-style "Exif\0\0" prefix inside the chunk.
+					return startsWith(data, 0, EXIF_HEADER)
+						? data.subarray(EXIF_HEADER.length)
+						: data;
+				}
+			}
+			return null;
+		}
+		case "image/png": {
+			for (const chunk of iteratePngChunks(bytes)) {
+				if (chunk.type === "eXIf") {
+					return bytes.subarray(chunk.dataStart, chunk.dataEnd);
+				}
+			}
+			return null;
+		}
+		default:
+			return null;
+	}
+}
+
+function parseTiff(tiff: Uint8Array): ExifMetadata | null {
+	if (tiff.length < 8) {
+		return null;
+	}
+
+	const byteOrder = String.fromCharCode(tiff[0], tiff[1]);
+	if (byteOrder !== "II" && byteOrder !== "MM") {
+		return null;
+	}
+
+	const reader: TiffReader = { bytes: tiff, littleEndian: byteOrder === "II" };
+	if (readUint16(reader, 2) !== 42) {
+		return null;
+	}
+
+	const ifd0 = readIfd(reader, readUint32(reader, 4));
+	const exifIfd = readPointedIfd(reader, ifd0.get(TAG_EXIF_IFD));
+	const gpsIfd = readPointedIfd(reader, ifd0.get(TAG_GPS_IFD));
+
+	const latitude = readGpsCoordinate(
+		reader,
+		gpsIfd.get(TAG_GPS_LATITUDE),
+		gpsIfd.get(TAG_GPS_LATITUDE_REF),
+		"S",
+		90,
+	);
+	const longitude = readGpsCoordinate(
+		reader,
+		gpsIfd.get(TAG_GPS_LONGITUDE),
+		gpsIfd.get(TAG_GPS_LONGITUDE_REF),
+		"W",
+		180,
+	);
+	const orientationEntry = ifd0.get(TAG_ORIENTATION);
+
+	return {
+		capturedAt: readCaptureTime(reader, ifd0, exifIfd, gpsIfd),
+		latitude: latitude !== null && longitude !== null ? latitude : null,
+		longitude: latitude !== null && longitude !== null ? longitude : null,
+		orientation: orientationEntry
+			? readUint16(reader, orientationEntry.valueOffset)
+			: null,
+	};
+}
+
+function readCaptureTime(
+	reader: TiffReader,
+	ifd0: Map<number, IfdEntry>,
+	exifIfd: Map<number, IfdEntry>,
+	gpsIfd: Map<number, IfdEntry>,
+): string | null {
+	const original = readAsciiEntry(reader, exifIfd.get(TAG_DATE_TIME_ORIGINAL));
+	const offset = readAsciiEntry(reader, exifIfd.get(TAG_OFFSET_TIME_ORIGINAL));
+
+	if (original && offset && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+		const withOffset = parseExifDateTime(original, offset);
+		if (withOffset) {
+			return withOffset;
+		}
+	}
+
+	// GPS timestamps are always UTC, so prefer them over a local time without an offset.
+	const gpsDate = readAsciiEntry(reader, gpsIfd.get(TAG_GPS_DATE_STAMP));
+	const gpsTime = readRationals(reader, gpsIfd.get(TAG_GPS_TIME_STAMP));
+	if (gpsDate && gpsTime && gpsTime.length === 3) {
+		const [hours, minutes, seconds] = gpsTime.map((value) => Math.floor(value));
+		const time = [hours, minutes, seconds]
+			.map((value) => String(value).padStart(2, "0"))
+			.join(":");
+		const fromGps = parseExifDateTime(`${gpsDate} ${time}`, "Z");
+		if (fromGps) {
+			return fromGps;
+		}
+	}
+
+	// Without any zone information the local capture time is treated as UTC.
+	const local =
+		original ?? readAsciiEntry(reader, ifd0.get(TAG_DATE_TIME));
+	return local ? parseExifDateTime(local, "Z") : null;
+}
+
+function parseExifDateTime(value: string, zone: string): string | null {
+	const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+	if (!match) {
+		return null;
+	}
+
+	const [, year, month, day, hours, minutes, seconds] = match;
+	const timestamp = Date.parse(
+		`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${zone}`,
+	);
+	return Number.isNaN(timestamp) ? null : new Date(timestamp).toISOString();
+}
+
+function readGpsCoordinate(
+	reader: TiffReader,
+	valueEntry: IfdEntry | undefined,
+	refEntry: IfdEntry | undefined,
+	negativeRef: string,
+	limit: number,
+): number | null {
+	const parts = readRationals(reader, valueEntry);
+	if (!parts || parts.length !== 3) {
+		return null;
+	}
+
+	const [degrees, minutes, seconds] = parts;
+	const magnitude = degrees + minutes / 60 + seconds / 3600;
+	if (!Number.isFinite(magnitude) || magnitude > limit) {
+		return null;
+	}
+
+	const ref = readAsciiEntry(reader, refEntry);
+	return ref?.toUpperCase() === negativeRef ? -magnitude : magnitude;
+}
+
+function readIfd(reader: TiffReader, offset: number): Map<number, IfdEntry> {
+	const entries = new Map<number, IfdEntry>();
+	if (offset < 8 || offset + 2 > reader.bytes.length) {
+		return entries;
+	}
+
+	const count = readUint16(reader, offset);
+	for (let i = 0; i < count; i += 1) {
+		const entryOffset = offset + 2 + i * 12;
+		if (entryOffset + 12 > reader.bytes.length) {
+			break;
+		}
+
+		const tag = readUint16(reader, entryOffset);
+		const type = readUint16(reader, entryOffset + 2);
+		const valueCount = readUint32(reader, entryOffset + 4);
+		const typeSize = TYPE_SIZES[type];
+		if (!typeSize) {
+			continue;
+		}
+
+		// Values of four bytes or less are stored inline in the entry itself.
+		const byteLength = typeSize * valueCount;
+		const valueOffset =
+			byteLength <= 4 ? entryOffset + 8 : readUint32(reader, entryOffset + 8);
+		if (valueOffset + byteLength > reader.bytes.length) {
+			continue;
+		}
+
+		entries.set(tag, { type, count: valueCount, valueOffset });
+	}
+
+	return entries;
+}
+
+function readPointedIfd(
+	reader: TiffReader,
+	pointer: IfdEntry | undefined,
+): Map<number, IfdEntry> {
+	if (!pointer || pointer.type !== 4) {
+		return new Map<number, IfdEntry>();
+	}
+	return readIfd(reader, readUint32(reader, pointer.valueOffset));
+}
+
+function readAsciiEntry(
+	reader: TiffReader,
+	entry: IfdEntry | undefined,
+): string | null {
+	if (!entry || entry.type !== 2) {
+		return null;
+	}
+
+	const raw = reader.bytes.subarray(
+		entry.valueOffset,
+		entry.valueOffset + entry.count,
+	);
+	const terminator = raw.indexOf(0);
+	const text = String.fromCharCode(
+		...(terminator === -1 ? raw : raw.subarray(0, terminator)),
+	).trim();
+	return text.length ? text : null;
+}
+
+function readRationals(
+	reader: TiffReader,
+	entry: IfdEntry | undefined,
+): number[] | null {
+	if (!entry || entry.type !== 5) {
+		return null;
+	}
+
+	const values: number[] = [];
+	for (let i = 0; i < entry.count; i += 1) {
+		const numerator = readUint32(reader, entry.valueOffset + i * 8);
+		const denominator = readUint32(reader, entry.valueOffset + i * 8 + 4);
+		if (denominator === 0) {
+			return null;
+		}
+		values.push(numerator / denominator);
+	}
+	return values;
+}
+
+function readUint16(reader: TiffReader, offset: number): number {
+	const { bytes } = reader;
+	return reader.littleEndian
+		? bytes[offset] | (bytes[offset + 1] << 8)
+		: (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint32(reader: TiffReader, offset: number): number {
+	const { bytes } = reader;
+	const value = reader.littleEndian
+		? bytes[offset] |
+			(bytes[offset + 1] << 8) |
+			(bytes[offset + 2] << 16) |
+			(bytes[offset + 3] << 24)
+		: (bytes[offset] << 24) |
+			(bytes[offset + 1] << 16) |
+			(bytes[offset + 2] << 8) |
+			bytes[offset + 3];
+	return value >>> 0;
+}
+
+function* iterateJpegSegments(
+	bytes: Uint8Array,
+): Generator<{ marker: number; start: number; dataStart: number; end: number }> {
+	let offset = 2;
+	while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+		const marker = bytes[offset + 1];
+		// Entropy-coded data follows the start-of-scan segment; metadata never appears after it.
+		if (marker === 0xda || marker === 0xd9) {
+			return;
+		}
+		if (marker === 0xff) {
+			offset += 1;
+			continue;
+		}
+
+		const segmentLength = (bytes[offset + 2] << 8) | bytes[offset + 3];
+		const end = offset + 2 + segmentLength;
+		if (segmentLength < 2 || end > bytes.length) {
+			return;
+		}
+
+		yield { marker, start: offset, dataStart: offset + 4, end };
+		offset = end;
+	}
+}
+
+function* iterateWebpChunks(
+	bytes: Uint8Array,
+): Generator<{ type: string; start: number; dataStart: number; dataEnd: number; end: number }> {
+	if (bytes.length < 12 || readAscii(bytes, 0, 4) !== "RIFF") {
+		return;
+	}
+
+	let offset = 12;
+	while (offset + 8 <= bytes.length) {
+		const type = readAscii(bytes, offset, 4);
+		const size =
+			(bytes[offset + 4] |
+				(bytes[offset + 5] << 8) |
+				(bytes[offset + 6] << 16) |
+				(bytes[offset + 7] << 24)) >>>
+			0;
+		const dataEnd = offset + 8 + size;
+		if (dataEnd > bytes.length) {
+			return;
+		}
+
+		// Chunks are padded to an even length.
+		const end = Math.min(dataEnd + (size % 2), bytes.length);
+		yield { type, start: offset, dataStart: offset + 8, dataEnd, end };
+		offset = end;
+	}
+}
+
+function* iteratePngChunks(
+	bytes: Uint8Array,
+): Generator<{ type: string; start: number; dataStart: number; dataEnd: number; end: number }> {
+	let offset = 8;
+	while (offset + 12 <= bytes.length) {
+		const length =
+			((bytes[offset] << 24) |
+				(bytes[offset + 1] << 16) |
+				(bytes[offset + 2] << 8) |
+				bytes[offset + 3]) >>>
+			0;
+		const dataEnd = offset + 8 + length;
+		const end = dataEnd + 4;
+		if (end > bytes.length) {
+			return;
+		}
+
+		yield {
+			type: readAscii(bytes, offset + 4, 4),
+			start: offset,
+			dataStart: offset + 8,
+			dataEnd,
+			end,
+		};
+		offset = end;
+	}
+}
+
+function stripJpegMetadata(
+	bytes: Uint8Array,
+	orientation: number | null,
+): Uint8Array {
+	const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+	let offset = 2;
+	let insertedOrientation = orientation === null;
+
+	for (const segment of iterateJpegSegments(bytes)) {
+		// APP1 holds EXIF and XMP, APP13 holds IPTC; both can carry location data.
+		const isMetadata = segment.marker === 0xe1 || segment.marker === 0xed;
+		if (!insertedOrientation && segment.marker !== 0xe0) {
+			parts.push(buildJpegOrientationSegment(orientation!));
+			insertedOrientation = true;
+		}
+		if (!isMetadata) {
+			parts.push(bytes.subarray(segment.start, segment.end));
+		}
+		offset = segment.end;
+	}
+
+	if (!insertedOrientation) {
+		parts.push(buildJpegOrientationSegment(orientation!));
+	}
+	parts.push(bytes.subarray(offset));
+
+	return concatBytes(parts);
+}
+
+function stripWebpMetadata(
+	bytes: Uint8Array,
+	orientation: number | null,
+): Uint8Array {
+	const parts: Uint8Array[] = [];
+	let hasExtendedHeader = false;
+	let removed = false;
+
+	for (const chunk of iterateWebpChunks(bytes)) {
+		if (WEBP_METADATA_CHUNKS.has(chunk.type)) {
+			removed = true;
+			continue;
+		}
+		const copy = bytes.slice(chunk.start, chunk.end);
+		if (chunk.type === "VP8X" && copy.length > 8) {
+			hasExtendedHeader = true;
+			// Clear the XMP flag and keep the EXIF flag only for the orientation block.
+			copy[8] = (copy[8] & ~0x0c) | (orientation !== null ? 0x08 : 0);
+		}
+		parts.push(copy);
+	}
+
+	// Simple-format WebP files cannot hold metadata chunks, so there is nothing to strip.
+	if (!hasExtendedHeader || (!removed && orientation === null)) {
+		return bytes;
+	}
+
+	if (orientation !== null) {
+		const tiff = buildOrientationTiff(orientation);
+		const header = new Uint8Array(8);
+		header.set([0x45, 0x58, 0x49, 0x46], 0); // "EXIF"
+		writeUint32LE(header, 4, tiff.length);
+		parts.push(header, tiff);
+	}
+
+	const body = concatBytes(parts);
+	const riffHeader = bytes.slice(0, 12);
+	writeUint32LE(riffHeader, 4, body.length + 4);
+	return concatBytes([riffHeader, body]);
+}
+
+function stripPngMetadata(bytes: Uint8Array): Uint8Array {
+	const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+	let offset = 8;
+
+	for (const chunk of iteratePngChunks(bytes)) {
+		if (!PNG_METADATA_CHUNKS.has(chunk.type)) {
+			parts.push(bytes.subarray(chunk.start, chunk.end));
+		}
+		offset = chunk.end;
+	}
+
+	parts.push(bytes.subarray(offset));
+	return concatBytes(parts);
+}
+
+function buildJpegOrientationSegment(orientation: number): Uint8Array {
+	const tiff = buildOrientationTiff(orientation);
+	const segment = new Uint8Array(4 + EXIF_HEADER.length + tiff.length);
+	const length = segment.length - 2;
+	segment.set([0xff, 0xe1, length >> 8, length & 0xff], 0);
+	segment.set(EXIF_HEADER, 4);
+	segment.set(tiff, 4 + EXIF_HEADER.length);
+	return segment;
+}
+
+function buildOrientationTiff(orientation: number): Uint8Array {
+	// Big-endian TIFF header followed by a single IFD with one SHORT entry.
+	return new Uint8Array([
+		0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+		0x00, 0x01,
+		0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+		0x00, 0x00, 0x00, 0x00,
+	]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+	const total = parts.reduce((sum, part) => sum + part.length, 0);
+	const output = new Uint8Array(total);
+	let offset = 0;
+	for (const part of parts) {
+		output.set(part, offset);
+		offset += part.length;
+	}
+	return output;
+}
+
+function writeUint32LE(bytes: Uint8Array, offset: number, value: number): void {
+	bytes[offset] = value & 0xff;
+	bytes[offset + 1] = (value >>> 8) & 0xff;
+	bytes[offset + 2] = (value >>> 16) & 0xff;
+	bytes[offset + 3] = (value >>> 24) & 0xff;
+}
+
+function startsWith(bytes: Uint8Array, offset: number, prefix: number[]): boolean {
+	if (offset + prefix.length > bytes.length) {
+		return false;
+	}
+	return prefix.every((value, index) => bytes[offset + index] === value);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+	return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
@@ -0,0 +1,180 @@
+export type ImageDimensions = {
+	width: number;
+	height: number;
+};
+
+export type SniffedImageType =
+	| "image/jpeg"
+	| "image/png"
+	| "image/webp"
+	| "image/heic"
+	| "image/avif";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const HEIC_BRANDS = new Set(["heic", "heix", "heim", "heis", "hevc", "hevx"]);
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+
+/**
+ * Detects the image format from its leading bytes, ignoring whatever type the
+ * client declared. Returns null for anything that is not a recognised image.
+ */
+export function sniffImageType(bytes: Uint8Array): SniffedImageType | null {
+	if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+		return "image/jpeg";
+	}
+
+	if (
+		bytes.length >= PNG_SIGNATURE.length &&
+		PNG_SIGNATURE.every((value, index) => bytes[index] === value)
+	) {
+		return "image/png";
+	}
+
+	if (
+		bytes.length >= 12 &&
+		readAscii(bytes, 0, 4) === "RIFF" &&
+		readAscii(bytes, 8, 4) === "WEBP"
+	) {
+		return "image/webp";
+	}
+
+	if (bytes.length >= 16 && readAscii(bytes, 4, 4) === "ftyp") {
+		return sniffIsoBrand(bytes);
+	}
+
+	return null;
+}
+
+export function readImageDimensions(
+	bytes: Uint8Array,
+	contentType: string,
+): ImageDimensions | null {
+	switch (contentType) {
+		case "image/jpeg":
+			return readJpegDimensions(bytes);
+		case "image/png":
+			return readPngDimensions(bytes);
+		case "image/webp":
+			return readWebpDimensions(bytes);
+		default:
+			return null;
+	}
+}
+
+function readJpegDimensions(bytes: Uint8Array): ImageDimensions | null {
+	let offset = 2;
+	while (offset + 9 < bytes.length) {
+		if (bytes[offset] !== 0xff) {
+			return null;
+		}
+
+		const marker = bytes[offset + 1];
+		// Fill bytes and standalone markers carry no length field.
+		if (marker === 0xff) {
+			offset += 1;
+			continue;
+		}
+		if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+			offset += 2;
+			continue;
+		}
+
+		const segmentLength = readUint16BE(bytes, offset + 2);
+		const isStartOfFrame =
+			marker >= 0xc0 &&
+			marker <= 0xcf &&
+			marker !== 0xc4 &&
+			marker !== 0xc8 &&
+			marker !== 0xcc;
+
+		if (isStartOfFrame) {
+			return {
+				height: readUint16BE(bytes, offset + 5),
+				width: readUint16BE(bytes, offset + 7),
+			};
+		}
+
+		offset += 2 + segmentLength;
+	}
+
+	return null;
+}
+
+function readPngDimensions(bytes: Uint8Array): ImageDimensions | null {
+	if (bytes.length < 24 || readAscii(bytes, 12, 4) !== "IHDR") {
+		return null;
+	}
+
+	return {
+		width: readUint32BE(bytes, 16),
+		height: readUint32BE(bytes, 20),
+	};
+}
+
+function readWebpDimensions(bytes: Uint8Array): ImageDimensions | null {
+	if (bytes.length < 30) {
+		return null;
+	}
+
+	const chunk = readAscii(bytes, 12, 4);
+	if (chunk === "VP8 ") {
+		return {
+			width: (bytes[26] | (bytes[27] << 8)) & 0x3fff,
+			height: (bytes[28] | (bytes[29] << 8)) & 0x3fff,
+		};
+	}
+
+	if (chunk === "VP8L") {
+		const bits =
+			bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+		return {
+			width: (bits & 0x3fff) + 1,
+			height: ((bits >>> 14) & 0x3fff) + 1,
+		};
+	}
+
+	if (chunk === "VP8X") {
+		return {
+			width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+			height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)),
+		};
+	}
+
+	return null;
+}
+
+// HEIF containers list a major brand followed by compatible brands in the ftyp box.
+function sniffIsoBrand(bytes: Uint8Array): SniffedImageType | null {
+	const boxSize = Math.min(readUint32BE(bytes, 0), bytes.length);
+	const brands = [readAscii(bytes, 8, 4)];
+	for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+		brands.push(readAscii(bytes, offset, 4));
+	}
+
+	if (brands.some((brand) => AVIF_BRANDS.has(brand))) {
+		return "image/avif";
+	}
+
+	if (brands.some((brand) => HEIC_BRANDS.has(brand))) {
+		return "image/heic";
+	}
+
+	return null;
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+	return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+	return (
+		((bytes[offset] << 24) >>> 0) +
+		(bytes[offset + 1] << 16) +
+		(bytes[offset + 2] << 8) +
+		bytes[offset + 3]
+	);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+	return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
@@ -0,0 +1,53 @@
+import type { ImageThumbnail } from "./imageThumbnail";
+
+const HISTOGRAM_BITS = 3;
+
+/**
+ * Computes a compact placeholder for an image: its dominant colour as
+ * `#rrggbb`, taken as the mean of the most populated colour bucket so small
+ * bright details do not tint the result. Fully transparent pixels are ignored.
+ */
+export function computeImagePlaceholder(thumbnail: ImageThumbnail | null): string | null {
+	if (!thumbnail) {
+		return null;
+	}
+
+	const bucketCount = 1 << (HISTOGRAM_BITS * 3);
+	const counts = new Uint32Array(bucketCount);
+	const sums = new Float64Array(bucketCount * 3);
+	const shift = 8 - HISTOGRAM_BITS;
+	const { pixels } = thumbnail;
+
+	for (let offset = 0; offset < pixels.length; offset += 4) {
+		if (pixels[offset + 3] === 0) {
+			continue;
+		}
+		const bucket =
+			((pixels[offset] >> shift) << (HISTOGRAM_BITS * 2)) |
+			((pixels[offset + 1] >> shift) << HISTOGRAM_BITS) |
+			(pixels[offset + 2] >> shift);
+		counts[bucket] += 1;
+		sums[bucket * 3] += pixels[offset];
+		sums[bucket * 3 + 1] += pixels[offset + 1];
+		sums[bucket * 3 + 2] += pixels[offset + 2];
+	}
+
+	let best = -1;
+	for (let bucket = 0; bucket < bucketCount; bucket += 1) {
+		if (counts[bucket] && (best === -1 || counts[bucket] > counts[best])) {
+			best = bucket;
+		}
+	}
+
+	if (best === -1) {
+		return null;
+	}
+
+	return `#${[0, 1, 2]
+		.map((channel) =>
+			Math.round(sums[best * 3 + channel] / counts[best])
+				.toString(16)
+				.padStart(2, "0"),
+		)
+		.join("")}`;
+}
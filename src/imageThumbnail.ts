@@ -0,0 +1,685 @@
+export type ImageThumbnail = {
+	width: number;
+	height: number;
+	// RGBA, row-major.
+	pixels: Uint8ClampedArray;
+};
+
+type HuffmanTable = {
+	maxCode: Int32Array;
+	valPtr: Int32Array;
+	minCode: Int32Array;
+	values: Uint8Array;
+};
+
+type JpegComponent = {
+	id: number;
+	h: number;
+	v: number;
+	quantTable: number;
+};
+
+type JpegFrame = {
+	progressive: boolean;
+	width: number;
+	height: number;
+	components: JpegComponent[];
+};
+
+// DC coefficients of one component, one entry per 8x8 block.
+type ComponentBlocks = {
+	component: JpegComponent;
+	blocksPerLine: number;
+	blocks: Float32Array;
+};
+
+type ScanComponent = ComponentBlocks & {
+	dcTable: HuffmanTable;
+	acTable: HuffmanTable | null;
+	predictor: number;
+};
+
+const PNG_SAMPLE_GRID = 64;
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Decodes a small RGBA preview of an image: JPEGs are read at 1/8 scale from
+ * their DC coefficients and PNGs are averaged onto a grid of about 64x64 cells
+ * as rows are inflated, so the full-size image is never held in memory.
+ * Returns null for formats or encodings that cannot be read this way (WebP,
+ * arithmetic-coded or CMYK JPEGs, interlaced PNGs).
+ */
+export async function decodeImageThumbnail(
+	bytes: Uint8Array,
+	contentType: string,
+): Promise<ImageThumbnail | null> {
+	try {
+		switch (contentType) {
+			case "image/jpeg":
+				return decodeJpegThumbnail(bytes);
+			case "image/png":
+				return await decodePngThumbnail(bytes);
+			default:
+				return null;
+		}
+	} catch {
+		return null;
+	}
+}
+
+function decodeJpegThumbnail(bytes: Uint8Array): ImageThumbnail | null {
+	const dcTables: HuffmanTable[] = [];
+	const acTables: HuffmanTable[] = [];
+	const quantDc: number[] = [];
+	const decoded = new Map<number, ComponentBlocks>();
+	let frame: JpegFrame | null = null;
+	let restartInterval = 0;
+	let offset = 2;
+
+	while (offset + 4 <= bytes.length) {
+		if (bytes[offset] !== 0xff) {
+			return null;
+		}
+
+		const marker = bytes[offset + 1];
+		if (marker === 0xff) {
+			offset += 1;
+			continue;
+		}
+		if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+			offset += 2;
+			continue;
+		}
+		if (marker === 0xd9) {
+			return null;
+		}
+
+		const segmentStart = offset + 4;
+		const segmentEnd = offset + 2 + readUint16BE(bytes, offset + 2);
+		if (segmentEnd > bytes.length) {
+			return null;
+		}
+
+		switch (marker) {
+			case 0xdb: {
+				// Only the DC entry, the first of each table, is needed.
+				let position = segmentStart;
+				while (position < segmentEnd) {
+					const precision = bytes[position] >> 4;
+					const tableId = bytes[position] & 0x0f;
+					quantDc[tableId] = precision
+						? readUint16BE(bytes, position + 1)
+						: bytes[position + 1];
+					position += 1 + (precision ? 128 : 64);
+				}
+				break;
+			}
+			case 0xc4: {
+				let position = segmentStart;
+				while (position + 17 <= segmentEnd) {
+					const tableClass = bytes[position] >> 4;
+					const tableId = bytes[position] & 0x0f;
+					const counts = bytes.subarray(position + 1, position + 17);
+					const total = counts.reduce((sum, count) => sum + count, 0);
+					const table = buildHuffmanTable(
+						counts,
+						bytes.subarray(position + 17, position + 17 + total),
+					);
+					(tableClass === 0 ? dcTables : acTables)[tableId] = table;
+					position += 17 + total;
+				}
+				break;
+			}
+			case 0xc0:
+			case 0xc1:
+			case 0xc2: {
+				const components: JpegComponent[] = [];
+				const count = bytes[segmentStart + 5];
+				for (let i = 0; i < count; i += 1) {
+					const base = segmentStart + 6 + i * 3;
+					components.push({
+						id: bytes[base],
+						h: bytes[base + 1] >> 4,
+						v: bytes[base + 1] & 0x0f,
+						quantTable: bytes[base + 2],
+					});
+				}
+				frame = {
+					progressive: marker === 0xc2,
+					height: readUint16BE(bytes, segmentStart + 1),
+					width: readUint16BE(bytes, segmentStart + 3),
+					components,
+				};
+				break;
+			}
+			case 0xdd:
+				restartInterval = readUint16BE(bytes, segmentStart);
+				break;
+			case 0xda: {
+				if (!frame || (frame.components.length !== 1 && frame.components.length !== 3)) {
+					return null;
+				}
+
+				const scanCount = bytes[segmentStart];
+				const spectralStart = bytes[segmentStart + 1 + scanCount * 2];
+				const spectralEnd = bytes[segmentStart + 2 + scanCount * 2];
+				const approximation = bytes[segmentStart + 3 + scanCount * 2];
+				// Progressive AC and refinement scans add nothing at 1/8 scale, so they are skipped.
+				if (
+					frame.progressive &&
+					(spectralStart !== 0 || spectralEnd !== 0 || approximation >> 4 !== 0)
+				) {
+					offset = findNextMarker(bytes, segmentEnd);
+					continue;
+				}
+
+				const scanComponents: ScanComponent[] = [];
+				for (let i = 0; i < scanCount; i += 1) {
+					const id = bytes[segmentStart + 1 + i * 2];
+					const tables = bytes[segmentStart + 2 + i * 2];
+					const component = frame.components.find((entry) => entry.id === id);
+					const dcTable = dcTables[tables >> 4];
+					const acTable = acTables[tables & 0x0f] ?? null;
+					if (!component || !dcTable || (!frame.progressive && !acTable)) {
+						return null;
+					}
+					scanComponents.push({
+						component,
+						dcTable,
+						acTable,
+						blocksPerLine: 0,
+						blocks: new Float32Array(0),
+						predictor: 0,
+					});
+				}
+
+				decodeDcScan(
+					new BitReader(bytes, segmentEnd),
+					frame,
+					scanComponents,
+					restartInterval,
+					frame.progressive ? approximation & 0x0f : 0,
+				);
+				for (const scan of scanComponents) {
+					decoded.set(scan.component.id, scan);
+				}
+
+				if (decoded.size === frame.components.length) {
+					return buildJpegThumbnail(
+						frame,
+						frame.components.map((component) => decoded.get(component.id)!),
+						quantDc,
+					);
+				}
+
+				offset = findNextMarker(bytes, segmentEnd);
+				continue;
+			}
+			default:
+				// Lossless, hierarchical and arithmetic-coded frames are not supported.
+				if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+					return null;
+				}
+		}
+
+		offset = segmentEnd;
+	}
+
+	return null;
+}
+
+function decodeDcScan(
+	reader: BitReader,
+	frame: JpegFrame,
+	scanComponents: ScanComponent[],
+	restartInterval: number,
+	successiveLow: number,
+): void {
+	const hMax = Math.max(...frame.components.map((entry) => entry.h));
+	const vMax = Math.max(...frame.components.map((entry) => entry.v));
+	const single = scanComponents.length === 1;
+	const mcusPerLine = single
+		? Math.ceil(Math.ceil((frame.width * scanComponents[0].component.h) / hMax) / 8)
+		: Math.ceil(frame.width / (8 * hMax));
+	const mcusPerColumn = single
+		? Math.ceil(Math.ceil((frame.height * scanComponents[0].component.v) / vMax) / 8)
+		: Math.ceil(frame.height / (8 * vMax));
+
+	for (const scan of scanComponents) {
+		const h = single ? 1 : scan.component.h;
+		const v = single ? 1 : scan.component.v;
+		scan.blocksPerLine = mcusPerLine * h;
+		scan.blocks = new Float32Array(mcusPerLine * h * mcusPerColumn * v);
+	}
+
+	const totalMcus = mcusPerLine * mcusPerColumn;
+	for (let mcu = 0; mcu < totalMcus; mcu += 1) {
+		if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+			reader.restart();
+			for (const scan of scanComponents) {
+				scan.predictor = 0;
+			}
+		}
+
+		const mcuX = mcu % mcusPerLine;
+		const mcuY = Math.floor(mcu / mcusPerLine);
+		for (const scan of scanComponents) {
+			const h = single ? 1 : scan.component.h;
+			const v = single ? 1 : scan.component.v;
+			for (let blockY = 0; blockY < v; blockY += 1) {
+				for (let blockX = 0; blockX < h; blockX += 1) {
+					const size = reader.decode(scan.dcTable);
+					scan.predictor += size ? extend(reader.receive(size), size) : 0;
+					if (scan.acTable && !frame.progressive) {
+						skipAcCoefficients(reader, scan.acTable);
+					}
+					const index =
+						(mcuY * v + blockY) * scan.blocksPerLine + mcuX * h + blockX;
+					scan.blocks[index] = scan.predictor * (1 << successiveLow);
+				}
+			}
+		}
+	}
+}
+
+function findNextMarker(bytes: Uint8Array, offset: number): number {
+	for (let position = offset; position + 1 < bytes.length; position += 1) {
+		const next = bytes[position + 1];
+		if (
+			bytes[position] === 0xff &&
+			next !== 0x00 &&
+			next !== 0xff &&
+			(next < 0xd0 || next > 0xd7)
+		) {
+			return position;
+		}
+	}
+	return bytes.length;
+}
+
+function skipAcCoefficients(reader: BitReader, table: HuffmanTable): void {
+	let k = 1;
+	while (k < 64) {
+		const symbol = reader.decode(table);
+		const run = symbol >> 4;
+		const size = symbol & 0x0f;
+		if (size === 0) {
+			if (run !== 15) {
+				return;
+			}
+			k += 16;
+			continue;
+		}
+		reader.receive(size);
+		k += run + 1;
+	}
+}
+
+// Each DC coefficient is eight times the block mean, so one block yields one pixel.
+function buildJpegThumbnail(
+	frame: JpegFrame,
+	components: ComponentBlocks[],
+	quantDc: number[],
+): ImageThumbnail {
+	const hMax = Math.max(...frame.components.map((entry) => entry.h));
+	const vMax = Math.max(...frame.components.map((entry) => entry.v));
+	const [luma, ...chroma] = components;
+	const lumaWidth = Math.ceil(Math.ceil((frame.width * luma.component.h) / hMax) / 8);
+	const lumaHeight = Math.ceil(Math.ceil((frame.height * luma.component.v) / vMax) / 8);
+	const pixels = new Uint8ClampedArray(lumaWidth * lumaHeight * 4);
+	const blockMean = (scan: ComponentBlocks, x: number, y: number): number => {
+		const quant = quantDc[scan.component.quantTable] ?? 1;
+		return (scan.blocks[y * scan.blocksPerLine + x] * quant) / 8 + 128;
+	};
+
+	for (let y = 0; y < lumaHeight; y += 1) {
+		for (let x = 0; x < lumaWidth; x += 1) {
+			const index = (y * lumaWidth + x) * 4;
+			const lumaValue = blockMean(luma, x, y);
+			pixels[index + 3] = 255;
+			if (!chroma.length) {
+				pixels.fill(lumaValue, index, index + 3);
+				continue;
+			}
+
+			const [cb, cr] = chroma.map((scan) =>
+				blockMean(
+					scan,
+					Math.floor((x * scan.component.h) / luma.component.h),
+					Math.floor((y * scan.component.v) / luma.component.v),
+				),
+			);
+			pixels[index] = lumaValue + 1.402 * (cr - 128);
+			pixels[index + 1] = lumaValue - 0.344136 * (cb - 128) - 0.714136 * (cr - 128);
+			pixels[index + 2] = lumaValue + 1.772 * (cb - 128);
+		}
+	}
+
+	return { width: lumaWidth, height: lumaHeight, pixels };
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+	const maxCode = new Int32Array(18).fill(-1);
+	const valPtr = new Int32Array(17);
+	const minCode = new Int32Array(17);
+	let code = 0;
+	let index = 0;
+
+	for (let length = 1; length <= 16; length += 1) {
+		const count = counts[length - 1];
+		valPtr[length] = index;
+		minCode[length] = code;
+		code += count;
+		index += count;
+		if (count) {
+			maxCode[length] = code - 1;
+		}
+		code <<= 1;
+	}
+
+	return { maxCode, valPtr, minCode, values };
+}
+
+function extend(value: number, size: number): number {
+	return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+}
+
+class BitReader {
+	private buffer = 0;
+	private bitsLeft = 0;
+	private exhausted = false;
+
+	constructor(
+		private readonly bytes: Uint8Array,
+		private offset: number,
+	) {}
+
+	decode(table: HuffmanTable): number {
+		let code = this.bit();
+		for (let length = 1; length <= 16; length += 1) {
+			if (code <= table.maxCode[length]) {
+				return table.values[table.valPtr[length] + code - table.minCode[length]] ?? 0;
+			}
+			code = (code << 1) | this.bit();
+		}
+		throw new Error("Invalid Huffman code");
+	}
+
+	receive(size: number): number {
+		let value = 0;
+		for (let i = 0; i < size; i += 1) {
+			value = (value << 1) | this.bit();
+		}
+		return value;
+	}
+
+	// Skips to just past the next RSTn marker and drops any buffered bits.
+	restart(): void {
+		this.bitsLeft = 0;
+		this.exhausted = false;
+		while (this.offset + 1 < this.bytes.length) {
+			const next = this.bytes[this.offset + 1];
+			if (this.bytes[this.offset] === 0xff && next >= 0xd0 && next <= 0xd7) {
+				this.offset += 2;
+				return;
+			}
+			this.offset += 1;
+		}
+	}
+
+	private bit(): number {
+		if (this.bitsLeft === 0) {
+			this.fill();
+		}
+		this.bitsLeft -= 1;
+		return (this.buffer >> this.bitsLeft) & 1;
+	}
+
+	// Byte-stuffed 0xFF00 pairs are data; any other marker ends the entropy-coded segment.
+	private fill(): void {
+		this.bitsLeft = 8;
+		if (this.exhausted || this.offset >= this.bytes.length) {
+			this.buffer = 0;
+			return;
+		}
+
+		const byte = this.bytes[this.offset];
+		if (byte === 0xff) {
+			if (this.bytes[this.offset + 1] !== 0x00) {
+				this.exhausted = true;
+				this.buffer = 0;
+				return;
+			}
+			this.offset += 2;
+		} else {
+			this.offset += 1;
+		}
+		this.buffer = byte;
+	}
+}
+
+async function decodePngThumbnail(bytes: Uint8Array): Promise<ImageThumbnail | null> {
+	if (bytes.length < 33 || readAscii(bytes, 12, 4) !== "IHDR") {
+		return null;
+	}
+
+	const width = readUint32BE(bytes, 16);
+	const height = readUint32BE(bytes, 20);
+	const bitDepth = bytes[24];
+	const colorType = bytes[25];
+	const interlaced = bytes[28] !== 0;
+	const channels = PNG_CHANNELS[colorType];
+	const supportedDepth =
+		colorType === 3 ? [1, 2, 4, 8].includes(bitDepth) : bitDepth === 8 || bitDepth === 16;
+	if (!width || !height || interlaced || !channels || !supportedDepth) {
+		return null;
+	}
+
+	let palette: Uint8Array | null = null;
+	const dataChunks: Uint8Array[] = [];
+	let offset = 8;
+	while (offset + 12 <= bytes.length) {
+		const length = readUint32BE(bytes, offset);
+		const type = readAscii(bytes, offset + 4, 4);
+		const data = bytes.subarray(offset + 8, offset + 8 + length);
+		if (type === "PLTE") {
+			palette = data;
+		} else if (type === "IDAT") {
+			dataChunks.push(data);
+		} else if (type === "IEND") {
+			break;
+		}
+		offset += 12 + length;
+	}
+
+	if (!dataChunks.length || (colorType === 3 && !palette)) {
+		return null;
+	}
+
+	const bitsPerPixel = channels * bitDepth;
+	const filterStride = Math.max(1, Math.ceil(bitsPerPixel / 8));
+	const rowLength = Math.ceil((width * bitsPerPixel) / 8);
+	const stepX = Math.max(1, Math.floor(width / PNG_SAMPLE_GRID));
+	const stepY = Math.max(1, Math.floor(height / PNG_SAMPLE_GRID));
+	const thumbnailWidth = Math.ceil(width / stepX);
+	const thumbnailHeight = Math.ceil(height / stepY);
+	// Each thumbnail cell averages about 4x4 samples spread across it.
+	const sampleStepX = Math.max(1, Math.floor(stepX / 4));
+	const sampleStepY = Math.max(1, Math.floor(stepY / 4));
+	const cellSums = new Float64Array(thumbnailWidth * thumbnailHeight * 5);
+	const sample = new Uint8ClampedArray(4);
+	let previousRow = new Uint8Array(rowLength);
+	let currentRow = new Uint8Array(rowLength);
+	let filterType = -1;
+	let rowFill = 0;
+	let y = 0;
+
+	// Rows are unfiltered as the inflated stream arrives, so only two rows are ever held.
+	const inflated = new Blob(dataChunks)
+		.stream()
+		.pipeThrough(new DecompressionStream("deflate"));
+	const reader = inflated.getReader();
+
+	while (y < height) {
+		const { value, done } = await reader.read();
+		if (done || !value) {
+			break;
+		}
+
+		for (let i = 0; i < value.length && y < height; i += 1) {
+			if (filterType === -1) {
+				filterType = value[i];
+				continue;
+			}
+
+			currentRow[rowFill] = value[i];
+			rowFill += 1;
+			if (rowFill < rowLength) {
+				continue;
+			}
+
+			unfilterPngRow(filterType, currentRow, previousRow, filterStride);
+			if (y % sampleStepY === 0) {
+				const rowOffset = Math.floor(y / stepY) * thumbnailWidth;
+				for (let x = 0; x < width; x += sampleStepX) {
+					readPngPixel(currentRow, x, colorType, bitDepth, palette, sample, 0);
+					// Colours are weighted by alpha so transparent pixels do not darken the cell.
+					const cell = (rowOffset + Math.floor(x / stepX)) * 5;
+					const alpha = sample[3];
+					cellSums[cell] += sample[0] * alpha;
+					cellSums[cell + 1] += sample[1] * alpha;
+					cellSums[cell + 2] += sample[2] * alpha;
+					cellSums[cell + 3] += alpha;
+					cellSums[cell + 4] += 1;
+				}
+			}
+
+			[previousRow, currentRow] = [currentRow, previousRow];
+			filterType = -1;
+			rowFill = 0;
+			y += 1;
+		}
+	}
+
+	await reader.cancel().catch(() => {});
+	if (y === 0) {
+		return null;
+	}
+
+	const pixels = new Uint8ClampedArray(thumbnailWidth * thumbnailHeight * 4);
+	for (let cell = 0; cell < thumbnailWidth * thumbnailHeight; cell += 1) {
+		const alphaSum = cellSums[cell * 5 + 3];
+		const count = cellSums[cell * 5 + 4];
+		if (!alphaSum || !count) {
+			continue;
+		}
+		pixels[cell * 4] = cellSums[cell * 5] / alphaSum;
+		pixels[cell * 4 + 1] = cellSums[cell * 5 + 1] / alphaSum;
+		pixels[cell * 4 + 2] = cellSums[cell * 5 + 2] / alphaSum;
+		pixels[cell * 4 + 3] = alphaSum / count;
+	}
+
+	return { width: thumbnailWidth, height: thumbnailHeight, pixels };
+}
+
+function unfilterPngRow(
+	filterType: number,
+	row: Uint8Array,
+	previous: Uint8Array,
+	stride: number,
+): void {
+	for (let i = 0; i < row.length; i += 1) {
+		const left = i >= stride ? row[i - stride] : 0;
+		const up = previous[i];
+		const upLeft = i >= stride ? previous[i - stride] : 0;
+		switch (filterType) {
+			case 1:
+				row[i] = (row[i] + left) & 0xff;
+				break;
+			case 2:
+				row[i] = (row[i] + up) & 0xff;
+				break;
+			case 3:
+				row[i] = (row[i] + ((left + up) >> 1)) & 0xff;
+				break;
+			case 4: {
+				const estimate = left + up - upLeft;
+				const distanceLeft = Math.abs(estimate - left);
+				const distanceUp = Math.abs(estimate - up);
+				const distanceUpLeft = Math.abs(estimate - upLeft);
+				const predictor =
+					distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft
+						? left
+						: distanceUp <= distanceUpLeft
+							? up
+							: upLeft;
+				row[i] = (row[i] + predictor) & 0xff;
+				break;
+			}
+			default:
+				break;
+		}
+	}
+}
+
+function readPngPixel(
+	row: Uint8Array,
+	x: number,
+	colorType: number,
+	bitDepth: number,
+	palette: Uint8Array | null,
+	target: Uint8ClampedArray,
+	offset: number,
+): void {
+	target[offset + 3] = 255;
+
+	if (colorType === 3) {
+		const bitOffset = x * bitDepth;
+		const index =
+			(row[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) &
+			((1 << bitDepth) - 1);
+		target.set(palette!.subarray(index * 3, index * 3 + 3), offset);
+		return;
+	}
+
+	// 16-bit samples are reduced to their high byte.
+	const sampleBytes = bitDepth / 8;
+	const base = x * PNG_CHANNELS[colorType] * sampleBytes;
+	const sample = (channel: number) => row[base + channel * sampleBytes];
+
+	switch (colorType) {
+		case 0:
+		case 4:
+			target.fill(sample(0), offset, offset + 3);
+			if (colorType === 4) {
+				target[offset + 3] = sample(1);
+			}
+			break;
+		case 2:
+		case 6:
+			target[offset] = sample(0);
+			target[offset + 1] = sample(1);
+			target[offset + 2] = sample(2);
+			if (colorType === 6) {
+				target[offset + 3] = sample(3);
+			}
+			break;
+	}
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+	return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+	return (
+		((bytes[offset] << 24) >>> 0) +
+		(bytes[offset + 1] << 16) +
+		(bytes[offset + 2] << 8) +
+		bytes[offset + 3]
+	);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+	return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
@@ -1,7 +1,14 @@
 import { handleRequest } from "./router";
+import { handleTagCountsRefresh } from "./routes/tags";
+import { handleExpiredUploadsCleanup } from "./routes/uploads";
 
 export default {
 	async fetch(request, env): Promise<Response> {
 		return handleRequest(request, env);
 	},
+
+	async scheduled(_controller, env, ctx): Promise<void> {
+		ctx.waitUntil(handleExpiredUploadsCleanup(env));
+		ctx.waitUntil(handleTagCountsRefresh(env));
+	},
 } satisfies ExportedHandler<Env>;
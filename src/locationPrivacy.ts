@@ -0,0 +1,40 @@
+import type { CatLocation, LocationPrecision } from "./models";
+
+// Grid step for "neighborhood" precision, roughly 500 m of latitude.
+// Must stay in sync with neighborhood_latitude/neighborhood_longitude in sql/cat_geo.sql.
+const NEIGHBORHOOD_GRID_DEG = 0.0045;
+
+export const LOCATION_PRECISIONS = ["exact", "neighborhood", "hidden"] as const;
+
+export function applyLocationPrecision(
+	location: CatLocation,
+	precision: LocationPrecision,
+	isPoster: boolean,
+): CatLocation {
+	if (isPoster || precision === "exact") {
+		return location;
+	}
+
+	if (precision === "hidden") {
+		return { latitude: null, longitude: null };
+	}
+
+	if (location.latitude === null || location.longitude === null) {
+		return location;
+	}
+
+	// Snapping to the centre of a grid cell keeps repeat posts from the same spot
+	// on the same point, so averaging them cannot recover the real position.
+	const latitude =
+		(Math.floor(location.latitude / NEIGHBORHOOD_GRID_DEG) + 0.5) *
+		NEIGHBORHOOD_GRID_DEG;
+	const lonStep =
+		NEIGHBORHOOD_GRID_DEG /
+		Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+	const longitude = Math.min(
+		(Math.floor((location.longitude + 180) / lonStep) + 0.5) * lonStep - 180,
+		180,
+	);
+
+	return { latitude, longitude };
+}
@@ -0,0 +1,132 @@
+import { HttpError } from "./errors";
+import type { MediaVisibility } from "./models";
+
+type EnvWithMediaSigning = Env & {
+	MEDIA_SIGNING_SECRET?: string;
+};
+
+export type SignedMediaVisibility = Exclude<MediaVisibility, "public">;
+
+export type MediaSignature = {
+	expires: number;
+	signature: string;
+};
+
+export type MediaSignatureCheck =
+	| { status: "valid"; expires: number }
+	| { status: "missing" | "expired" | "invalid" };
+
+export const MEDIA_EXPIRES_PARAM = "expires";
+export const MEDIA_SIGNATURE_PARAM = "signature";
+// Objects whose R2 custom metadata sets this to a non-public level are only served with a valid signature.
+export const MEDIA_VISIBILITY_METADATA_KEY = "visibility";
+
+const MEDIA_URL_TTL_SECONDS: Record<SignedMediaVisibility, number> = {
+	followers: 6 * 60 * 60,
+	private: 60 * 60,
+};
+
+/**
+ * Signs a media key for a non-public visibility level. The expiry is rounded
+ * up to a quarter of the level's lifetime so that repeated responses hand out
+ * the same URL and clients can keep their cached copy.
+ */
+export async function signMediaKey(
+	key: string,
+	visibility: SignedMediaVisibility,
+	env: Env,
+	now = Date.now(),
+): Promise<MediaSignature> {
+	const ttl = MEDIA_URL_TTL_SECONDS[visibility];
+	const step = ttl / 4;
+	const expires = Math.ceil((Math.floor(now / 1000) + ttl) / step) * step;
+	const mac = await computeSignature(env, key, expires);
+	return { expires, signature: base64UrlEncode(mac) };
+}
+
+export async function verifyMediaSignature(
+	key: string,
+	params: URLSearchParams,
+	env: Env,
+	now = Date.now(),
+): Promise<MediaSignatureCheck> {
+	const rawExpires = params.get(MEDIA_EXPIRES_PARAM);
+	const signature = params.get(MEDIA_SIGNATURE_PARAM);
+	if (rawExpires === null && signature === null) {
+		return { status: "missing" };
+	}
+
+	const provided = signature ? base64UrlDecode(signature) : null;
+	if (!rawExpires || !provided || !/^\d{1,12}$/.test(rawExpires)) {
+		return { status: "invalid" };
+	}
+
+	// The expiry is checked only after the signature, so a tampered expiry reads as invalid.
+	const expires = Number(rawExpires);
+	const expected = await computeSignature(env, key, expires);
+	if (
+		provided.byteLength !== expected.byteLength ||
+		!crypto.subtle.timingSafeEqual(provided, expected)
+	) {
+		return { status: "invalid" };
+	}
+
+	if (expires <= Math.floor(now / 1000)) {
+		return { status: "expired" };
+	}
+
+	return { status: "valid", expires };
+}
+
+async function computeSignature(
+	env: Env,
+	key: string,
+	expires: number,
+): Promise<Uint8Array> {
+	const secret = (env as EnvWithMediaSigning).MEDIA_SIGNING_SECRET;
+	if (!secret) {
+		throw new HttpError("Media signing is not configured", 503);
+	}
+
+	const encoder = new TextEncoder();
+	const hmacKey = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const mac = await crypto.subtle.sign(
+		"HMAC",
+		hmacKey,
+		encoder.encode(`${key}\n${expires}`),
+	);
+	return new Uint8Array(mac);
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(encoded: string): Uint8Array | null {
+	if (!/^[A-Za-z0-9_-]+$/.test(encoded)) {
+		return null;
+	}
+
+	let binary: string;
+	try {
+		binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+	} catch {
+		return null;
+	}
+
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i += 1) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
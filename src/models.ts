@@ -10,15 +10,45 @@ export type ApiFailure<T extends object = {}> = T & {
 
 export type ApiResponse<T extends object = {}> = ApiSuccess<T> | ApiFailure<T>;
 
+export type LocationPrecision = "exact" | "neighborhood" | "hidden";
+
+export type LikesVisibility = "public" | "hidden";
+
+// Ordered from least to most privileged; each role can do what the ones before it can.
+export type UserRole = "user" | "moderator" | "admin";
+
+// "heart" is the original like and is still what `likes` and `user_liked` report.
+export type CatReaction = "heart" | "cute" | "funny" | "chonk";
+
+export type CatReactionCounts = Record<CatReaction, number>;
+
+// Lost and found posts move from "open" to "reunited"; sightings have no status.
+export type CatPostType = "sighting" | "lost" | "found";
+
+export type CatPostStatus = "open" | "reunited";
+
+export type LostCatDetails = {
+	reward: string | null;
+	contact: string | null;
+	alert_radius_m: number;
+};
+
+// Who may load an image. Anything other than "public" is served through expiring signed URLs.
+export type MediaVisibility = "public" | "followers" | "private";
+
 export type UserProfile = {
 	username: string;
 	bio: string | null;
 	location: string | null;
 	email: string;
 	avatar_url: string | null;
+	avatar: ImageInfo | null;
 	post_count: number;
 	follower_count: number;
 	following_count: number;
+	location_precision: LocationPrecision;
+	likes_visibility: LikesVisibility;
+	role: UserRole;
 };
 
 export type GuestUser = {
@@ -26,6 +56,7 @@ export type GuestUser = {
 	bio: string | null;
 	location: string | null;
 	avatar_url: string | null;
+	avatar: ImageInfo | null;
 	post_count: number;
 	follower_count: number;
 	following_count: number;
@@ -36,6 +67,10 @@ export type GuestUser = {
 
 export type BodyFields = Record<string, string>;
 
+export type BodyArrayFields = Record<string, string[]>;
+
+export type BodyFileFields = Record<string, File[]>;
+
 export type CatLocation = {
 	latitude: number | null;
 	longitude: number | null;
@@ -46,12 +81,41 @@ export type Cat = {
 	name: string;
 	tags: string[];
 	created_at: string;
+	edited_at: string | null;
+	spotted_at: string | null;
 	description: string | null;
 	location: CatLocation;
 	image_url: string;
+	image: ImageInfo;
+	images: ImageInfo[];
 	likes: number;
+	reactions: CatReactionCounts;
 	poster: GuestUser;
 	user_liked: boolean;
+	user_reactions: CatReaction[];
+	identity: CatIdentitySummary | null;
+	post_type: CatPostType;
+	post_status: CatPostStatus | null;
+	reunited_at: string | null;
+	// Only set on lost posts.
+	lost: LostCatDetails | null;
+};
+
+// `placeholder` is the image's dominant colour (`#rrggbb`), shown while the image loads.
+export type ImageInfo = {
+	url: string;
+	width: number | null;
+	height: number | null;
+	placeholder: string | null;
+};
+
+export type CatImageRecord = {
+	cat_id: string;
+	position: number;
+	r2_path: string;
+	width: number | null;
+	height: number | null;
+	placeholder: string | null;
 };
 
 export type CatRecord = {
@@ -64,24 +128,171 @@ export type CatRecord = {
 	location_latitude: number | null;
 	location_longitude: number | null;
 	r2_path: string;
+	image_width: number | null;
+	image_height: number | null;
+	image_placeholder: string | null;
 	likes: number | null;
+	// Counts of every reaction except hearts, which stay in `likes`.
+	reaction_counts: Partial<Record<CatReaction, number>> | null;
+	edited_at: string | null;
+	spotted_at: string | null;
+	identity_id: string | null;
+	post_type: CatPostType | null;
+	post_status: CatPostStatus | null;
+	reunited_at: string | null;
+	reward: string | null;
+	contact: string | null;
+	alert_radius_m: number | null;
+	// Set while the cat is hidden by moderation.
+	hidden_at: string | null;
+};
+
+export type CatIdentitySummary = {
+	id: string;
+	name: string;
+	photo_url: string | null;
+	sighting_count: number;
+};
+
+export type CatIdentity = CatIdentitySummary & {
+	description: string | null;
+	created_by: GuestUser;
+	created_at: string;
+};
+
+export type CatIdentityRow = {
+	id: string;
+	name: string;
+	description: string | null;
+	photo_cat_id: string | null;
+	created_by: string;
+	sighting_count: number | string | null;
+	created_at: string;
+};
+
+export type CatTrailPoint = {
+	cat_id: string;
+	latitude: number;
+	longitude: number;
+	spotted_at: string;
+};
+
+export type CatIdentityPayload = {
+	identity: CatIdentity;
+};
+
+export type CatIdentityTimelinePayload = {
+	identity: CatIdentity;
+	sightings: Cat[];
+	trail: CatTrailPoint[];
+	next_cursor: string | null;
+};
+
+export type CatIdentityCountPayload = {
+	identity_id: string;
+	sighting_count: number;
+};
+
+export type CatRevision = {
+	revision_id: string;
+	name: string;
+	tags: string[];
+	description: string | null;
+	location: CatLocation;
+	edited_at: string;
 };
 
 export type CatResponsePayload = {
 	cat: Cat;
 };
 
+export type PhotoMetadata = {
+	captured_at: string | null;
+	location: CatLocation;
+};
+
+export type DuplicatePhotoPolicy = "reject" | "warn" | "off";
+
+// A post by another user whose photo looks like one being uploaded.
+export type DuplicateMatch = {
+	cat_id: string;
+	hash_distance: number;
+};
+
+export type CatCreatePayload = CatResponsePayload & {
+	photo_metadata: PhotoMetadata | null;
+	possible_duplicates: DuplicateMatch[];
+};
+
+export type CatDetailPayload = CatResponsePayload & {
+	revisions: CatRevision[];
+};
+
 export type CatListPayload = {
 	cats: Cat[];
 	next_cursor: string | null;
 };
 
+export type NearbyCat = Cat & {
+	distance_m: number;
+};
+
+export type NearbyCatListPayload = {
+	cats: NearbyCat[];
+	next_cursor: string | null;
+};
+
+export type SimilarCat = Cat & {
+	hash_distance: number;
+};
+
+export type SimilarCatListPayload = {
+	cats: SimilarCat[];
+};
+
+export type MapCoordinate = {
+	latitude: number;
+	longitude: number;
+};
+
+export type MapBoundingBox = {
+	min_latitude: number;
+	min_longitude: number;
+	max_latitude: number;
+	max_longitude: number;
+};
+
+export type CatMapCluster = {
+	geohash: string;
+	count: number;
+	centroid: MapCoordinate;
+	sample_cat_ids: string[];
+};
+
+export type CatMapSummary = Pick<
+	Cat,
+	"id" | "name" | "created_at" | "location" | "image_url" | "likes"
+>;
+
+export type CatMapPayload = {
+	zoom: number;
+	clusters: CatMapCluster[];
+	cats: CatMapSummary[];
+};
+
 export type CatLikePayload = {
 	cat_id: string;
 	likes: number;
 	liked: boolean;
 };
 
+export type CatReactionPayload = {
+	cat_id: string;
+	reaction: CatReaction;
+	reactions: CatReactionCounts;
+	reacted: boolean;
+};
+
 export type Comment = {
 	comment_id: string;
 	cat_id: string;
@@ -100,8 +311,65 @@ export type CommentListPayload = {
 	next_page: number | null;
 };
 
+export type PendingUploadStatus = "pending" | "uploaded";
+
+export type PendingUploadRecord = {
+	id: string;
+	username: string;
+	r2_key: string;
+	status: PendingUploadStatus;
+	byte_length: number | null;
+	content_type: string | null;
+	created_at: string;
+	expires_at: string;
+};
+
+export type UploadInitPayload = {
+	upload_id: string;
+	upload_url: string;
+	max_bytes: number;
+	expires_at: string;
+};
+
+export type UploadStatusPayload = {
+	upload_id: string;
+	status: PendingUploadStatus;
+	byte_length: number;
+};
+
+export type ImageBackfillTarget = "cats" | "avatars" | "hashes";
+
+export type ImageBackfillPayload = {
+	target: ImageBackfillTarget;
+	processed: number;
+	updated_images: number;
+	next_cursor: string | null;
+};
+
 export type TagSearchMode = "any" | "all";
 
+export type TagCount = {
+	tag: string;
+	post_count: number;
+};
+
+export type TrendingWindow = "24h" | "7d";
+
+export type TagAlias = {
+	alias: string;
+	canonical_tag: string;
+	created_at: string;
+};
+
+export type TagSuggestPayload = {
+	tags: TagCount[];
+};
+
+export type TrendingTagsPayload = {
+	window: TrendingWindow;
+	tags: TagCount[];
+};
+
 export type FollowRecord = {
 	follower_username: string;
 	followee_username: string;
@@ -113,6 +381,16 @@ export type FollowEdge = {
 	followed_at: string;
 };
 
+export type LikeEdge = {
+	user: GuestUser;
+	liked_at: string;
+};
+
+export type LikeListPayload = {
+	likers: LikeEdge[];
+	next_cursor: string | null;
+};
+
 export type CollectionRow = {
 	id: string;
 	owner_username: string;
@@ -155,3 +433,109 @@ export type CollectionCountPayload = {
 };
 
 
+
+export type ReportTargetType = "cat" | "comment" | "user";
+
+export type ReportReason =
+	| "spam"
+	| "harassment"
+	| "hate_speech"
+	| "explicit_content"
+	| "animal_cruelty"
+	| "not_a_cat"
+	| "other";
+
+export type ModerationCaseStatus = "open" | "claimed" | "resolved" | "dismissed";
+
+// `target_id` is the cat or comment UUID, or the username for profiles.
+export type Report = {
+	id: string;
+	target_type: ReportTargetType;
+	target_id: string;
+	reason: ReportReason;
+	details: string | null;
+	created_at: string;
+};
+
+export type ModerationReport = Report & {
+	reporter_username: string;
+};
+
+export type ModerationCaseRecord = {
+	id: string;
+	target_type: ReportTargetType;
+	target_id: string;
+	status: ModerationCaseStatus;
+	report_count: number;
+	auto_hidden: boolean;
+	claimed_by: string | null;
+	claimed_at: string | null;
+	closed_by: string | null;
+	closed_at: string | null;
+	resolution_note: string | null;
+	created_at: string;
+	updated_at: string;
+};
+
+export type ModerationCase = ModerationCaseRecord & {
+	reason_counts: Partial<Record<ReportReason, number>>;
+	reports: ModerationReport[];
+};
+
+export type ReportCreatePayload = {
+	report: Report;
+};
+
+export type ModerationQueuePayload = {
+	cases: ModerationCase[];
+	next_cursor: string | null;
+};
+
+export type ModerationCasePayload = {
+	case: ModerationCaseRecord;
+};
+
+export type ModeratedCatPayload = {
+	cat_id: string;
+	hidden_at: string | null;
+};
+
+export type ModeratedUser = {
+	username: string;
+	role: UserRole;
+	suspended_at: string | null;
+	suspension_reason: string | null;
+};
+
+export type ModeratedUserPayload = {
+	user: ModeratedUser;
+};
+
+export type ShareTargetType = "cat" | "collection";
+
+// What share pages and oEmbed responses show for a cat or collection.
+export type ShareCard = {
+	type: ShareTargetType;
+	id: string;
+	title: string;
+	description: string;
+	author_name: string;
+	image: ImageInfo | null;
+};
+
+// oEmbed 1.0 response (https://oembed.com); cats with known dimensions are photos.
+export type OEmbedPayload = {
+	version: "1.0";
+	type: "photo" | "link";
+	title: string;
+	author_name: string;
+	provider_name: string;
+	provider_url: string;
+	cache_age: number;
+	url?: string;
+	width?: number;
+	height?: number;
+	thumbnail_url?: string;
+	thumbnail_width?: number;
+	thumbnail_height?: number;
+};
@@ -0,0 +1,70 @@
+import type { ImageThumbnail } from "./imageThumbnail";
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Computes a 64-bit difference hash (dHash): the image is reduced to a 9x8
+ * greyscale grid and each bit records whether a cell is darker than its right
+ * neighbour. Re-encoded, resized or lightly cropped copies differ by only a few
+ * bits. Returned as a signed decimal string so it survives JSON and maps onto
+ * a Postgres bigint.
+ */
+export function computePerceptualHash(thumbnail: ImageThumbnail | null): string | null {
+	if (!thumbnail || !thumbnail.width || !thumbnail.height) {
+		return null;
+	}
+
+	const grid = reduceToGrayGrid(thumbnail);
+	let hash = 0n;
+	for (let y = 0; y < HASH_HEIGHT; y += 1) {
+		for (let x = 0; x < HASH_WIDTH - 1; x += 1) {
+			const left = grid[y * HASH_WIDTH + x];
+			const right = grid[y * HASH_WIDTH + x + 1];
+			hash = (hash << 1n) | (left < right ? 1n : 0n);
+		}
+	}
+
+	return BigInt.asIntN(64, hash).toString();
+}
+
+/**
+ * SHA-256 of the stored image bytes, as hex. Formats without a perceptual hash
+ * (WebP cannot be decoded yet) are only matched against byte-identical copies.
+ */
+export async function computeContentHash(bytes: BufferSource): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", bytes);
+	return Array.from(new Uint8Array(digest), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+// Area-averages the thumbnail into the hash grid; transparent pixels are composited onto white.
+function reduceToGrayGrid(thumbnail: ImageThumbnail): Float64Array {
+	const { width, height, pixels } = thumbnail;
+	const grid = new Float64Array(HASH_WIDTH * HASH_HEIGHT);
+
+	for (let cellY = 0; cellY < HASH_HEIGHT; cellY += 1) {
+		const startY = Math.floor((cellY * height) / HASH_HEIGHT);
+		const endY = Math.max(startY + 1, Math.floor(((cellY + 1) * height) / HASH_HEIGHT));
+		for (let cellX = 0; cellX < HASH_WIDTH; cellX += 1) {
+			const startX = Math.floor((cellX * width) / HASH_WIDTH);
+			const endX = Math.max(startX + 1, Math.floor(((cellX + 1) * width) / HASH_WIDTH));
+			let total = 0;
+			let count = 0;
+			for (let y = startY; y < endY; y += 1) {
+				for (let x = startX; x < endX; x += 1) {
+					const offset = (y * width + x) * 4;
+					const alpha = pixels[offset + 3] / 255;
+					const gray =
+						0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2];
+					total += gray * alpha + 255 * (1 - alpha);
+					count += 1;
+				}
+			}
+			grid[cellY * HASH_WIDTH + cellX] = total / count;
+		}
+	}
+
+	return grid;
+}
@@ -1,8 +1,19 @@
+import {
+	MEDIA_EXPIRES_PARAM,
+	MEDIA_SIGNATURE_PARAM,
+	signMediaKey,
+	type SignedMediaVisibility,
+} from "./mediaSignature";
+import type { ImageInfo, MediaVisibility } from "./models";
+
 type EnvWithPublicBase = Env & {
 	R2_PUBLIC_BASE_URL?: string;
 	CDN_BASE_URL?: string;
+	MEDIA_BASE_URL?: string;
 };
 
+export const MEDIA_ROUTE_PREFIX = "/media/";
+
 function normalizeBaseUrl(env: EnvWithPublicBase): string {
 	const base = env.R2_PUBLIC_BASE_URL ?? env.CDN_BASE_URL ?? "";
 	if (!base) {
@@ -15,24 +26,107 @@ function normalizePath(path: string): string {
 	return path.startsWith("/") ? path.slice(1) : path;
 }
 
-export function buildPublicR2Url(r2Path: string, env: Env): string {
+/**
+ * Builds the URL clients load an object from. Without a visibility level the
+ * object is public and the URL is returned as is. With one, non-public objects
+ * always go through the worker's media route with an expiring signature,
+ * because a public bucket or CDN cannot check one; signing goes through
+ * `crypto.subtle`, so that form resolves asynchronously.
+ */
+export function buildPublicR2Url(r2Path: string, env: Env): string;
+export function buildPublicR2Url(
+	r2Path: string,
+	env: Env,
+	visibility: MediaVisibility,
+): Promise<string>;
+export function buildPublicR2Url(
+	r2Path: string,
+	env: Env,
+	visibility?: MediaVisibility,
+): string | Promise<string> {
 	const envWithBase = env as EnvWithPublicBase;
-	const base = normalizeBaseUrl(envWithBase);
-	if (!base) {
-		return r2Path;
+	if (visibility === undefined) {
+		const base = normalizeBaseUrl(envWithBase);
+		if (!base) {
+			return buildMediaRouteUrl(r2Path, envWithBase);
+		}
+
+		return `${base}/${normalizePath(r2Path)}`;
 	}
 
-	return `${base}/${normalizePath(r2Path)}`;
+	if (visibility === "public") {
+		return Promise.resolve(buildPublicR2Url(r2Path, env));
+	}
+
+	return buildSignedMediaRouteUrl(normalizePath(r2Path), visibility, envWithBase);
+}
+
+async function buildSignedMediaRouteUrl(
+	key: string,
+	visibility: SignedMediaVisibility,
+	env: EnvWithPublicBase,
+): Promise<string> {
+	const { expires, signature } = await signMediaKey(key, visibility, env);
+	const query = new URLSearchParams({
+		[MEDIA_EXPIRES_PARAM]: String(expires),
+		[MEDIA_SIGNATURE_PARAM]: signature,
+	});
+	return `${buildMediaRouteUrl(key, env)}?${query}`;
+}
+
+/**
+ * Without a public bucket or CDN, objects are served by the worker's own
+ * `GET /media/{key}` route. MEDIA_BASE_URL is the worker's public origin; when
+ * it is unset the URL is relative to the API origin.
+ */
+function buildMediaRouteUrl(r2Path: string, env: EnvWithPublicBase): string {
+	const origin = env.MEDIA_BASE_URL?.replace(/\/+$/, "") ?? "";
+	const encodedKey = normalizePath(r2Path)
+		.split("/")
+		.map((segment) => encodeURIComponent(segment))
+		.join("/");
+	return `${origin}${MEDIA_ROUTE_PREFIX}${encodedKey}`;
 }
 
 export function buildOptionalPublicR2Url(
 	r2Path: string | null | undefined,
 	env: Env,
-): string | null {
-	if (!r2Path) {
-		return null;
+): string | null;
+export function buildOptionalPublicR2Url(
+	r2Path: string | null | undefined,
+	env: Env,
+	visibility: MediaVisibility,
+): Promise<string | null>;
+export function buildOptionalPublicR2Url(
+	r2Path: string | null | undefined,
+	env: Env,
+	visibility?: MediaVisibility,
+): string | null | Promise<string | null> {
+	if (visibility === undefined) {
+		return r2Path ? buildPublicR2Url(r2Path, env) : null;
 	}
-	return buildPublicR2Url(r2Path, env);
+
+	return r2Path ? buildPublicR2Url(r2Path, env, visibility) : Promise.resolve(null);
 }
 
+export type AvatarColumns = {
+	r2_avatar: string | null;
+	avatar_width?: number | null;
+	avatar_height?: number | null;
+	avatar_placeholder?: string | null;
+};
+
+export const AVATAR_COLUMNS = "r2_avatar,avatar_width,avatar_height,avatar_placeholder";
+
+export function buildAvatarImage(record: AvatarColumns, env: Env): ImageInfo | null {
+	if (!record.r2_avatar) {
+		return null;
+	}
 
+	return {
+		url: buildPublicR2Url(record.r2_avatar, env),
+		width: record.avatar_width ?? null,
+		height: record.avatar_height ?? null,
+		placeholder: record.avatar_placeholder ?? null,
+	};
+}
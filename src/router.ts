@@ -13,13 +13,21 @@ import {
 	handleListFollowingRequest,
 } from "./routes/followRoutes";
 import {
+	handleCatMapRequest,
 	handleCatsRequest,
 	handleCreateCatRequest,
+	handleDeleteCatRequest,
 	handleGetCatRequest,
 	handleLikeCatRequest,
+	handleReactToCatRequest,
+	handleRemoveCatReactionRequest,
 	handleRemoveLikeCatRequest,
 	handleListCatsRequest,
+	handleListDuplicateCatsRequest,
+	handleNearbyCatsRequest,
 	handleSearchCatsByTagsRequest,
+	handleSearchCatsRequest,
+	handleUpdateCatRequest,
 } from "./routes/cats";
 import {
 	handleAddCatToCollectionRequest,
@@ -30,11 +38,65 @@ import {
 	handleRemoveCatFromCollectionRequest,
 	handleUpdateCollectionRequest,
 } from "./routes/collections";
+import {
+	handleBackfillTagAliasesRequest,
+	handleDeleteTagAliasRequest,
+	handleListTagAliasesRequest,
+	handleSetTagAliasRequest,
+	handleSuggestTagsRequest,
+	handleTrendingTagsRequest,
+} from "./routes/tags";
+import {
+	handleInitUploadRequest,
+	handlePutUploadRequest,
+} from "./routes/uploads";
+import { handleBackfillImagesRequest } from "./routes/images";
+import { handleGetMediaRequest } from "./routes/media";
+import {
+	handleLostCatMatchesRequest,
+	handleLostCatsNearbyRequest,
+	handleReuniteCatRequest,
+} from "./routes/lostCats";
+import {
+	handleListCatLikersRequest,
+	handleListUserLikesRequest,
+} from "./routes/likes";
+import { MEDIA_ROUTE_PREFIX } from "./r2";
+import {
+	SHARE_PATH_PREFIXES,
+	handleOEmbedRequest,
+	handleShareCatRequest,
+	handleShareCollectionRequest,
+} from "./routes/share";
+import {
+	handleCreateCatIdentityRequest,
+	handleGetCatIdentityRequest,
+	handleLinkCatIdentityRequest,
+	handleUnlinkCatIdentityRequest,
+} from "./routes/identities";
+import {
+	handleExploreFeedRequest,
+	handleFollowingFeedRequest,
+} from "./routes/feed";
 import {
 	handleAddCommentRequest,
 	handleDeleteCommentRequest,
 	handleListCommentsRequest,
 } from "./routes/comments";
+import {
+	handleClaimModerationCaseRequest,
+	handleCreateReportRequest,
+	handleDismissModerationCaseRequest,
+	handleForceLogoutRequest,
+	handleHideCatRequest,
+	handleModerationQueueRequest,
+	handleModeratorDeleteCommentRequest,
+	handleResolveModerationCaseRequest,
+	handleRestoreCatRequest,
+	handleSetUserRoleRequest,
+	handleSuspendUserRequest,
+	handleUnsuspendUserRequest,
+} from "./routes/moderation";
 
 export async function handleRequest(
 	request: Request,
@@ -83,11 +145,23 @@ export async function handleRequest(
 		return handleListFollowingRequest(request, env);
 	}
 
+	if (url.pathname === "/users/likes" && request.method === "GET") {
+		return handleListUserLikesRequest(request, env);
+	}
+
 	// Cats routes
 	if (url.pathname === "/cats/post" && request.method === "POST") {
 		return handleCreateCatRequest(request, env);
 	}
 
+	if (url.pathname === "/cats/update" && request.method === "POST") {
+		return handleUpdateCatRequest(request, env);
+	}
+
+	if (url.pathname === "/cats/delete" && request.method === "POST") {
+		return handleDeleteCatRequest(request, env);
+	}
+
 	if (url.pathname === "/cats/list" && request.method === "GET") {
 		return handleListCatsRequest(request, env);
 	}
@@ -96,6 +170,34 @@ export async function handleRequest(
 		return handleGetCatRequest(request, env);
 	}
 
+	if (url.pathname === "/cats/duplicates" && request.method === "GET") {
+		return handleListDuplicateCatsRequest(request, env);
+	}
+
+	if (url.pathname === "/cats/nearby" && request.method === "GET") {
+		return handleNearbyCatsRequest(request, env);
+	}
+
+	if (url.pathname === "/cats/lost/nearby" && request.method === "GET") {
+		return handleLostCatsNearbyRequest(request, env);
+	}
+
+	if (url.pathname === "/cats/lost/matches" && request.method === "GET") {
+		return handleLostCatMatchesRequest(request, env);
+	}
+
+	if (url.pathname === "/cats/reunite" && request.method === "POST") {
+		return handleReuniteCatRequest(request, env);
+	}
+
+	if (url.pathname === "/cats/map" && request.method === "GET") {
+		return handleCatMapRequest(request, env);
+	}
+
+	if (url.pathname === "/cats/search" && request.method === "GET") {
+		return handleSearchCatsRequest(request, env);
+	}
+
 	if (url.pathname === "/cats/search/tags" && request.method === "GET") {
 		return handleSearchCatsByTagsRequest(request, env);
 	}
@@ -108,6 +210,18 @@ export async function handleRequest(
 		return handleRemoveLikeCatRequest(request, env);
 	}
 
+	if (url.pathname === "/cats/react" && request.method === "POST") {
+		return handleReactToCatRequest(request, env);
+	}
+
+	if (url.pathname === "/cats/removeReaction" && request.method === "POST") {
+		return handleRemoveCatReactionRequest(request, env);
+	}
+
+	if (url.pathname === "/cats/likes/list" && request.method === "GET") {
+		return handleListCatLikersRequest(request, env);
+	}
+
 	if (url.pathname === "/cats/comments/add" && request.method === "POST") {
 		return handleAddCommentRequest(request, env);
 	}
@@ -124,6 +238,141 @@ export async function handleRequest(
 		return handleCatsRequest(request, env);
 	}
 
+	// Upload routes
+	if (url.pathname === "/uploads/init" && request.method === "POST") {
+		return handleInitUploadRequest(request, env);
+	}
+
+	if (url.pathname.startsWith("/uploads/") && request.method === "PUT") {
+		return handlePutUploadRequest(request, env);
+	}
+
+	// Media routes
+	if (
+		url.pathname.startsWith(MEDIA_ROUTE_PREFIX) &&
+		(request.method === "GET" || request.method === "HEAD")
+	) {
+		return handleGetMediaRequest(request, env);
+	}
+
+	// Share routes
+	if (url.pathname.startsWith(SHARE_PATH_PREFIXES.cat) && request.method === "GET") {
+		return handleShareCatRequest(request, env);
+	}
+
+	if (url.pathname.startsWith(SHARE_PATH_PREFIXES.collection) && request.method === "GET") {
+		return handleShareCollectionRequest(request, env);
+	}
+
+	if (url.pathname === "/oembed" && request.method === "GET") {
+		return handleOEmbedRequest(request, env);
+	}
+
+	// Cat identity routes
+	if (url.pathname === "/identities/create" && request.method === "POST") {
+		return handleCreateCatIdentityRequest(request, env);
+	}
+
+	if (url.pathname === "/identities/get" && request.method === "GET") {
+		return handleGetCatIdentityRequest(request, env);
+	}
+
+	if (url.pathname === "/identities/link" && request.method === "POST") {
+		return handleLinkCatIdentityRequest(request, env);
+	}
+
+	if (url.pathname === "/identities/unlink" && request.method === "POST") {
+		return handleUnlinkCatIdentityRequest(request, env);
+	}
+
+	// Feed routes
+	if (url.pathname === "/feed/following" && request.method === "GET") {
+		return handleFollowingFeedRequest(request, env);
+	}
+
+	if (url.pathname === "/feed/explore" && request.method === "GET") {
+		return handleExploreFeedRequest(request, env);
+	}
+
+	// Tag routes
+	if (url.pathname === "/tags/suggest" && request.method === "GET") {
+		return handleSuggestTagsRequest(request, env);
+	}
+
+	if (url.pathname === "/tags/trending" && request.method === "GET") {
+		return handleTrendingTagsRequest(request, env);
+	}
+
+	// Report routes
+	if (url.pathname === "/reports/create" && request.method === "POST") {
+		return handleCreateReportRequest(request, env);
+	}
+
+	// Admin routes
+	if (url.pathname === "/admin/tags/aliases" && request.method === "GET") {
+		return handleListTagAliasesRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/tags/aliases/set" && request.method === "POST") {
+		return handleSetTagAliasRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/tags/aliases/delete" && request.method === "POST") {
+		return handleDeleteTagAliasRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/tags/aliases/backfill" && request.method === "POST") {
+		return handleBackfillTagAliasesRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/images/backfill" && request.method === "POST") {
+		return handleBackfillImagesRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/moderation/queue" && request.method === "GET") {
+		return handleModerationQueueRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/moderation/claim" && request.method === "POST") {
+		return handleClaimModerationCaseRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/moderation/resolve" && request.method === "POST") {
+		return handleResolveModerationCaseRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/moderation/dismiss" && request.method === "POST") {
+		return handleDismissModerationCaseRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/cats/hide" && request.method === "POST") {
+		return handleHideCatRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/cats/restore" && request.method === "POST") {
+		return handleRestoreCatRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/comments/delete" && request.method === "POST") {
+		return handleModeratorDeleteCommentRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/users/suspend" && request.method === "POST") {
+		return handleSuspendUserRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/users/unsuspend" && request.method === "POST") {
+		return handleUnsuspendUserRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/users/logout" && request.method === "POST") {
+		return handleForceLogoutRequest(request, env);
+	}
+
+	if (url.pathname === "/admin/users/setRole" && request.method === "POST") {
+		return handleSetUserRoleRequest(request, env);
+	}
+
 	// Collection routes
 	if (url.pathname === "/collections/create" && request.method === "POST") {
 		return handleCreateCollectionRequest(request, env);
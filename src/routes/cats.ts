@@ -1,30 +1,73 @@
-import { AuthError, HttpError } from "../errors";
-import type { Cat, CatRecord, CatListPayload, CatResponsePayload, CatLikePayload } from "../models";
+import { buildCursorClause, decodeCursor, encodeCursor } from "../cursors";
+import { AuthError, HttpError, SuspendedError } from "../errors";
+import { computeImagePlaceholder } from "../imagePlaceholder";
+import { decodeImageThumbnail } from "../imageThumbnail";
+import { computeContentHash, computePerceptualHash } from "../perceptualHash";
+import type {
+	Cat,
+	CatRecord,
+	CatListPayload,
+	CatCreatePayload,
+	CatResponsePayload,
+	PhotoMetadata,
+	CatDetailPayload,
+	CatLikePayload,
+	CatReaction,
+	CatReactionPayload,
+	CatMapPayload,
+	NearbyCatListPayload,
+	SimilarCatListPayload,
+	UserRole,
+} from "../models";
 import { ok, fail, handleRouteError } from "../responses";
 import { getSupabaseClient, type SupabaseClientType } from "../supabaseClient";
-import { CatLikeService } from "../services/catLikeService";
+import { CatReactionService } from "../services/catReactionService";
+import { CatRevisionService } from "../services/catRevisionService";
+import { TagAliasService } from "../services/tagAliasService";
+import { CatGeoService, decodeNearbyCursor } from "../services/catGeoService";
+import { CatSearchService, decodeSearchCursor } from "../services/catSearchService";
 import { UserService } from "../services/userService";
 import { UserMetricsService } from "../services/userMetricsService";
-import { mapCatRecordsWithMetadata } from "../services/catMappingService";
+import { UploadService } from "../services/uploadService";
+import { DuplicatePhotoService } from "../services/duplicatePhotoService";
 import {
+	fetchCatImages,
+	fetchLocationPrecisions,
+	mapCatRecordsWithMetadata,
+} from "../services/catMappingService";
+import {
+	CAT_IMAGES_MAX,
+	CAT_IMAGES_TOTAL_MAX_BYTES,
+	LOST_ALERT_RADIUS_DEFAULT_M,
+	LOST_CONTACT_MAX_LENGTH,
+	LOST_REWARD_MAX_LENGTH,
+	NEARBY_RADIUS_MAX_M,
 	parseBase64Image,
 	parseBodyFields,
+	parseBodyFieldsWithArrays,
+	parseBoundingBox,
+	parseCatPostType,
+	parseCatReaction,
 	parseCatTags,
 	parseCoordinate,
 	parseLimitParam,
+	parseOptionalText,
+	parseRadiusParam,
+	parseDeclaredImageType,
+	parseImageBytes,
+	parseSearchQuery,
+	parseSpottedAt,
+	parseZoomParam,
 	validateCatDescription,
 	validateCatName,
 	validateSessionToken,
 	validateTagSearchMode,
+	validateUserRole,
 	validateUsername,
 	isValidUuid,
+	type ParsedImage,
 } from "../validation";
 
-type CursorPayload = {
-	created_at: string;
-	id: string;
-};
-
 export function handleCatsRequest(request: Request, env: Env): Promise<Response> {
 	// Backwards compatibility for the older /cats endpoint by delegating to the list handler.
 	return handleListCatsRequest(request, env);
@@ -35,7 +78,8 @@ export async function handleCreateCatRequest(
 	env: Env,
 ): Promise<Response> {
 	try {
-		const fields = await parseBodyFields(request);
+		const { fields, arrays, files, invalidArrays } =
+			await parseBodyFieldsWithArrays(request);
 		const sessionToken = fields.session_token ?? null;
 		const name = fields.name ?? null;
 		const description = fields.description ?? null;
@@ -43,6 +87,16 @@ export async function handleCreateCatRequest(
 		const latitudeRaw = fields.location_latitude ?? null;
 		const longitudeRaw = fields.location_longitude ?? null;
 		const imageBase64 = fields.image_base64 ?? null;
+		// A single image or id may arrive as a plain field, e.g. one multipart text part.
+		const imagesBase64 =
+			arrays.images ?? (fields.images ? [fields.images] : null);
+		const imageFiles = files.images ?? files.image ?? null;
+		const uploadIdField = fields.upload_id ?? fields.upload_ids ?? null;
+		const uploadIds =
+			arrays.upload_ids ?? (uploadIdField ? [uploadIdField] : null);
+		const spottedAtRaw = fields.spotted_at ?? null;
+		const usePhotoMetadata = fields.use_photo_metadata === "true";
+		const alertRadiusRaw = fields.alert_radius_m ?? null;
 
 		const sessionError = validateSessionToken(sessionToken);
 		if (sessionError) {
@@ -80,10 +134,111 @@ export async function handleCreateCatRequest(
 			return fail(longitudeError, 400);
 		}
 
-		const { image, error: imageError, status: imageStatus } =
-			parseBase64Image(imageBase64);
-		if (!image || imageError) {
-			return fail(imageError ?? "Invalid image_base64", imageStatus ?? 400);
+		const { value: spottedAt, error: spottedAtError } =
+			parseSpottedAt(spottedAtRaw);
+		if (spottedAtError) {
+			return fail(spottedAtError, 400);
+		}
+
+		const { postType, error: postTypeError } = parseCatPostType(fields.post_type);
+		if (postTypeError) {
+			return fail(postTypeError, 400);
+		}
+
+		const { text: reward, error: rewardError } = parseOptionalText(
+			fields.reward,
+			"reward",
+			LOST_REWARD_MAX_LENGTH,
+		);
+		if (rewardError) {
+			return fail(rewardError, 400);
+		}
+
+		const { text: contact, error: contactError } = parseOptionalText(
+			fields.contact,
+			"contact",
+			LOST_CONTACT_MAX_LENGTH,
+		);
+		if (contactError) {
+			return fail(contactError, 400);
+		}
+
+		const { radius: alertRadius, error: alertRadiusError } = parseRadiusParam(
+			alertRadiusRaw,
+			LOST_ALERT_RADIUS_DEFAULT_M,
+			NEARBY_RADIUS_MAX_M,
+			"alert_radius_m",
+		);
+		if (alertRadiusError) {
+			return fail(alertRadiusError, 400);
+		}
+
+		if (postType !== "lost" && (reward || contact || alertRadiusRaw)) {
+			return fail("reward, contact and alert_radius_m are only allowed on lost posts", 400);
+		}
+
+		if (invalidArrays.includes("images")) {
+			return fail("images must be an array of base64 strings", 400);
+		}
+
+		if (invalidArrays.includes("upload_ids")) {
+			return fail("Invalid upload_ids", 400);
+		}
+
+		// Image sources in order of precedence: staged uploads, multipart file parts,
+		// the `images` array, and the single `image_base64` field used by older clients.
+		const imageSource = uploadIds ?? imageFiles ?? imagesBase64;
+		if (imageSource && !imageSource.length) {
+			return fail("images must contain at least one image", 400);
+		}
+
+		if (imageSource && imageSource.length > CAT_IMAGES_MAX) {
+			return fail(`Too many images (max ${CAT_IMAGES_MAX})`, 400);
+		}
+
+		if (uploadIds && !uploadIds.every((uploadId) => isValidUuid(uploadId))) {
+			return fail("Invalid upload_ids", 400);
+		}
+
+		// Checked before decoding, so an oversized gallery is never held in memory twice.
+		const inlineBytes = imageFiles
+			? imageFiles.reduce((total, file) => total + file.size, 0)
+			: (imagesBase64 ?? [imageBase64 ?? ""]).reduce(
+					(total, input) => total + Math.floor((input.length * 3) / 4),
+					0,
+				);
+		if (!uploadIds && inlineBytes > CAT_IMAGES_TOTAL_MAX_BYTES) {
+			return fail(
+				`Images exceed ${CAT_IMAGES_TOTAL_MAX_BYTES / (1024 * 1024)}MB combined limit`,
+				413,
+			);
+		}
+
+		const images: ParsedImage[] = [];
+		if (!uploadIds && imageFiles) {
+			for (const [index, file] of imageFiles.entries()) {
+				const fieldName = `images[${index}]`;
+				const { image, error: imageError, status: imageStatus } =
+					parseImageBytes(new Uint8Array(await file.arrayBuffer()), {
+						fieldName,
+						declaredType: parseDeclaredImageType(file.type),
+					});
+				if (!image || imageError) {
+					return fail(imageError ?? `Invalid ${fieldName}`, imageStatus ?? 400);
+				}
+				images.push(image);
+			}
+		} else if (!uploadIds) {
+			const imageInputs = imagesBase64 ?? [imageBase64];
+			for (const [index, input] of imageInputs.entries()) {
+				const fieldName = imagesBase64 ? `images[${index}]` : "image_base64";
+				const { image, error: imageError, status: imageStatus } =
+					parseBase64Image(input, { fieldName });
+				if (!image || imageError) {
+					return fail(imageError ?? `Invalid ${fieldName}`, imageStatus ?? 400);
+				}
+				images.push(image);
+			}
 		}
 
 		const supabase = getSupabaseClient(env);
@@ -91,7 +246,45 @@ export async function handleCreateCatRequest(
 			supabase,
 			sessionToken!,
 		);
+
+		// Staged uploads hold the raw client bytes, so they go through the same validation.
+		const uploadService = new UploadService(supabase, env);
+		const stagedUploads = uploadIds
+			? await uploadService.loadStagedUploads(uploadIds, username)
+			: [];
+		for (const [index, staged] of stagedUploads.entries()) {
+			const fieldName = `upload_ids[${index}]`;
+			const { image, error: imageError, status: imageStatus } =
+				parseImageBytes(staged.bytes, {
+					fieldName,
+					declaredType: parseDeclaredImageType(staged.record.content_type),
+				});
+			if (!image || imageError) {
+				return fail(imageError ?? `Invalid ${fieldName}`, imageStatus ?? 400);
+			}
+			images.push(image);
+		}
+
+		const photoMetadata = extractPhotoMetadata(images);
+		let storedLatitude = latitude;
+		let storedLongitude = longitude;
+		let storedSpottedAt = spottedAt;
+		// Photo metadata only fills fields the client left empty, and only when asked to.
+		if (usePhotoMetadata && photoMetadata) {
+			if (storedLatitude === null && storedLongitude === null) {
+				storedLatitude = photoMetadata.location.latitude;
+				storedLongitude = photoMetadata.location.longitude;
+			}
+			storedSpottedAt ??= photoMetadata.captured_at;
+		}
+
+		// Alerts and matches are found by distance, so lost and found posts need a place.
+		if (postType !== "sighting" && (storedLatitude === null || storedLongitude === null)) {
+			return fail("Lost and found posts require a location", 400);
+		}
+
 		const userMetricsService = new UserMetricsService(supabase);
+		const canonicalTags = await new TagAliasService(supabase).resolveTags(tags);
 
 		const catId = crypto.randomUUID();
 		const sanitizedName = name!.trim();
@@ -100,22 +293,59 @@ export async function handleCreateCatRequest(
 				? description.trim()
 				: null;
 
-		const r2Key = `cats/${catId}.${image.extension}`;
-		await env.R2_BUCKET.put(r2Key, image.arrayBuffer, {
-			httpMetadata: { contentType: image.contentType },
-		});
+		const thumbnails = await Promise.all(
+			images.map((image) =>
+				decodeImageThumbnail(new Uint8Array(image.arrayBuffer), image.contentType),
+			),
+		);
+		const perceptualHashes = thumbnails.map(computePerceptualHash);
+		const contentHashes = await Promise.all(
+			images.map((image) => computeContentHash(image.arrayBuffer)),
+		);
+		const possibleDuplicates = await new DuplicatePhotoService(
+			supabase,
+			env,
+		).checkNewPhotos(perceptualHashes, contentHashes, username);
+
+		const storedImages = await Promise.all(
+			images.map(async (image, position) => {
+				const r2Key = `cats/${catId}/${position}.${image.extension}`;
+				await env.R2_BUCKET.put(r2Key, image.arrayBuffer, {
+					httpMetadata: { contentType: image.contentType },
+				});
+				return {
+					position,
+					r2_path: r2Key,
+					width: image.width,
+					height: image.height,
+					placeholder: computeImagePlaceholder(thumbnails[position]),
+					perceptual_hash: perceptualHashes[position],
+					content_hash: contentHashes[position],
+				};
+			}),
+		);
 
 		const catRecord = await userMetricsService.createCatWithPostCount({
 			id: catId,
 			name: sanitizedName,
-			tags: tags.length ? tags : null,
+			tags: canonicalTags.length ? canonicalTags : null,
 			username,
 			description: sanitizedDescription,
-			location_latitude: latitude,
-			location_longitude: longitude,
-			r2_path: r2Key,
+			location_latitude: storedLatitude,
+			location_longitude: storedLongitude,
+			spotted_at: storedSpottedAt,
+			post_type: postType,
+			reward,
+			contact,
+			alert_radius_m: postType === "lost" ? Math.round(alertRadius) : null,
+			r2_path: storedImages[0].r2_path,
+			images: storedImages,
 		});
 
+		await uploadService.discardUploads(
+			stagedUploads.map((staged) => staged.record),
+		);
+
 		const [cat] = await mapCatRecordsWithMetadata(
 			[catRecord],
 			env,
@@ -123,7 +353,224 @@ export async function handleCreateCatRequest(
 			username,
 		);
 
-		return ok<CatResponsePayload>({ cat }, 201);
+		return ok<CatCreatePayload>(
+			{
+				cat,
+				// Only the poster sees this response, and posters see their own cats'
+				// locations unfuzzed, so the GPS position is returned as read.
+				photo_metadata: photoMetadata,
+				possible_duplicates: possibleDuplicates,
+			},
+			201,
+		);
+	} catch (err) {
+		if (err instanceof AuthError) {
+			return fail(err.message, err.status);
+		}
+		return handleRouteError(err);
+	}
+}
+
+export async function handleUpdateCatRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const sessionToken = fields.session_token ?? null;
+		const catId = fields.cat_id ?? null;
+		const name = fields.name ?? undefined;
+		const description = fields.description ?? undefined;
+		const tagsRaw = fields.tags ?? undefined;
+		const latitudeRaw = fields.location_latitude ?? undefined;
+		const longitudeRaw = fields.location_longitude ?? undefined;
+
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			return fail(sessionError, 401);
+		}
+
+		if (!catId) {
+			return fail("Missing cat_id", 400);
+		}
+
+		if (!isValidUuid(catId)) {
+			return fail("Invalid cat_id", 400);
+		}
+
+		if (
+			name === undefined &&
+			description === undefined &&
+			tagsRaw === undefined &&
+			latitudeRaw === undefined &&
+			longitudeRaw === undefined
+		) {
+			return fail("No fields to update", 400);
+		}
+
+		if (name !== undefined) {
+			const nameError = validateCatName(name);
+			if (nameError) {
+				return fail(nameError, 400);
+			}
+		}
+
+		if (description !== undefined) {
+			const descriptionError = validateCatDescription(description);
+			if (descriptionError) {
+				return fail(descriptionError, 400);
+			}
+		}
+
+		const { tags, error: tagsError } = parseCatTags(tagsRaw);
+		if (tagsError) {
+			return fail(tagsError, 400);
+		}
+
+		const { value: latitude, error: latitudeError } = parseCoordinate(
+			latitudeRaw,
+			"latitude",
+		);
+		if (latitudeError) {
+			return fail(latitudeError, 400);
+		}
+
+		const { value: longitude, error: longitudeError } = parseCoordinate(
+			longitudeRaw,
+			"longitude",
+		);
+		if (longitudeError) {
+			return fail(longitudeError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const username = await resolveUsernameBySessionToken(
+			supabase,
+			sessionToken!,
+		);
+
+		const { data, error } = await supabase
+			.from("cats")
+			.select("*")
+			.eq("id", catId)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load cat", 500);
+		}
+
+		if (!data) {
+			return fail("Cat not found", 404);
+		}
+
+		const existing = data as CatRecord;
+		if (existing.username !== username) {
+			return fail("Cannot edit another user's cat", 403);
+		}
+
+		const canonicalTags = await new TagAliasService(supabase).resolveTags(tags);
+
+		// Omitted fields keep their current value; empty strings clear optional fields.
+		const revisionService = new CatRevisionService(supabase);
+		const catRecord = await revisionService.updateCatWithRevision({
+			id: catId,
+			username,
+			name: name !== undefined ? name.trim() : existing.name,
+			description:
+				description !== undefined
+					? description.trim() || null
+					: existing.description,
+			tags:
+				tagsRaw !== undefined
+					? canonicalTags.length
+						? canonicalTags
+						: null
+					: existing.tags,
+			location_latitude:
+				latitudeRaw !== undefined ? latitude : existing.location_latitude,
+			location_longitude:
+				longitudeRaw !== undefined ? longitude : existing.location_longitude,
+		});
+
+		const [cat] = await mapCatRecordsWithMetadata(
+			[catRecord],
+			env,
+			supabase,
+			username,
+		);
+
+		return ok<CatResponsePayload>({ cat });
+	} catch (err) {
+		if (err instanceof AuthError) {
+			return fail(err.message, err.status);
+		}
+		return handleRouteError(err);
+	}
+}
+
+export async function handleDeleteCatRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const sessionToken = fields.session_token ?? null;
+		const catId = fields.cat_id ?? null;
+
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			return fail(sessionError, 401);
+		}
+
+		if (!catId) {
+			return fail("Missing cat_id", 400);
+		}
+
+		if (!isValidUuid(catId)) {
+			return fail("Invalid cat_id", 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const username = await resolveUsernameBySessionToken(
+			supabase,
+			sessionToken!,
+		);
+
+		const { data, error } = await supabase
+			.from("cats")
+			.select("id,username")
+			.eq("id", catId)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load cat", 500);
+		}
+
+		if (!data) {
+			return fail("Cat not found", 404);
+		}
+
+		if (data.username !== username) {
+			return fail("Cannot delete another user's cat", 403);
+		}
+
+		// Gallery rows cascade with the cat, so collect their keys before deleting it.
+		const imagesByCat = await fetchCatImages(supabase, [catId]);
+		const galleryKeys = (imagesByCat.get(catId) ?? []).map(
+			(image) => image.r2_path,
+		);
+
+		const userMetricsService = new UserMetricsService(supabase);
+		const deleted = await userMetricsService.deleteCatWithPostCount(
+			catId,
+			username,
+		);
+
+		// The row is already gone at this point, so a failed object delete only leaves an orphan in R2.
+		const r2Keys = Array.from(new Set([deleted.r2_path, ...galleryKeys]));
+		await env.R2_BUCKET.delete(r2Keys).catch(() => {});
+
+		return ok({ status: "deleted" });
 	} catch (err) {
 		if (err instanceof AuthError) {
 			return fail(err.message, err.status);
@@ -178,6 +625,7 @@ export async function handleListCatsRequest(
 		let query = supabase
 			.from("cats")
 			.select("*")
+			.is("hidden_at", null)
 			.order("created_at", { ascending: false })
 			.order("id", { ascending: false })
 			.limit(limit + 1);
@@ -224,7 +672,9 @@ export async function handleGetCatRequest(
 		const url = new URL(request.url);
 		const id = url.searchParams.get("id");
 		const sessionToken = url.searchParams.get("session_token");
-		let sessionUsername: string | null = null;
+		const includeRevisions =
+			url.searchParams.get("include_revisions") === "true";
+		let sessionUser: SessionUser | null = null;
 
 		if (!id) {
 			return fail("Missing id", 400);
@@ -242,12 +692,13 @@ export async function handleGetCatRequest(
 				return fail(sessionError, 401);
 			}
 
-			sessionUsername = await resolveUsernameBySessionToken(
+			sessionUser = await resolveSessionUserBySessionToken(
 				supabase,
 				sessionToken,
 			);
 		}
 
+		const sessionUsername = sessionUser?.username ?? null;
 		const { data, error } = await supabase
 			.from("cats")
 			.select("*")
@@ -258,7 +709,7 @@ export async function handleGetCatRequest(
 			throw new HttpError("Failed to load cat", 500);
 		}
 
-		if (!data) {
+		if (!data || !canViewCat(data as CatRecord, sessionUser)) {
 			return fail("Cat not found", 404);
 		}
 
@@ -269,12 +720,306 @@ export async function handleGetCatRequest(
 			sessionUsername,
 		);
 
+		if (includeRevisions) {
+			const posterUsername = (data as CatRecord).username;
+			const precisions = await fetchLocationPrecisions(supabase, [
+				posterUsername,
+			]);
+			const revisionService = new CatRevisionService(supabase);
+			const revisions = await revisionService.listRevisions(
+				cat.id,
+				precisions.get(posterUsername) ?? "exact",
+				posterUsername === sessionUsername,
+			);
+			return ok<CatDetailPayload>({ cat, revisions });
+		}
+
 		return ok<CatResponsePayload>({ cat });
 	} catch (err) {
 		return handleRouteError(err);
 	}
 }
 
+export async function handleListDuplicateCatsRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const id = url.searchParams.get("id");
+		const rawLimit = url.searchParams.get("limit");
+		const sessionToken = url.searchParams.get("session_token");
+		let sessionUser: SessionUser | null = null;
+
+		if (!id) {
+			return fail("Missing id", 400);
+		}
+
+		if (!isValidUuid(id)) {
+			return fail("Invalid id", 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(rawLimit, 10, 25);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 401);
+			}
+
+			sessionUser = await resolveSessionUserBySessionToken(
+				supabase,
+				sessionToken,
+			);
+		}
+
+		const sessionUsername = sessionUser?.username ?? null;
+		const { data, error } = await supabase
+			.from("cats")
+			.select("id,username,hidden_at")
+			.eq("id", id)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load cat", 500);
+		}
+
+		if (!data || !canViewCat(data, sessionUser)) {
+			return fail("Cat not found", 404);
+		}
+
+		const duplicates = await new DuplicatePhotoService(
+			supabase,
+			env,
+		).listDuplicatesOf(id, limit);
+		const mapped = await mapCatRecordsWithMetadata(
+			duplicates.map((duplicate) => duplicate.record),
+			env,
+			supabase,
+			sessionUsername,
+		);
+		const cats = mapped.map((cat, index) => ({
+			...cat,
+			hash_distance: duplicates[index].hashDistance,
+		}));
+
+		return ok<SimilarCatListPayload>({ cats });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export async function handleNearbyCatsRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const latitudeRaw = url.searchParams.get("lat");
+		const longitudeRaw = url.searchParams.get("lon");
+		const radiusRaw = url.searchParams.get("radius_m");
+		const rawLimit = url.searchParams.get("limit");
+		const rawCursor = url.searchParams.get("cursor");
+		const sessionToken = url.searchParams.get("session_token");
+		let sessionUsername: string | null = null;
+
+		if (!latitudeRaw || !longitudeRaw) {
+			return fail("Missing lat or lon", 400);
+		}
+
+		const { value: latitude, error: latitudeError } = parseCoordinate(
+			latitudeRaw,
+			"latitude",
+		);
+		if (latitudeError) {
+			return fail(latitudeError, 400);
+		}
+
+		const { value: longitude, error: longitudeError } = parseCoordinate(
+			longitudeRaw,
+			"longitude",
+		);
+		if (longitudeError) {
+			return fail(longitudeError, 400);
+		}
+
+		const { radius, error: radiusError } = parseRadiusParam(radiusRaw);
+		if (radiusError) {
+			return fail(radiusError, 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(rawLimit);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeNearbyCursor(rawCursor);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 401);
+			}
+
+			sessionUsername = await resolveUsernameBySessionToken(
+				supabase,
+				sessionToken,
+			);
+		}
+
+		const geoService = new CatGeoService(supabase, env);
+		const { rows, nextCursor } = await geoService.findNearby({
+			latitude: latitude!,
+			longitude: longitude!,
+			radiusM: radius,
+			limit,
+			cursor,
+			sessionUsername,
+		});
+
+		const mapped = await mapCatRecordsWithMetadata(
+			rows.map((row) => row.cat),
+			env,
+			supabase,
+			sessionUsername,
+		);
+		const cats = mapped.map((cat, index) => ({
+			...cat,
+			distance_m: rows[index].distance_m,
+		}));
+
+		return ok<NearbyCatListPayload>({
+			cats,
+			next_cursor: nextCursor,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export async function handleCatMapRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const sessionToken = url.searchParams.get("session_token");
+		const { bbox, error: bboxError } = parseBoundingBox(
+			url.searchParams.get("bbox"),
+		);
+		if (!bbox || bboxError) {
+			return fail(bboxError ?? "Invalid bbox", 400);
+		}
+
+		const { zoom, error: zoomError } = parseZoomParam(
+			url.searchParams.get("zoom"),
+		);
+		if (zoomError) {
+			return fail(zoomError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		let sessionUsername: string | null = null;
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 401);
+			}
+
+			sessionUsername = await resolveUsernameBySessionToken(
+				supabase,
+				sessionToken,
+			);
+		}
+
+		const geoService = new CatGeoService(supabase, env);
+		const { clusters, cats } = await geoService.clusterViewport(
+			bbox,
+			zoom,
+			sessionUsername,
+		);
+
+		return ok<CatMapPayload>({ zoom, clusters, cats });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export async function handleSearchCatsRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const rawQuery = url.searchParams.get("q");
+		const rawLimit = url.searchParams.get("limit");
+		const rawCursor = url.searchParams.get("cursor");
+		const sessionToken = url.searchParams.get("session_token");
+		let sessionUsername: string | null = null;
+
+		const { terms, error: queryError } = parseSearchQuery(rawQuery);
+		if (queryError) {
+			return fail(queryError, 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(rawLimit);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeSearchCursor(rawCursor);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 401);
+			}
+
+			sessionUsername = await resolveUsernameBySessionToken(
+				supabase,
+				sessionToken,
+			);
+		}
+
+		const searchService = new CatSearchService(supabase);
+		const { rows, nextCursor } = await searchService.searchCats({
+			terms,
+			limit,
+			cursor,
+		});
+
+		const cats = await mapCatRecordsWithMetadata(
+			rows,
+			env,
+			supabase,
+			sessionUsername,
+		);
+
+		return ok<CatListPayload>({
+			cats,
+			next_cursor: nextCursor,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
 export async function handleSearchCatsByTagsRequest(
 	request: Request,
 	env: Env,
@@ -330,17 +1075,21 @@ export async function handleSearchCatsByTagsRequest(
 			);
 		}
 
+		// Stored tags are canonical, so synonyms in the query must be resolved the same way.
+		const canonicalTags = await new TagAliasService(supabase).resolveTags(tags);
+
 		let query = supabase
 			.from("cats")
 			.select("*")
+			.is("hidden_at", null)
 			.order("created_at", { ascending: false })
 			.order("id", { ascending: false })
 			.limit(limit + 1);
 
 		if (mode === "all") {
-			query = query.contains("tags", tags);
+			query = query.contains("tags", canonicalTags);
 		} else {
-			query = query.overlaps("tags", tags);
+			query = query.overlaps("tags", canonicalTags);
 		}
 
 		if (cursor) {
@@ -355,7 +1104,7 @@ export async function handleSearchCatsByTagsRequest(
 					{
 						error,
 						mode,
-						tags,
+						tags: canonicalTags,
 						cursor,
 						limit,
 					},
@@ -387,23 +1136,50 @@ export async function handleSearchCatsByTagsRequest(
 }
 
 export function handleLikeCatRequest(request: Request, env: Env): Promise<Response> {
-	return handleCatLikeMutation(request, env, "like");
+	return handleCatReactionMutation(request, env, "add", { likeOnly: true });
 }
 
 export function handleRemoveLikeCatRequest(
 	request: Request,
 	env: Env,
 ): Promise<Response> {
-	return handleCatLikeMutation(request, env, "remove");
+	return handleCatReactionMutation(request, env, "remove", { likeOnly: true });
+}
+
+export function handleReactToCatRequest(request: Request, env: Env): Promise<Response> {
+	return handleCatReactionMutation(request, env, "add", { likeOnly: false });
+}
+
+export function handleRemoveCatReactionRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	return handleCatReactionMutation(request, env, "remove", { likeOnly: false });
 }
 
+type SessionUser = {
+	username: string;
+	role: UserRole;
+};
+
 async function resolveUsernameBySessionToken(
 	supabase: SupabaseClientType,
 	sessionToken: string,
 ): Promise<string> {
+	const { username } = await resolveSessionUserBySessionToken(
+		supabase,
+		sessionToken,
+	);
+	return username;
+}
+
+async function resolveSessionUserBySessionToken(
+	supabase: SupabaseClientType,
+	sessionToken: string,
+): Promise<SessionUser> {
 	const { data, error } = await supabase
 		.from("users")
-		.select("username")
+		.select("username,role,suspended_at")
 		.eq("session_token", sessionToken)
 		.maybeSingle();
 
@@ -415,73 +1191,67 @@ async function resolveUsernameBySessionToken(
 		throw new AuthError("Invalid session token");
 	}
 
-	return data.username as string;
-}
+	if (data.suspended_at) {
+		throw new SuspendedError();
+	}
 
-function encodeCursor(row: CatRecord): string {
-	const payload = JSON.stringify({
-		created_at: row.created_at,
-		id: row.id,
-	});
-	return base64Encode(payload);
+	return {
+		username: data.username as string,
+		role: (data.role as UserRole | null) ?? "user",
+	};
 }
 
-function decodeCursor(
-	rawCursor: string | null,
-): { cursor: CursorPayload | null; error: string | null } {
-	if (!rawCursor) {
-		return { cursor: null, error: null };
+// Hidden cats stay visible to their poster and to moderators.
+function canViewCat(
+	cat: Pick<CatRecord, "username" | "hidden_at">,
+	sessionUser: SessionUser | null,
+): boolean {
+	if (!cat.hidden_at) {
+		return true;
 	}
 
-	try {
-		const json = base64Decode(rawCursor);
-		const parsed = JSON.parse(json) as Partial<CursorPayload>;
-		if (
-			typeof parsed.created_at === "string" &&
-			typeof parsed.id === "string"
-		) {
-			return {
-				cursor: {
-					created_at: parsed.created_at,
-					id: parsed.id,
-				},
-				error: null,
-			};
-		}
-		return { cursor: null, error: "Invalid cursor" };
-	} catch {
-		return { cursor: null, error: "Invalid cursor" };
+	if (!sessionUser) {
+		return false;
 	}
-}
 
-function base64Encode(input: string): string {
-	const utf8 = new TextEncoder().encode(input);
-	let binary = "";
-	for (const byte of utf8) {
-		binary += String.fromCharCode(byte);
-	}
-	return btoa(binary);
+	return (
+		cat.username === sessionUser.username ||
+		validateUserRole(sessionUser.role, "moderator") === null
+	);
 }
 
-function base64Decode(encoded: string): string {
-	const binary = atob(encoded);
-	const bytes = new Uint8Array(binary.length);
-	for (let i = 0; i < binary.length; i += 1) {
-		bytes[i] = binary.charCodeAt(i);
+// Uses the first image that carries any capture time or GPS position.
+function extractPhotoMetadata(
+	images: ParsedImage[],
+): PhotoMetadata | null {
+	for (const image of images) {
+		const exif = image.exif;
+		if (!exif) {
+			continue;
+		}
+
+		const capturedAt = parseSpottedAt(exif.capturedAt).value;
+		if (capturedAt === null && exif.latitude === null) {
+			continue;
+		}
+
+		return {
+			captured_at: capturedAt,
+			location: { latitude: exif.latitude, longitude: exif.longitude },
+		};
 	}
-	return new TextDecoder().decode(bytes);
-}
 
-function buildCursorClause(cursor: CursorPayload): string {
-	return `and(created_at.lt.${cursor.created_at}),and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`;
+	return null;
 }
 
-type CatLikeMutation = "like" | "remove";
+type CatReactionMutation = "add" | "remove";
 
-async function handleCatLikeMutation(
+// The like endpoints are the "heart" reaction and keep their original payload.
+async function handleCatReactionMutation(
 	request: Request,
 	env: Env,
-	action: CatLikeMutation,
+	action: CatReactionMutation,
+	{ likeOnly }: { likeOnly: boolean },
 ): Promise<Response> {
 	try {
 		const fields = await parseBodyFields(request);
@@ -501,20 +1271,37 @@ async function handleCatLikeMutation(
 			return fail("Invalid cat_id", 400);
 		}
 
+		let reaction: CatReaction = "heart";
+		if (!likeOnly) {
+			const parsed = parseCatReaction(fields.reaction);
+			if (parsed.error) {
+				return fail(parsed.error, 400);
+			}
+			reaction = parsed.reaction!;
+		}
+
 		const supabase = getSupabaseClient(env);
 		const userService = new UserService(supabase, env);
-		const likeService = new CatLikeService(supabase, userService);
-
-		const totalLikes =
-			action === "like"
-				? await likeService.likeCat(sessionToken!, catId)
-				: await likeService.unlikeCat(sessionToken!, catId);
+		const reactionService = new CatReactionService(supabase, userService);
+
+		const counts =
+			action === "add"
+				? await reactionService.addReaction(sessionToken!, catId, reaction)
+				: await reactionService.removeReaction(sessionToken!, catId, reaction);
+
+		if (likeOnly) {
+			return ok<CatLikePayload>({
+				cat_id: catId,
+				likes: counts.heart,
+				liked: action === "add",
+			});
+		}
 
-		const liked = action === "like";
-		return ok<CatLikePayload>({
+		return ok<CatReactionPayload>({
 			cat_id: catId,
-			likes: totalLikes,
-			liked,
+			reaction,
+			reactions: counts,
+			reacted: action === "add",
 		});
 	} catch (err) {
 		return handleRouteError(err);
@@ -1,3 +1,4 @@
+import { decodeCursorPayload, encodeCursorPayload } from "../cursors";
 import { AuthError, HttpError } from "../errors";
 import type {
 	Collection,
@@ -215,9 +216,10 @@ export async function handleGetCollectionRequest(
 		const hasMore = rows.length > limit;
 		const visibleRows = hasMore ? rows.slice(0, limit) : rows;
 		const nextCursor = hasMore ? encodeCollectionCursor(rows[limit]) : null;
+		// Hidden cats keep their place in the keyset but are not shown.
 		const catRecords = visibleRows
 			.map((row) => row.cat)
-			.filter((cat): cat is CatRecord => Boolean(cat));
+			.filter((cat): cat is CatRecord => Boolean(cat) && !cat?.hidden_at);
 
 		const cats = await mapCatRecordsWithMetadata(
 			catRecords,
@@ -458,11 +460,10 @@ function mapCollectionRowToApi(record: CollectionRow, owner: GuestUser): Collect
 }
 
 function encodeCollectionCursor(row: CollectionCatRow): string {
-	const payload = JSON.stringify({
+	return encodeCursorPayload({
 		added_at: row.added_at,
 		cat_id: row.cat_id,
 	});
-	return base64Encode(payload);
 }
 
 function decodeCollectionCursor(
@@ -473,8 +474,7 @@ function decodeCollectionCursor(
 	}
 
 	try {
-		const json = base64Decode(rawCursor);
-		const parsed = JSON.parse(json) as Partial<CollectionCursorPayload>;
+		const parsed = decodeCursorPayload(rawCursor) as Partial<CollectionCursorPayload>;
 		if (
 			typeof parsed.added_at === "string" &&
 			typeof parsed.cat_id === "string"
@@ -493,24 +493,6 @@ function decodeCollectionCursor(
 	}
 }
 
-function base64Encode(input: string): string {
-	const utf8 = new TextEncoder().encode(input);
-	let binary = "";
-	for (const byte of utf8) {
-		binary += String.fromCharCode(byte);
-	}
-	return btoa(binary);
-}
-
-function base64Decode(encoded: string): string {
-	const binary = atob(encoded);
-	const bytes = new Uint8Array(binary.length);
-	for (let i = 0; i < binary.length; i += 1) {
-		bytes[i] = binary.charCodeAt(i);
-	}
-	return new TextDecoder().decode(bytes);
-}
-
 function buildCollectionCursorClause(cursor: CollectionCursorPayload): string {
 	return `and(added_at.lt.${cursor.added_at}),and(added_at.eq.${cursor.added_at},cat_id.lt.${cursor.cat_id})`;
 }
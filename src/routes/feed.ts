@@ -0,0 +1,119 @@
+import type { CatListPayload } from "../models";
+import { fail, handleRouteError, ok } from "../responses";
+import { getSupabaseClient } from "../supabaseClient";
+import { FeedService, decodeExploreCursor } from "../services/feedService";
+import { UserService } from "../services/userService";
+import { mapCatRecordsWithMetadata } from "../services/catMappingService";
+import { parseLimitParam, validateSessionToken } from "../validation";
+import { decodeCursor, encodeCursor } from "../cursors";
+
+export async function handleFollowingFeedRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const sessionToken = url.searchParams.get("session_token");
+		const rawLimit = url.searchParams.get("limit");
+		const rawCursor = url.searchParams.get("cursor");
+
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			return fail(sessionError, 401);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(rawLimit);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeCursor(rawCursor);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const userService = new UserService(supabase, env);
+		const { username } = await userService.getUserBySessionToken(sessionToken!);
+
+		const feedService = new FeedService(supabase, env);
+		const rows = await feedService.listFollowingFeed(username, {
+			limit: limit + 1,
+			cursor,
+		});
+
+		const hasMore = rows.length > limit;
+		const visibleRows = hasMore ? rows.slice(0, limit) : rows;
+		const nextCursor = hasMore ? encodeCursor(visibleRows[limit - 1]) : null;
+
+		const cats = await mapCatRecordsWithMetadata(
+			visibleRows,
+			env,
+			supabase,
+			username,
+		);
+
+		return ok<CatListPayload>({
+			cats,
+			next_cursor: nextCursor,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export async function handleExploreFeedRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const sessionToken = url.searchParams.get("session_token");
+		const rawLimit = url.searchParams.get("limit");
+		const rawCursor = url.searchParams.get("cursor");
+		let sessionUsername: string | null = null;
+
+		const { limit, error: limitError } = parseLimitParam(rawLimit);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeExploreCursor(rawCursor);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 401);
+			}
+
+			const userService = new UserService(supabase, env);
+			const { username } = await userService.getUserBySessionToken(sessionToken);
+			sessionUsername = username;
+		}
+
+		const feedService = new FeedService(supabase, env);
+		const { rows, nextCursor } = await feedService.listExploreFeed(
+			sessionUsername,
+			{ limit, cursor },
+		);
+
+		const cats = await mapCatRecordsWithMetadata(
+			rows,
+			env,
+			supabase,
+			sessionUsername,
+		);
+
+		return ok<CatListPayload>({
+			cats,
+			next_cursor: nextCursor,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
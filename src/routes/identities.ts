@@ -0,0 +1,280 @@
+import { AuthError } from "../errors";
+import type {
+	CatIdentity,
+	CatIdentityCountPayload,
+	CatIdentityPayload,
+	CatIdentityRow,
+	CatIdentityTimelinePayload,
+	GuestUser,
+} from "../models";
+import { fail, handleRouteError, ok } from "../responses";
+import { getSupabaseClient, type SupabaseClientType } from "../supabaseClient";
+import { CatIdentityService } from "../services/catIdentityService";
+import {
+	buildFallbackGuest,
+	fetchCatIdentitySummaries,
+	mapCatRecordsWithMetadata,
+} from "../services/catMappingService";
+import { GuestService } from "../services/guestService";
+import { UserService } from "../services/userService";
+import {
+	isValidUuid,
+	parseBodyFields,
+	parseLimitParam,
+	validateCatDescription,
+	validateCatName,
+	validateSessionToken,
+} from "../validation";
+import { decodeCursor, encodeCursor } from "../cursors";
+
+export async function handleCreateCatIdentityRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const sessionToken = fields.session_token ?? null;
+		const name = fields.name ?? null;
+		const description = fields.description ?? null;
+		const catId = fields.cat_id ?? null;
+
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			return fail(sessionError, 401);
+		}
+
+		const nameError = validateCatName(name);
+		if (nameError) {
+			return fail(nameError, 400);
+		}
+
+		const descriptionError = validateCatDescription(description);
+		if (descriptionError) {
+			return fail(descriptionError, 400);
+		}
+
+		if (!catId) {
+			return fail("Missing cat_id", 400);
+		}
+
+		if (!isValidUuid(catId)) {
+			return fail("Invalid cat_id", 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const userService = new UserService(supabase, env);
+		const { username } = await userService.getUserBySessionToken(sessionToken!);
+
+		const identityService = new CatIdentityService(supabase);
+		const record = await identityService.createIdentity({
+			name: name!,
+			description,
+			catId,
+			username,
+		});
+
+		const identity = await buildCatIdentity(record, env, supabase, username);
+
+		return ok<CatIdentityPayload>({ identity }, 201);
+	} catch (err) {
+		if (err instanceof AuthError) {
+			return fail(err.message, err.status);
+		}
+		return handleRouteError(err);
+	}
+}
+
+export async function handleGetCatIdentityRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const identityId = url.searchParams.get("identity_id");
+		const sessionToken = url.searchParams.get("session_token");
+		const rawLimit = url.searchParams.get("limit");
+		const rawCursor = url.searchParams.get("cursor");
+		let sessionUsername: string | null = null;
+
+		if (!identityId) {
+			return fail("Missing identity_id", 400);
+		}
+
+		if (!isValidUuid(identityId)) {
+			return fail("Invalid identity_id", 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(rawLimit);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeCursor(rawCursor);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 401);
+			}
+
+			const userService = new UserService(supabase, env);
+			const { username } = await userService.getUserBySessionToken(sessionToken);
+			sessionUsername = username;
+		}
+
+		const identityService = new CatIdentityService(supabase);
+		const record = await identityService.getIdentityById(identityId);
+		const rows = await identityService.listSightings(identityId, {
+			limit: limit + 1,
+			cursor,
+		});
+
+		const hasMore = rows.length > limit;
+		const visibleRows = hasMore ? rows.slice(0, limit) : rows;
+		const nextCursor = hasMore ? encodeCursor(visibleRows[limit - 1]) : null;
+
+		const sightings = await mapCatRecordsWithMetadata(
+			visibleRows,
+			env,
+			supabase,
+			sessionUsername,
+		);
+		const trail = await identityService.listTrail(identityId, sessionUsername);
+		const identity = await buildCatIdentity(
+			record,
+			env,
+			supabase,
+			sessionUsername,
+		);
+
+		return ok<CatIdentityTimelinePayload>({
+			identity,
+			sightings,
+			trail,
+			next_cursor: nextCursor,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export async function handleLinkCatIdentityRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const sessionToken = fields.session_token ?? null;
+		const identityId = fields.identity_id ?? null;
+		const catId = fields.cat_id ?? null;
+
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			return fail(sessionError, 401);
+		}
+
+		if (!identityId || !catId) {
+			return fail("Missing identity_id or cat_id", 400);
+		}
+
+		if (!isValidUuid(identityId) || !isValidUuid(catId)) {
+			return fail("Invalid identifier", 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const userService = new UserService(supabase, env);
+		const { username } = await userService.getUserBySessionToken(sessionToken!);
+
+		const identityService = new CatIdentityService(supabase);
+		const sightingCount = await identityService.linkCat(
+			identityId,
+			catId,
+			username,
+		);
+
+		return ok<CatIdentityCountPayload>({
+			identity_id: identityId,
+			sighting_count: sightingCount,
+		});
+	} catch (err) {
+		if (err instanceof AuthError) {
+			return fail(err.message, err.status);
+		}
+		return handleRouteError(err);
+	}
+}
+
+export async function handleUnlinkCatIdentityRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const sessionToken = fields.session_token ?? null;
+		const catId = fields.cat_id ?? null;
+
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			return fail(sessionError, 401);
+		}
+
+		if (!catId) {
+			return fail("Missing cat_id", 400);
+		}
+
+		if (!isValidUuid(catId)) {
+			return fail("Invalid cat_id", 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const userService = new UserService(supabase, env);
+		const { username } = await userService.getUserBySessionToken(sessionToken!);
+
+		const identityService = new CatIdentityService(supabase);
+		const { identityId, sightingCount } = await identityService.unlinkCat(
+			catId,
+			username,
+		);
+
+		return ok<CatIdentityCountPayload>({
+			identity_id: identityId,
+			sighting_count: sightingCount,
+		});
+	} catch (err) {
+		if (err instanceof AuthError) {
+			return fail(err.message, err.status);
+		}
+		return handleRouteError(err);
+	}
+}
+
+async function buildCatIdentity(
+	record: CatIdentityRow,
+	env: Env,
+	supabase: SupabaseClientType,
+	sessionUsername: string | null,
+): Promise<CatIdentity> {
+	const guestService = new GuestService(supabase, env);
+	const creator: GuestUser =
+		(await guestService
+			.fetchGuests([record.created_by], sessionUsername)
+			.then((map) => map.get(record.created_by))) ??
+		buildFallbackGuest(record.created_by);
+	const summaries = await fetchCatIdentitySummaries(supabase, env, [record.id]);
+	const summary = summaries.get(record.id);
+
+	return {
+		id: record.id,
+		name: record.name,
+		photo_url: summary?.photo_url ?? null,
+		sighting_count: Number(record.sighting_count ?? 0),
+		description: record.description,
+		created_by: creator,
+		created_at: record.created_at,
+	};
+}
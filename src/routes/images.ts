@@ -0,0 +1,99 @@
+import { authorizeRole } from "../adminAuth";
+import type { ImageBackfillPayload } from "../models";
+import { fail, handleRouteError, ok } from "../responses";
+import { getSupabaseClient } from "../supabaseClient";
+import {
+	decodeCatImageBackfillCursor,
+	encodeCatImageBackfillCursor,
+	ImageBackfillService,
+} from "../services/imageBackfillService";
+import { UserService } from "../services/userService";
+import {
+	parseBodyFields,
+	parseImageBackfillTarget,
+	parseLimitParam,
+} from "../validation";
+import { decodeCursor, encodeCursor } from "../cursors";
+
+const BACKFILL_DEFAULT_LIMIT = 10;
+const BACKFILL_MAX_LIMIT = 50;
+
+export async function handleBackfillImagesRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const supabase = getSupabaseClient(env);
+		await authorizeRole(new UserService(supabase, env), fields.session_token, "admin");
+
+		const { target, error: targetError } = parseImageBackfillTarget(fields.target);
+		if (targetError) {
+			return fail(targetError, 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(
+			fields.limit,
+			BACKFILL_DEFAULT_LIMIT,
+			BACKFILL_MAX_LIMIT,
+		);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const backfillService = new ImageBackfillService(supabase, env);
+		const rawCursor = fields.cursor ?? null;
+
+		if (target === "avatars") {
+			const batch = await backfillService.backfillAvatars({
+				limit,
+				cursor: rawCursor,
+			});
+			return ok<ImageBackfillPayload>({
+				target,
+				processed: batch.rows.length,
+				updated_images: batch.updatedImages,
+				next_cursor:
+					batch.rows.length === limit
+						? batch.rows[batch.rows.length - 1].username
+						: null,
+			});
+		}
+
+		if (target === "hashes") {
+			const { cursor, error: cursorError } = decodeCatImageBackfillCursor(rawCursor);
+			if (cursorError) {
+				return fail(cursorError, 400);
+			}
+
+			const batch = await backfillService.backfillPerceptualHashes({ limit, cursor });
+			return ok<ImageBackfillPayload>({
+				target,
+				processed: batch.rows.length,
+				updated_images: batch.updatedImages,
+				next_cursor:
+					batch.rows.length === limit
+						? encodeCatImageBackfillCursor(batch.rows[batch.rows.length - 1])
+						: null,
+			});
+		}
+
+		const { cursor, error: cursorError } = decodeCursor(rawCursor);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const batch = await backfillService.backfillCats({ limit, cursor });
+		return ok<ImageBackfillPayload>({
+			target,
+			processed: batch.rows.length,
+			updated_images: batch.updatedImages,
+			next_cursor:
+				batch.rows.length === limit
+					? encodeCursor(batch.rows[batch.rows.length - 1])
+					: null,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
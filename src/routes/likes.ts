@@ -0,0 +1,143 @@
+import type { CatListPayload, LikeListPayload } from "../models";
+import { fail, handleRouteError, ok } from "../responses";
+import { getSupabaseClient } from "../supabaseClient";
+import {
+	isValidUuid,
+	parseLimitParam,
+	validateSessionToken,
+	validateUsername,
+} from "../validation";
+import {
+	LikeListService,
+	decodeLikedCatCursor,
+	decodeLikerCursor,
+	encodeLikeCursor,
+} from "../services/likeListService";
+import { UserService } from "../services/userService";
+
+/**
+ * GET /cats/likes/list
+ * Query: cat_id (+ optional session_token, cursor, limit)
+ * Response: { likers: LikeEdge[]; next_cursor: string | null }
+ */
+export async function handleListCatLikersRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const catId = url.searchParams.get("cat_id");
+		const sessionToken = url.searchParams.get("session_token");
+
+		if (!catId) {
+			return fail("Missing cat_id", 400);
+		}
+
+		if (!isValidUuid(catId)) {
+			return fail("Invalid cat_id", 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(
+			url.searchParams.get("limit"),
+			25,
+			100,
+		);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeLikerCursor(
+			url.searchParams.get("cursor"),
+		);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		let viewerUsername: string | null = null;
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 400);
+			}
+
+			const userService = new UserService(supabase, env);
+			const viewer = await userService.getUserBySessionToken(sessionToken);
+			viewerUsername = viewer.username;
+		}
+
+		const service = new LikeListService(supabase, env);
+		const { likers, nextCursor } = await service.listLikers(catId, viewerUsername, {
+			limit,
+			cursor,
+		});
+
+		return ok<LikeListPayload>({
+			likers,
+			next_cursor: nextCursor ? encodeLikeCursor(nextCursor) : null,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * GET /users/likes
+ * Query: username (+ optional session_token, cursor, limit)
+ * Response: CatListPayload of the cats the user liked, most recent like first
+ */
+export async function handleListUserLikesRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const username = url.searchParams.get("username");
+		const sessionToken = url.searchParams.get("session_token");
+
+		const usernameError = validateUsername(username);
+		if (usernameError) {
+			return fail(usernameError, 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(url.searchParams.get("limit"));
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeLikedCatCursor(
+			url.searchParams.get("cursor"),
+		);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		let viewerUsername: string | null = null;
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 400);
+			}
+
+			const userService = new UserService(supabase, env);
+			const viewer = await userService.getUserBySessionToken(sessionToken);
+			viewerUsername = viewer.username;
+		}
+
+		const service = new LikeListService(supabase, env);
+		const { cats, nextCursor } = await service.listLikedCats(username!, viewerUsername, {
+			limit,
+			cursor,
+		});
+
+		return ok<CatListPayload>({
+			cats,
+			next_cursor: nextCursor ? encodeLikeCursor(nextCursor) : null,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
@@ -0,0 +1,212 @@
+import type { CatResponsePayload, NearbyCat, NearbyCatListPayload } from "../models";
+import { fail, handleRouteError, ok } from "../responses";
+import { getSupabaseClient, type SupabaseClientType } from "../supabaseClient";
+import {
+	isValidUuid,
+	parseBodyFields,
+	parseCoordinate,
+	parseLimitParam,
+	validateSessionToken,
+} from "../validation";
+import { decodeNearbyCursor, type NearbyCatRow } from "../services/catGeoService";
+import { mapCatRecordsWithMetadata } from "../services/catMappingService";
+import { LostCatService } from "../services/lostCatService";
+import { UserService } from "../services/userService";
+
+/**
+ * GET /cats/lost/nearby
+ * Query: lat, lon (+ optional session_token, cursor, limit)
+ * Response: { cats: NearbyCat[]; next_cursor: string | null }
+ */
+export async function handleLostCatsNearbyRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const latitudeRaw = url.searchParams.get("lat");
+		const longitudeRaw = url.searchParams.get("lon");
+		const sessionToken = url.searchParams.get("session_token");
+
+		if (!latitudeRaw || !longitudeRaw) {
+			return fail("Missing lat or lon", 400);
+		}
+
+		const { value: latitude, error: latitudeError } = parseCoordinate(
+			latitudeRaw,
+			"latitude",
+		);
+		if (latitudeError) {
+			return fail(latitudeError, 400);
+		}
+
+		const { value: longitude, error: longitudeError } = parseCoordinate(
+			longitudeRaw,
+			"longitude",
+		);
+		if (longitudeError) {
+			return fail(longitudeError, 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(url.searchParams.get("limit"));
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeNearbyCursor(
+			url.searchParams.get("cursor"),
+		);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		let viewerUsername: string | null = null;
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 401);
+			}
+
+			const userService = new UserService(supabase, env);
+			const viewer = await userService.getUserBySessionToken(sessionToken);
+			viewerUsername = viewer.username;
+		}
+
+		const lostCatService = new LostCatService(supabase);
+		const { rows, nextCursor } = await lostCatService.findAlertsNear(
+			latitude!,
+			longitude!,
+			{ limit, cursor, sessionUsername: viewerUsername },
+		);
+
+		return ok<NearbyCatListPayload>({
+			cats: await mapNearbyRows(rows, env, supabase, viewerUsername),
+			next_cursor: nextCursor,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * GET /cats/lost/matches
+ * Query: cat_id of a lost post (+ optional session_token, cursor, limit)
+ * Response: { cats: NearbyCat[]; next_cursor: string | null }
+ */
+export async function handleLostCatMatchesRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const catId = url.searchParams.get("cat_id");
+		const sessionToken = url.searchParams.get("session_token");
+
+		if (!catId) {
+			return fail("Missing cat_id", 400);
+		}
+
+		if (!isValidUuid(catId)) {
+			return fail("Invalid cat_id", 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(url.searchParams.get("limit"));
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeNearbyCursor(
+			url.searchParams.get("cursor"),
+		);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		let viewerUsername: string | null = null;
+
+		if (sessionToken) {
+			const sessionError = validateSessionToken(sessionToken);
+			if (sessionError) {
+				return fail(sessionError, 401);
+			}
+
+			const userService = new UserService(supabase, env);
+			const viewer = await userService.getUserBySessionToken(sessionToken);
+			viewerUsername = viewer.username;
+		}
+
+		const lostCatService = new LostCatService(supabase);
+		const { rows, nextCursor } = await lostCatService.findMatches(catId, {
+			limit,
+			cursor,
+			sessionUsername: viewerUsername,
+		});
+
+		return ok<NearbyCatListPayload>({
+			cats: await mapNearbyRows(rows, env, supabase, viewerUsername),
+			next_cursor: nextCursor,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * POST /cats/reunite
+ * Body: { session_token, cat_id }
+ * Response: { cat: Cat }
+ */
+export async function handleReuniteCatRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const sessionToken = fields.session_token ?? null;
+		const catId = fields.cat_id ?? null;
+
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			const status = sessionError === "Missing session_token" ? 401 : 400;
+			return fail(sessionError, status);
+		}
+
+		if (!catId) {
+			return fail("Missing cat_id", 400);
+		}
+
+		if (!isValidUuid(catId)) {
+			return fail("Invalid cat_id", 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const userService = new UserService(supabase, env);
+		const { username } = await userService.getUserBySessionToken(sessionToken!);
+
+		const lostCatService = new LostCatService(supabase);
+		const record = await lostCatService.markReunited(catId, username);
+		const [cat] = await mapCatRecordsWithMetadata([record], env, supabase, username);
+
+		return ok<CatResponsePayload>({ cat });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+async function mapNearbyRows(
+	rows: NearbyCatRow[],
+	env: Env,
+	supabase: SupabaseClientType,
+	viewerUsername: string | null,
+): Promise<NearbyCat[]> {
+	const cats = await mapCatRecordsWithMetadata(
+		rows.map((row) => row.cat),
+		env,
+		supabase,
+		viewerUsername,
+	);
+	return cats.map((cat, index) => ({ ...cat, distance_m: rows[index].distance_m }));
+}
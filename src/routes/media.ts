@@ -0,0 +1,216 @@
+import { MEDIA_VISIBILITY_METADATA_KEY, verifyMediaSignature } from "../mediaSignature";
+import { fail, handleRouteError } from "../responses";
+import { MEDIA_ROUTE_PREFIX } from "../r2";
+
+// Only published images are served; staged uploads under `uploads/` still carry raw EXIF.
+const MEDIA_KEY_PREFIXES = ["cats/", "avatars/"];
+// Keys embed a post id or a random avatar id and are never overwritten.
+const MEDIA_CACHE_CONTROL = "public, max-age=31536000, immutable";
+const SIGNATURE_REQUIRED_MESSAGE = "Media URL must be signed";
+
+/**
+ * Streams an R2 object for `GET`/`HEAD /media/{key}`. Preconditions are
+ * resolved by R2 from the request headers (304/412) and a single byte range is
+ * answered with 206.
+ *
+ * Signed URLs (`?expires=…&signature=…`) are checked before R2 is touched, and
+ * objects marked with a non-public visibility are only served with one.
+ */
+export async function handleGetMediaRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const key = parseMediaKey(url.pathname);
+		if (!key) {
+			return fail("Media not found", 404);
+		}
+
+		const signature = await verifyMediaSignature(key, url.searchParams, env);
+		if (signature.status === "expired") {
+			return fail("Media URL has expired", 403);
+		}
+		if (signature.status === "invalid") {
+			return fail("Invalid media signature", 403);
+		}
+		const signedUntil = signature.status === "valid" ? signature.expires : null;
+
+		if (request.method === "HEAD") {
+			const object = await env.R2_BUCKET.head(key);
+			if (!object) {
+				return fail("Media not found", 404);
+			}
+			if (requiresSignature(object, signedUntil)) {
+				return fail(SIGNATURE_REQUIRED_MESSAGE, 403);
+			}
+			const headers = buildMediaHeaders(object, signedUntil);
+			const notModified = etagMatches(request.headers.get("if-none-match"), object.httpEtag);
+			return new Response(null, { status: notModified ? 304 : 200, headers });
+		}
+
+		const range = parseRangeHeader(request.headers.get("range"));
+		let object: R2Object | R2ObjectBody | null;
+		try {
+			object = await env.R2_BUCKET.get(key, {
+				onlyIf: request.headers,
+				...(range ? { range } : {}),
+			});
+		} catch (err) {
+			if (!range) {
+				throw err;
+			}
+			return await buildUnsatisfiableRangeResponse(env, key, signedUntil);
+		}
+
+		if (!object) {
+			return fail("Media not found", 404);
+		}
+
+		if (requiresSignature(object, signedUntil)) {
+			await discardBody(object);
+			return fail(SIGNATURE_REQUIRED_MESSAGE, 403);
+		}
+
+		if (range && !isRangeSatisfiable(range, object.size)) {
+			await discardBody(object);
+			return await buildUnsatisfiableRangeResponse(env, key, signedUntil);
+		}
+
+		const headers = buildMediaHeaders(object, signedUntil);
+		// R2 returns the object without a body when a precondition stops the read.
+		if (!("body" in object)) {
+			const revalidating =
+				request.headers.has("if-none-match") || request.headers.has("if-modified-since");
+			return new Response(null, { status: revalidating ? 304 : 412, headers });
+		}
+
+		if (range) {
+			const { start, end } = resolveRange(range, object.size);
+			headers.set("Content-Range", `bytes ${start}-${end}/${object.size}`);
+			headers.set("Content-Length", String(end - start + 1));
+			return new Response(object.body, { status: 206, headers });
+		}
+
+		headers.set("Content-Length", String(object.size));
+		return new Response(object.body, { status: 200, headers });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+function parseMediaKey(pathname: string): string | null {
+	const segments = pathname.slice(MEDIA_ROUTE_PREFIX.length).split("/");
+	let decoded: string[];
+	try {
+		decoded = segments.map((segment) => decodeURIComponent(segment));
+	} catch {
+		return null;
+	}
+
+	if (decoded.some((segment) => !segment || segment === "." || segment === "..")) {
+		return null;
+	}
+
+	const key = decoded.join("/");
+	return MEDIA_KEY_PREFIXES.some((prefix) => key.startsWith(prefix)) ? key : null;
+}
+
+function requiresSignature(object: R2Object, signedUntil: number | null): boolean {
+	const visibility = object.customMetadata?.[MEDIA_VISIBILITY_METADATA_KEY];
+	return signedUntil === null && visibility !== undefined && visibility !== "public";
+}
+
+async function discardBody(object: R2Object | R2ObjectBody): Promise<void> {
+	if ("body" in object) {
+		await object.body.cancel();
+	}
+}
+
+function buildMediaHeaders(object: R2Object, signedUntil: number | null): Headers {
+	const headers = new Headers();
+	object.writeHttpMetadata(headers);
+	if (!headers.has("Content-Type")) {
+		headers.set("Content-Type", "application/octet-stream");
+	}
+	headers.set("ETag", object.httpEtag);
+	// Shared caches must not keep serving a signed response after the URL expires.
+	headers.set(
+		"Cache-Control",
+		signedUntil === null
+			? MEDIA_CACHE_CONTROL
+			: `private, max-age=${Math.max(signedUntil - Math.floor(Date.now() / 1000), 0)}`,
+	);
+	headers.set("Accept-Ranges", "bytes");
+	headers.set("X-Content-Type-Options", "nosniff");
+	return headers;
+}
+
+// Multiple or malformed ranges are ignored and the whole object is sent, as RFC 9110 allows.
+function parseRangeHeader(value: string | null): R2Range | null {
+	const match = value?.trim().match(/^bytes=(\d*)-(\d*)$/);
+	if (!match || (!match[1] && !match[2])) {
+		return null;
+	}
+
+	if (!match[1]) {
+		return { suffix: Number(match[2]) };
+	}
+
+	const offset = Number(match[1]);
+	if (!match[2]) {
+		return { offset };
+	}
+
+	const end = Number(match[2]);
+	return end < offset ? null : { offset, length: end - offset + 1 };
+}
+
+function isRangeSatisfiable(range: R2Range, size: number): boolean {
+	if ("suffix" in range) {
+		return range.suffix > 0 && size > 0;
+	}
+	return (range.offset ?? 0) < size;
+}
+
+function resolveRange(range: R2Range, size: number): { start: number; end: number } {
+	if ("suffix" in range) {
+		return { start: Math.max(size - range.suffix, 0), end: size - 1 };
+	}
+
+	const start = range.offset ?? 0;
+	const end =
+		range.length === undefined ? size - 1 : Math.min(start + range.length, size) - 1;
+	return { start, end };
+}
+
+function etagMatches(ifNoneMatch: string | null, httpEtag: string): boolean {
+	if (!ifNoneMatch) {
+		return false;
+	}
+
+	const etag = httpEtag.replace(/^W\//, "");
+	return ifNoneMatch
+		.split(",")
+		.map((candidate) => candidate.trim().replace(/^W\//, ""))
+		.some((candidate) => candidate === "*" || candidate === etag);
+}
+
+async function buildUnsatisfiableRangeResponse(
+	env: Env,
+	key: string,
+	signedUntil: number | null,
+): Promise<Response> {
+	const object = await env.R2_BUCKET.head(key);
+	if (!object) {
+		return fail("Media not found", 404);
+	}
+	if (requiresSignature(object, signedUntil)) {
+		return fail(SIGNATURE_REQUIRED_MESSAGE, 403);
+	}
+
+	return new Response(null, {
+		status: 416,
+		headers: { "Content-Range": `bytes */${object.size}` },
+	});
+}
@@ -0,0 +1,488 @@
+import { assertAdminKey, authorizeRole } from "../adminAuth";
+import { HttpError } from "../errors";
+import type {
+	BodyFields,
+	ModeratedCatPayload,
+	ModeratedUser,
+	ModeratedUserPayload,
+	ModerationCasePayload,
+	ModerationQueuePayload,
+	ReportCreatePayload,
+	ReportTargetType,
+	UserProfile,
+} from "../models";
+import { fail, handleRouteError, ok } from "../responses";
+import { getSupabaseClient } from "../supabaseClient";
+import {
+	MODERATION_NOTE_MAX_LENGTH,
+	REPORT_DETAILS_MAX_LENGTH,
+	isValidUuid,
+	parseBodyFields,
+	parseLimitParam,
+	parseModerationCaseStatus,
+	parseOptionalText,
+	parseReportReason,
+	parseReportTarget,
+	parseReportTargetType,
+	parseUserRole,
+	validateSessionToken,
+	validateUserRole,
+	validateUsername,
+} from "../validation";
+import { CommentService } from "../services/commentService";
+import {
+	ModerationService,
+	decodeModerationCursor,
+	encodeModerationCursor,
+} from "../services/moderationService";
+import { UserService } from "../services/userService";
+
+/**
+ * POST /reports/create
+ * Body: { session_token, target_type: "cat"|"comment"|"user", target_id, reason, details? }
+ * Response: { report: Report }
+ */
+export async function handleCreateReportRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const sessionToken = fields.session_token ?? null;
+
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			const status = sessionError === "Missing session_token" ? 401 : 400;
+			return fail(sessionError, status);
+		}
+
+		const { targetType, targetId, error: targetError } = parseReportTarget(
+			fields.target_type,
+			fields.target_id,
+		);
+		if (targetError) {
+			return fail(targetError, 400);
+		}
+
+		const { reason, error: reasonError } = parseReportReason(fields.reason);
+		if (reasonError) {
+			return fail(reasonError, 400);
+		}
+
+		const { text: details, error: detailsError } = parseOptionalText(
+			fields.details,
+			"details",
+			REPORT_DETAILS_MAX_LENGTH,
+		);
+		if (detailsError) {
+			return fail(detailsError, 400);
+		}
+
+		if (reason === "other" && !details) {
+			return fail("details are required when reason is other", 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const userService = new UserService(supabase, env);
+		const reporter = await userService.getUserBySessionToken(sessionToken!);
+
+		const moderationService = new ModerationService(supabase, env);
+		const report = await moderationService.createReport(reporter.username, {
+			targetType: targetType!,
+			targetId: targetId!,
+			reason: reason!,
+			details,
+		});
+
+		return ok<ReportCreatePayload>({ report }, 201);
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * GET /admin/moderation/queue
+ * Query: session_token, status? (default "open"), target_type?, limit?, cursor?
+ * Response: { cases: ModerationCase[]; next_cursor: string | null }
+ */
+export async function handleModerationQueueRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const supabase = getSupabaseClient(env);
+		await authorizeModerator(
+			new UserService(supabase, env),
+			url.searchParams.get("session_token") ?? undefined,
+		);
+
+		const { status, error: statusError } = parseModerationCaseStatus(
+			url.searchParams.get("status"),
+		);
+		if (statusError) {
+			return fail(statusError, 400);
+		}
+
+		let targetType: ReportTargetType | null = null;
+		const rawTargetType = url.searchParams.get("target_type");
+		if (rawTargetType) {
+			const parsed = parseReportTargetType(rawTargetType);
+			if (parsed.error) {
+				return fail(parsed.error, 400);
+			}
+			targetType = parsed.targetType;
+		}
+
+		const { limit, error: limitError } = parseLimitParam(
+			url.searchParams.get("limit"),
+			25,
+			100,
+		);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const { cursor, error: cursorError } = decodeModerationCursor(
+			url.searchParams.get("cursor"),
+		);
+		if (cursorError) {
+			return fail(cursorError, 400);
+		}
+
+		const moderationService = new ModerationService(supabase, env);
+		const { cases, nextCursor } = await moderationService.listQueue({
+			status,
+			targetType,
+			limit,
+			cursor,
+		});
+
+		return ok<ModerationQueuePayload>({
+			cases,
+			next_cursor: nextCursor ? encodeModerationCursor(nextCursor) : null,
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * POST /admin/moderation/claim
+ * Body: { session_token, case_id }
+ * Response: { case: ModerationCaseRecord }
+ */
+export async function handleClaimModerationCaseRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const supabase = getSupabaseClient(env);
+		const moderator = await authorizeModerator(
+			new UserService(supabase, env),
+			fields.session_token,
+		);
+
+		const { caseId, error } = parseCaseId(fields.case_id);
+		if (error) {
+			return fail(error, 400);
+		}
+
+		const moderationService = new ModerationService(supabase, env);
+		const claimed = await moderationService.claimCase(caseId!, moderator.username);
+
+		return ok<ModerationCasePayload>({ case: claimed });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export function handleResolveModerationCaseRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	return handleCloseModerationCase(request, env, "resolved");
+}
+
+export function handleDismissModerationCaseRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	return handleCloseModerationCase(request, env, "dismissed");
+}
+
+/**
+ * POST /admin/moderation/resolve and /admin/moderation/dismiss
+ * Body: { session_token, case_id, note? }
+ * Response: { case: ModerationCaseRecord }
+ */
+async function handleCloseModerationCase(
+	request: Request,
+	env: Env,
+	status: "resolved" | "dismissed",
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const supabase = getSupabaseClient(env);
+		const moderator = await authorizeModerator(
+			new UserService(supabase, env),
+			fields.session_token,
+		);
+
+		const { caseId, error } = parseCaseId(fields.case_id);
+		if (error) {
+			return fail(error, 400);
+		}
+
+		const { text: note, error: noteError } = parseOptionalText(
+			fields.note,
+			"note",
+			MODERATION_NOTE_MAX_LENGTH,
+		);
+		if (noteError) {
+			return fail(noteError, 400);
+		}
+
+		const moderationService = new ModerationService(supabase, env);
+		const closed = await moderationService.closeCase(
+			caseId!,
+			moderator.username,
+			status,
+			note,
+		);
+
+		return ok<ModerationCasePayload>({ case: closed });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * POST /admin/cats/hide and /admin/cats/restore
+ * Body: { session_token, cat_id }
+ * Response: { cat_id, hidden_at }
+ */
+export function handleHideCatRequest(request: Request, env: Env): Promise<Response> {
+	return handleSetCatHidden(request, env, true);
+}
+
+export function handleRestoreCatRequest(request: Request, env: Env): Promise<Response> {
+	return handleSetCatHidden(request, env, false);
+}
+
+async function handleSetCatHidden(
+	request: Request,
+	env: Env,
+	hidden: boolean,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const catId = fields.cat_id ?? null;
+
+		const supabase = getSupabaseClient(env);
+		await authorizeModerator(new UserService(supabase, env), fields.session_token);
+
+		if (!catId) {
+			return fail("Missing cat_id", 400);
+		}
+
+		if (!isValidUuid(catId)) {
+			return fail("Invalid cat_id", 400);
+		}
+
+		const moderationService = new ModerationService(supabase, env);
+		const { hidden_at } = await moderationService.setCatHidden(catId, hidden);
+
+		return ok<ModeratedCatPayload>({ cat_id: catId, hidden_at });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * POST /admin/comments/delete
+ * Body: { session_token, comment_id }
+ * Response: { status: "deleted" }
+ */
+export async function handleModeratorDeleteCommentRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const commentId = fields.comment_id ?? null;
+
+		const supabase = getSupabaseClient(env);
+		await authorizeModerator(new UserService(supabase, env), fields.session_token);
+
+		if (!commentId) {
+			return fail("Missing comment_id", 400);
+		}
+
+		if (!isValidUuid(commentId)) {
+			return fail("Invalid comment_id", 400);
+		}
+
+		const commentService = new CommentService(supabase, env);
+		await commentService.deleteAnyComment(commentId);
+
+		return ok({ status: "deleted" });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * POST /admin/users/suspend
+ * Body: { session_token, username, reason? }
+ * Response: { user: ModeratedUser }
+ */
+export async function handleSuspendUserRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+
+		const { text: reason, error: reasonError } = parseOptionalText(
+			fields.reason,
+			"reason",
+			MODERATION_NOTE_MAX_LENGTH,
+		);
+		if (reasonError) {
+			return fail(reasonError, 400);
+		}
+
+		const userService = new UserService(getSupabaseClient(env), env);
+		const target = await loadModeratableUser(userService, fields);
+		const user = await userService.suspendUser(target.username, reason);
+
+		return ok<ModeratedUserPayload>({ user });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * POST /admin/users/unsuspend
+ * Body: { session_token, username }
+ * Response: { user: ModeratedUser }
+ */
+export async function handleUnsuspendUserRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+
+		const userService = new UserService(getSupabaseClient(env), env);
+		const target = await loadModeratableUser(userService, fields);
+		const user = await userService.unsuspendUser(target.username);
+
+		return ok<ModeratedUserPayload>({ user });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * POST /admin/users/logout
+ * Body: { session_token, username }
+ * Response: { status: "logged_out" }
+ */
+export async function handleForceLogoutRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+
+		const userService = new UserService(getSupabaseClient(env), env);
+		const target = await loadModeratableUser(userService, fields);
+		await userService.revokeSession(target.username);
+
+		return ok({ status: "logged_out" });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * POST /admin/users/setRole
+ * Requires the X-Admin-Key header rather than a session, so the first admin
+ * can be appointed.
+ * Body: { username, role: "user"|"moderator"|"admin" }
+ * Response: { user: ModeratedUser }
+ */
+export async function handleSetUserRoleRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		assertAdminKey(request, env);
+
+		const fields = await parseBodyFields(request);
+		const username = fields.username ?? null;
+
+		const usernameError = validateUsername(username);
+		if (usernameError) {
+			return fail(usernameError, 400);
+		}
+
+		const { role, error: roleError } = parseUserRole(fields.role);
+		if (roleError) {
+			return fail(roleError, 400);
+		}
+
+		const userService = new UserService(getSupabaseClient(env), env);
+		const user = await userService.setRole(username!, role!);
+
+		return ok<ModeratedUserPayload>({ user });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+function authorizeModerator(
+	userService: UserService,
+	sessionToken: string | undefined,
+): Promise<UserProfile> {
+	return authorizeRole(userService, sessionToken, "moderator");
+}
+
+// Moderators can act on regular users, and admins on moderators too; nobody can act on themselves.
+async function loadModeratableUser(
+	userService: UserService,
+	fields: BodyFields,
+): Promise<ModeratedUser> {
+	const actor = await authorizeModerator(userService, fields.session_token);
+
+	const username = fields.username ?? null;
+	const usernameError = validateUsername(username);
+	if (usernameError) {
+		throw new HttpError(usernameError, 400);
+	}
+
+	const target = await userService.getModeratedUser(username!);
+	if (!validateUserRole(target.role, actor.role)) {
+		throw new HttpError("Cannot moderate a user with the same or a higher role", 403);
+	}
+
+	return target;
+}
+
+function parseCaseId(rawCaseId: string | undefined): {
+	caseId: string | null;
+	error: string | null;
+} {
+	if (!rawCaseId) {
+		return { caseId: null, error: "Missing case_id" };
+	}
+
+	if (!isValidUuid(rawCaseId)) {
+		return { caseId: null, error: "Invalid case_id" };
+	}
+
+	return { caseId: rawCaseId, error: null };
+}
@@ -0,0 +1,257 @@
+import type { OEmbedPayload, ShareCard, ShareTargetType } from "../models";
+import { fail, handleRouteError, ok } from "../responses";
+import { getSupabaseClient } from "../supabaseClient";
+import { isValidUuid } from "../validation";
+import { ShareService } from "../services/shareService";
+
+export const SHARE_PATH_PREFIXES: Record<ShareTargetType, string> = {
+	cat: "/share/cat/",
+	collection: "/share/collection/",
+};
+
+const PROVIDER_NAME = "Pawparazzi";
+const APP_LINK_BASE_DEFAULT = "pawparazzi://";
+// Short, so hidden posts stop showing in previews soon after moderation.
+const SHARE_CACHE_SECONDS = 300;
+const NOT_FOUND_MESSAGES: Record<ShareTargetType, string> = {
+	cat: "Cat not found",
+	collection: "Collection not found",
+};
+
+type EnvWithAppLink = Env & {
+	APP_LINK_BASE_URL?: string;
+};
+
+/**
+ * GET /share/cat/{id}
+ * Response: HTML page with OpenGraph tags and a link into the app.
+ */
+export function handleShareCatRequest(request: Request, env: Env): Promise<Response> {
+	return handleSharePage(request, env, "cat");
+}
+
+/**
+ * GET /share/collection/{id}
+ * Response: HTML page with OpenGraph tags and a link into the app.
+ */
+export function handleShareCollectionRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	return handleSharePage(request, env, "collection");
+}
+
+/**
+ * GET /oembed
+ * Query: url (a share page URL), format? ("json"), maxwidth?, maxheight?
+ * Response: oEmbed 1.0 fields
+ */
+export async function handleOEmbedRequest(request: Request, env: Env): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const rawTarget = url.searchParams.get("url");
+		const format = url.searchParams.get("format");
+
+		if (!rawTarget) {
+			return fail("Missing url", 400);
+		}
+
+		// The oEmbed spec asks for 501 when a format cannot be served.
+		if (format && format !== "json") {
+			return fail("Only format=json is supported", 501);
+		}
+
+		const maxWidth = parseMaxDimension(url.searchParams.get("maxwidth"));
+		const maxHeight = parseMaxDimension(url.searchParams.get("maxheight"));
+		if (Number.isNaN(maxWidth) || Number.isNaN(maxHeight)) {
+			return fail("Invalid maxwidth or maxheight", 400);
+		}
+
+		let target: URL;
+		try {
+			target = new URL(rawTarget);
+		} catch {
+			return fail("Invalid url", 400);
+		}
+
+		const share = matchSharePath(target.pathname);
+		if (!share) {
+			return fail("Unsupported url", 404);
+		}
+
+		const card = await loadCard(env, share.type, share.id);
+		const payload: OEmbedPayload = {
+			version: "1.0",
+			type: "link",
+			title: card.title,
+			author_name: card.author_name,
+			provider_name: PROVIDER_NAME,
+			provider_url: url.origin,
+			cache_age: SHARE_CACHE_SECONDS,
+		};
+
+		const { image } = card;
+		if (image?.width && image.height) {
+			const size = fitWithin(image.width, image.height, maxWidth, maxHeight);
+			const imageUrl = new URL(image.url, url.origin).toString();
+			if (card.type === "cat") {
+				payload.type = "photo";
+				payload.url = imageUrl;
+				payload.width = size.width;
+				payload.height = size.height;
+			}
+			payload.thumbnail_url = imageUrl;
+			payload.thumbnail_width = size.width;
+			payload.thumbnail_height = size.height;
+		}
+
+		return ok<OEmbedPayload>(payload);
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+async function handleSharePage(
+	request: Request,
+	env: Env,
+	type: ShareTargetType,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const share = matchSharePath(url.pathname);
+		if (!share || share.type !== type) {
+			return fail(NOT_FOUND_MESSAGES[type], 404);
+		}
+
+		const card = await loadCard(env, type, share.id);
+		const html = renderSharePage(card, {
+			pageUrl: `${url.origin}${url.pathname}`,
+			origin: url.origin,
+			appLink: buildAppLink(env, card),
+		});
+
+		return new Response(html, {
+			headers: {
+				"Content-Type": "text/html; charset=utf-8",
+				"Cache-Control": `public, max-age=${SHARE_CACHE_SECONDS}`,
+			},
+		});
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+function loadCard(env: Env, type: ShareTargetType, id: string): Promise<ShareCard> {
+	const shareService = new ShareService(getSupabaseClient(env), env);
+	return type === "cat"
+		? shareService.getCatCard(id)
+		: shareService.getCollectionCard(id);
+}
+
+function matchSharePath(pathname: string): { type: ShareTargetType; id: string } | null {
+	for (const [type, prefix] of Object.entries(SHARE_PATH_PREFIXES)) {
+		if (pathname.startsWith(prefix)) {
+			const id = pathname.slice(prefix.length).replace(/\/$/, "");
+			return isValidUuid(id) ? { type: type as ShareTargetType, id } : null;
+		}
+	}
+	return null;
+}
+
+// `APP_LINK_BASE_URL` may be a custom scheme (the default) or an https universal-link base.
+function buildAppLink(env: Env, card: ShareCard): string {
+	const base = (env as EnvWithAppLink).APP_LINK_BASE_URL?.trim() || APP_LINK_BASE_DEFAULT;
+	const separator = base.endsWith("/") ? "" : "/";
+	return `${base}${separator}${card.type}/${card.id}`;
+}
+
+function renderSharePage(
+	card: ShareCard,
+	links: { pageUrl: string; origin: string; appLink: string },
+): string {
+	const image = card.image;
+	const imageUrl = image ? new URL(image.url, links.origin).toString() : null;
+	const oembedUrl = `${links.origin}/oembed?${new URLSearchParams({ url: links.pageUrl, format: "json" })}`;
+
+	const meta = [
+		`<meta name="description" content="${escapeHtml(card.description)}">`,
+		`<meta property="og:site_name" content="${PROVIDER_NAME}">`,
+		`<meta property="og:type" content="website">`,
+		`<meta property="og:title" content="${escapeHtml(card.title)}">`,
+		`<meta property="og:description" content="${escapeHtml(card.description)}">`,
+		`<meta property="og:url" content="${escapeHtml(links.pageUrl)}">`,
+		`<meta property="al:ios:url" content="${escapeHtml(links.appLink)}">`,
+		`<meta property="al:android:url" content="${escapeHtml(links.appLink)}">`,
+		`<meta name="twitter:card" content="${imageUrl ? "summary_large_image" : "summary"}">`,
+	];
+	if (imageUrl) {
+		meta.push(`<meta property="og:image" content="${escapeHtml(imageUrl)}">`);
+		if (image?.width && image.height) {
+			meta.push(`<meta property="og:image:width" content="${image.width}">`);
+			meta.push(`<meta property="og:image:height" content="${image.height}">`);
+		}
+	}
+
+	const imageTag =
+		imageUrl && image
+			? `<img src="${escapeHtml(imageUrl)}" alt="${escapeHtml(card.title)}"${
+					image.width && image.height
+						? ` width="${image.width}" height="${image.height}"`
+						: ""
+				}${image.placeholder ? ` style="background:${image.placeholder}"` : ""}>`
+			: "";
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(card.title)} · ${PROVIDER_NAME}</title>
+${meta.join("\n")}
+<link rel="canonical" href="${escapeHtml(links.pageUrl)}">
+<link rel="alternate" type="application/json+oembed" href="${escapeHtml(oembedUrl)}" title="${escapeHtml(card.title)}">
+<style>body{font-family:system-ui,sans-serif;margin:0 auto;max-width:40rem;padding:1rem}img{max-width:100%;height:auto;border-radius:.5rem}</style>
+</head>
+<body>
+<main>
+${imageTag}
+<h1>${escapeHtml(card.title)}</h1>
+<p>${escapeHtml(card.description)}</p>
+<p><a href="${escapeHtml(links.appLink)}">Open in ${PROVIDER_NAME}</a></p>
+</main>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+// Returns Infinity when unset and NaN when invalid.
+function parseMaxDimension(raw: string | null): number {
+	if (!raw) {
+		return Number.POSITIVE_INFINITY;
+	}
+
+	const parsed = Number(raw);
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : Number.NaN;
+}
+
+function fitWithin(
+	width: number,
+	height: number,
+	maxWidth: number,
+	maxHeight: number,
+): { width: number; height: number } {
+	const scale = Math.min(1, maxWidth / width, maxHeight / height);
+	return {
+		width: Math.max(1, Math.round(width * scale)),
+		height: Math.max(1, Math.round(height * scale)),
+	};
+}
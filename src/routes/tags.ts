@@ -0,0 +1,182 @@
+import { authorizeRole } from "../adminAuth";
+import type { TagAlias, TagSuggestPayload, TrendingTagsPayload } from "../models";
+import { fail, handleRouteError, ok } from "../responses";
+import { getSupabaseClient } from "../supabaseClient";
+import { TagAliasService } from "../services/tagAliasService";
+import { TagService } from "../services/tagService";
+import { UserService } from "../services/userService";
+import {
+	CAT_TAG_MAX_LENGTH,
+	normalizeTag,
+	parseBodyFields,
+	parseLimitParam,
+	parseTrendingWindow,
+	validateTag,
+} from "../validation";
+
+export async function handleSuggestTagsRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const prefix = normalizeTag(url.searchParams.get("prefix") ?? "");
+		const rawLimit = url.searchParams.get("limit");
+
+		if (!prefix) {
+			return fail("Missing prefix", 400);
+		}
+
+		if (prefix.length > CAT_TAG_MAX_LENGTH) {
+			return fail(`prefix must be <= ${CAT_TAG_MAX_LENGTH} characters`, 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(rawLimit, 10, 25);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const tagService = new TagService(supabase);
+		const tags = await tagService.suggestTags(prefix, limit);
+
+		return ok<TagSuggestPayload>({ tags });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * Scheduled refresh of the tag counts used by `/tags/suggest` (see the cron
+ * trigger in wrangler.jsonc).
+ */
+export async function handleTagCountsRefresh(env: Env): Promise<void> {
+	const supabase = getSupabaseClient(env);
+	const tagService = new TagService(supabase);
+	await tagService.refreshTagCounts();
+}
+
+export async function handleTrendingTagsRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const rawWindow = url.searchParams.get("window");
+		const rawLimit = url.searchParams.get("limit");
+
+		const { window, error: windowError } = parseTrendingWindow(rawWindow);
+		if (windowError) {
+			return fail(windowError, 400);
+		}
+
+		const { limit, error: limitError } = parseLimitParam(rawLimit, 10, 25);
+		if (limitError) {
+			return fail(limitError, 400);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const tagService = new TagService(supabase);
+		const tags = await tagService.trendingTags(window, limit);
+
+		return ok<TrendingTagsPayload>({ window, tags });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export async function handleListTagAliasesRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const supabase = getSupabaseClient(env);
+		await authorizeRole(
+			new UserService(supabase, env),
+			url.searchParams.get("session_token") ?? undefined,
+			"admin",
+		);
+
+		const aliasService = new TagAliasService(supabase);
+		const aliases = await aliasService.listAliases();
+
+		return ok<{ aliases: TagAlias[] }>({ aliases });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export async function handleSetTagAliasRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const supabase = getSupabaseClient(env);
+		await authorizeRole(new UserService(supabase, env), fields.session_token, "admin");
+
+		const alias = normalizeTag(fields.alias ?? "");
+		const canonicalTag = normalizeTag(fields.canonical_tag ?? "");
+
+		const aliasError = validateTag(alias, "alias");
+		if (aliasError) {
+			return fail(aliasError, 400);
+		}
+
+		const canonicalError = validateTag(canonicalTag, "canonical_tag");
+		if (canonicalError) {
+			return fail(canonicalError, 400);
+		}
+
+		const aliasService = new TagAliasService(supabase);
+		const saved = await aliasService.setAlias(alias, canonicalTag);
+
+		return ok<{ alias: TagAlias }>({ alias: saved });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export async function handleDeleteTagAliasRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const supabase = getSupabaseClient(env);
+		await authorizeRole(new UserService(supabase, env), fields.session_token, "admin");
+
+		const alias = normalizeTag(fields.alias ?? "");
+
+		const aliasError = validateTag(alias, "alias");
+		if (aliasError) {
+			return fail(aliasError, 400);
+		}
+
+		const aliasService = new TagAliasService(supabase);
+		await aliasService.deleteAlias(alias);
+
+		return ok({ status: "deleted" });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
+
+export async function handleBackfillTagAliasesRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const supabase = getSupabaseClient(env);
+		await authorizeRole(new UserService(supabase, env), fields.session_token, "admin");
+
+		const aliasService = new TagAliasService(supabase);
+		const updatedCats = await aliasService.backfillCanonicalTags();
+
+		return ok<{ updated_cats: number }>({ updated_cats: updatedCats });
+	} catch (err) {
+		return handleRouteError(err);
+	}
+}
@@ -0,0 +1,127 @@
+import { AuthError } from "../errors";
+import type { UploadInitPayload, UploadStatusPayload } from "../models";
+import { fail, handleRouteError, ok } from "../responses";
+import { getSupabaseClient } from "../supabaseClient";
+import { UploadService } from "../services/uploadService";
+import { UserService } from "../services/userService";
+import {
+	CAT_IMAGE_MAX_BYTES,
+	isValidUuid,
+	parseBodyFields,
+	validateSessionToken,
+} from "../validation";
+
+export async function handleInitUploadRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const fields = await parseBodyFields(request);
+		const sessionToken = fields.session_token ?? null;
+
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			return fail(sessionError, 401);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const userService = new UserService(supabase, env);
+		const { username } = await userService.getUserBySessionToken(sessionToken!);
+
+		const uploadService = new UploadService(supabase, env);
+		const record = await uploadService.initUpload(username);
+
+		return ok<UploadInitPayload>(
+			{
+				upload_id: record.id,
+				upload_url: `/uploads/${record.id}`,
+				max_bytes: CAT_IMAGE_MAX_BYTES,
+				expires_at: record.expires_at,
+			},
+			201,
+		);
+	} catch (err) {
+		if (err instanceof AuthError) {
+			return fail(err.message, err.status);
+		}
+		return handleRouteError(err);
+	}
+}
+
+export async function handlePutUploadRequest(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const uploadId = url.pathname.slice("/uploads/".length);
+
+		// The body is raw bytes, so the owner's session token travels in a header.
+		const sessionToken = readBearerToken(request);
+		const sessionError = validateSessionToken(sessionToken);
+		if (sessionError) {
+			return fail(sessionError, 401);
+		}
+
+		if (!isValidUuid(uploadId)) {
+			return fail("Invalid upload_id", 400);
+		}
+
+		const rawLength = request.headers.get("content-length");
+		const byteLength = rawLength ? Number.parseInt(rawLength, 10) : Number.NaN;
+		if (!Number.isInteger(byteLength) || byteLength < 0) {
+			return fail("Missing Content-Length", 411);
+		}
+
+		if (byteLength === 0 || !request.body) {
+			return fail("Upload body is empty", 400);
+		}
+
+		if (byteLength > CAT_IMAGE_MAX_BYTES) {
+			return fail(
+				`Upload exceeds ${CAT_IMAGE_MAX_BYTES / (1024 * 1024)}MB limit`,
+				413,
+			);
+		}
+
+		const supabase = getSupabaseClient(env);
+		const userService = new UserService(supabase, env);
+		const { username } = await userService.getUserBySessionToken(sessionToken!);
+
+		const uploadService = new UploadService(supabase, env);
+		const record = await uploadService.storeUploadBody(
+			uploadId,
+			username,
+			request.body,
+			byteLength,
+			request.headers.get("content-type"),
+		);
+
+		return ok<UploadStatusPayload>({
+			upload_id: record.id,
+			status: record.status,
+			byte_length: byteLength,
+		});
+	} catch (err) {
+		if (err instanceof AuthError) {
+			return fail(err.message, err.status);
+		}
+		return handleRouteError(err);
+	}
+}
+
+/**
+ * Scheduled cleanup of expired two-phase uploads (see the cron trigger in
+ * wrangler.jsonc).
+ */
+export async function handleExpiredUploadsCleanup(env: Env): Promise<void> {
+	const supabase = getSupabaseClient(env);
+	const uploadService = new UploadService(supabase, env);
+	await uploadService.purgeExpiredUploads();
+}
+
+function readBearerToken(request: Request): string | null {
+	const header = request.headers.get("authorization");
+	const match = header?.match(/^Bearer\s+(\S+)$/i);
+	return match ? match[1] : null;
+}
@@ -8,6 +8,11 @@ import {
 	normalizeEmail,
 	parseBase64Image,
 	parseBodyFields,
+	parseBodyFieldsWithArrays,
+	parseDeclaredImageType,
+	parseImageBytes,
+	parseLikesVisibility,
+	parseLocationPrecision,
 	validateSessionToken,
 	validateUsername,
 } from "../validation";
@@ -204,6 +209,18 @@ export async function handleUpdateUserRequest(
 			return fail("Missing session_token", 401);
 		}
 
+		const { precision: locationPrecision, error: precisionError } =
+			parseLocationPrecision(fields.location_precision);
+		if (precisionError) {
+			return fail(precisionError, 400);
+		}
+
+		const { visibility: likesVisibility, error: likesVisibilityError } =
+			parseLikesVisibility(fields.likes_visibility);
+		if (likesVisibilityError) {
+			return fail(likesVisibilityError, 400);
+		}
+
 		const supabase = getSupabaseClient(env);
 		const service = new UserService(supabase, env);
 
@@ -211,6 +228,8 @@ export async function handleUpdateUserRequest(
 			sessionToken,
 			bio,
 			location,
+			locationPrecision ?? undefined,
+			likesVisibility ?? undefined,
 		);
 
 		// Return updated user for convenience, but keep structure similar
@@ -270,19 +289,27 @@ export async function handleChangeAvatarRequest(
 	env: Env,
 ): Promise<Response> {
 	try {
-		const fields = await parseBodyFields(request);
+		const { fields, files } = await parseBodyFieldsWithArrays(request);
 		const sessionToken = fields.session_token ?? null;
 		const avatarBase64 = fields.avatar_base64 ?? null;
+		const avatarFile = files.avatar?.[0] ?? null;
 
 		const sessionError = validateSessionToken(sessionToken);
 		if (sessionError) {
 			return fail(sessionError, 401);
 		}
 
-		const { image, error, status } = parseBase64Image(avatarBase64, {
-			fieldName: "avatar_base64",
-			maxBytes: AVATAR_IMAGE_MAX_BYTES,
-		});
+		// A multipart `avatar` file part takes precedence over `avatar_base64`.
+		const { image, error, status } = avatarFile
+			? parseImageBytes(new Uint8Array(await avatarFile.arrayBuffer()), {
+					fieldName: "avatar",
+					maxBytes: AVATAR_IMAGE_MAX_BYTES,
+					declaredType: parseDeclaredImageType(avatarFile.type),
+				})
+			: parseBase64Image(avatarBase64, {
+					fieldName: "avatar_base64",
+					maxBytes: AVATAR_IMAGE_MAX_BYTES,
+				});
 
 		if (!image || error) {
 			return fail(error ?? "Invalid avatar_base64", status ?? 400);
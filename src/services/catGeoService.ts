@@ -0,0 +1,251 @@
+import { decodeCursorPayload, encodeCursorPayload } from "../cursors";
+import { HttpError } from "../errors";
+import type {
+	CatMapCluster,
+	CatMapSummary,
+	CatRecord,
+	MapBoundingBox,
+} from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+import { isValidUuid } from "../validation";
+import {
+	fetchLocationPrecisions,
+	mapCatRecordToMapSummary,
+} from "./catMappingService";
+
+const NEARBY_CATS_FN = "nearby_cats";
+const MAP_CLUSTERS_FN = "map_cat_clusters";
+const MAP_CLUSTER_SAMPLE_SIZE = 5;
+const MAP_CLUSTER_LIMIT = 500;
+// From this zoom level on, cells holding a single cat are returned as cat summaries.
+const MAP_DETAIL_ZOOM = 15;
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+// Geohash prefix length per map zoom level (index = zoom, 0..22).
+const ZOOM_GEOHASH_PRECISION = [
+	1, 1, 2, 2, 3, 3, 4, 4, 4, 5, 5, 6, 6, 7, 7, 7, 8, 8, 8, 9, 9, 9, 9,
+];
+
+export type NearbyCursor = {
+	distance_m: number;
+	id: string;
+};
+
+export type NearbyCatRow = {
+	cat: CatRecord;
+	distance_m: number;
+};
+
+type MapClusterRow = {
+	lon_cell: number | string;
+	lat_cell: number | string;
+	cat_count: number | string;
+	centroid_latitude: number;
+	centroid_longitude: number;
+	sample_cat_ids: string[] | null;
+};
+
+type NearbyOptions = {
+	latitude: number;
+	longitude: number;
+	radiusM: number;
+	limit: number;
+	cursor: NearbyCursor | null;
+	sessionUsername: string | null;
+};
+
+export class CatGeoService {
+	constructor(
+		private readonly supabase: SupabaseClientType,
+		private readonly env: Env,
+	) {}
+
+	async findNearby(
+		options: NearbyOptions,
+	): Promise<{ rows: NearbyCatRow[]; nextCursor: string | null }> {
+		const { data, error } = await this.supabase.rpc(NEARBY_CATS_FN, {
+			p_latitude: options.latitude,
+			p_longitude: options.longitude,
+			p_radius_m: options.radiusM,
+			p_after_distance_m: options.cursor?.distance_m ?? null,
+			p_after_id: options.cursor?.id ?? null,
+			p_limit: options.limit + 1,
+			p_viewer_username: options.sessionUsername,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to search nearby cats", 500);
+		}
+
+		const rows = ((data ?? []) as NearbyCatRow[]).map((row) => ({
+			cat: row.cat,
+			distance_m: Number(row.distance_m),
+		}));
+		const hasMore = rows.length > options.limit;
+		const visibleRows = hasMore ? rows.slice(0, options.limit) : rows;
+		const nextCursor = hasMore
+			? encodeNearbyCursor(visibleRows[visibleRows.length - 1])
+			: null;
+
+		return { rows: visibleRows, nextCursor };
+	}
+
+	async clusterViewport(
+		bbox: MapBoundingBox,
+		zoom: number,
+		sessionUsername: string | null,
+	): Promise<{ clusters: CatMapCluster[]; cats: CatMapSummary[] }> {
+		const precision = ZOOM_GEOHASH_PRECISION[zoom];
+		const lonBits = Math.ceil((precision * 5) / 2);
+		const latBits = Math.floor((precision * 5) / 2);
+
+		const { data, error } = await this.supabase.rpc(MAP_CLUSTERS_FN, {
+			p_min_latitude: bbox.min_latitude,
+			p_min_longitude: bbox.min_longitude,
+			p_max_latitude: bbox.max_latitude,
+			p_max_longitude: bbox.max_longitude,
+			p_lon_bits: lonBits,
+			p_lat_bits: latBits,
+			p_sample_size: MAP_CLUSTER_SAMPLE_SIZE,
+			p_limit: MAP_CLUSTER_LIMIT,
+			p_viewer_username: sessionUsername,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to load map clusters", 500);
+		}
+
+		const clusters: CatMapCluster[] = [];
+		const singleCatIds: string[] = [];
+
+		for (const row of (data ?? []) as MapClusterRow[]) {
+			const count = Number(row.cat_count);
+			const sampleIds = row.sample_cat_ids ?? [];
+
+			if (zoom >= MAP_DETAIL_ZOOM && count === 1 && sampleIds.length) {
+				singleCatIds.push(sampleIds[0]);
+				continue;
+			}
+
+			clusters.push({
+				geohash: encodeGeohashCell(
+					Number(row.lon_cell),
+					Number(row.lat_cell),
+					lonBits,
+					latBits,
+				),
+				count,
+				centroid: {
+					latitude: Number(row.centroid_latitude),
+					longitude: Number(row.centroid_longitude),
+				},
+				sample_cat_ids: sampleIds,
+			});
+		}
+
+		const cats = await this.fetchMapSummaries(singleCatIds, sessionUsername);
+
+		return { clusters, cats };
+	}
+
+	private async fetchMapSummaries(
+		catIds: string[],
+		sessionUsername: string | null,
+	): Promise<CatMapSummary[]> {
+		if (!catIds.length) {
+			return [];
+		}
+
+		const { data, error } = await this.supabase
+			.from("cats")
+			.select("*")
+			.in("id", catIds);
+
+		if (error) {
+			throw new HttpError("Failed to load map cats", 500);
+		}
+
+		const rows = (data ?? []) as CatRecord[];
+		const precisions = await fetchLocationPrecisions(
+			this.supabase,
+			Array.from(new Set(rows.map((row) => row.username))),
+		);
+
+		return rows.map((row) =>
+			mapCatRecordToMapSummary(
+				row,
+				this.env,
+				precisions.get(row.username) ?? "exact",
+				sessionUsername,
+			),
+		);
+	}
+}
+
+// Interleaves the cell indices (longitude first) into geohash base32, which is
+// exactly the prefix every cat in that cell shares.
+function encodeGeohashCell(
+	lonCell: number,
+	latCell: number,
+	lonBits: number,
+	latBits: number,
+): string {
+	let hash = "";
+	let chunk = 0;
+	let chunkBits = 0;
+	let lonRemaining = lonBits;
+	let latRemaining = latBits;
+
+	for (let i = 0; i < lonBits + latBits; i += 1) {
+		let bit: number;
+		if (i % 2 === 0) {
+			lonRemaining -= 1;
+			bit = Math.floor(lonCell / 2 ** lonRemaining) % 2;
+		} else {
+			latRemaining -= 1;
+			bit = Math.floor(latCell / 2 ** latRemaining) % 2;
+		}
+
+		chunk = chunk * 2 + bit;
+		chunkBits += 1;
+		if (chunkBits === 5) {
+			hash += GEOHASH_ALPHABET[chunk];
+			chunk = 0;
+			chunkBits = 0;
+		}
+	}
+
+	return hash;
+}
+
+export function encodeNearbyCursor(row: NearbyCatRow): string {
+	return encodeCursorPayload({
+		distance_m: row.distance_m,
+		id: row.cat.id,
+	});
+}
+
+export function decodeNearbyCursor(
+	rawCursor: string | null,
+): { cursor: NearbyCursor | null; error: string | null } {
+	if (!rawCursor) {
+		return { cursor: null, error: null };
+	}
+
+	try {
+		const parsed = decodeCursorPayload(rawCursor) as Partial<NearbyCursor>;
+		if (
+			typeof parsed.distance_m === "number" &&
+			Number.isFinite(parsed.distance_m) &&
+			typeof parsed.id === "string" &&
+			isValidUuid(parsed.id)
+		) {
+			return {
+				cursor: { distance_m: parsed.distance_m, id: parsed.id },
+				error: null,
+			};
+		}
+		return { cursor: null, error: "Invalid cursor" };
+	} catch {
+		return { cursor: null, error: "Invalid cursor" };
+	}
+}
@@ -0,0 +1,234 @@
+import { HttpError } from "../errors";
+import type {
+	CatIdentityRow,
+	CatRecord,
+	CatTrailPoint,
+	LocationPrecision,
+} from "../models";
+import { applyLocationPrecision } from "../locationPrivacy";
+import { buildCursorClause, type CursorPayload } from "../cursors";
+import type { SupabaseClientType } from "../supabaseClient";
+import { fetchLocationPrecisions } from "./catMappingService";
+
+const CREATE_IDENTITY_FN = "create_cat_identity";
+const LINK_CAT_FN = "link_cat_to_identity";
+const UNLINK_CAT_FN = "unlink_cat_from_identity";
+const TRAIL_MAX_POINTS = 200;
+
+type TrailRow = Pick<
+	CatRecord,
+	"id" | "username" | "location_latitude" | "location_longitude"
+> & { seen_at: string };
+
+export class CatIdentityService {
+	constructor(private readonly supabase: SupabaseClientType) {}
+
+	async createIdentity(params: {
+		name: string;
+		description: string | null;
+		catId: string;
+		username: string;
+	}): Promise<CatIdentityRow> {
+		await this.assertCatOwner(params.catId, params.username);
+
+		const { data, error } = await this.supabase.rpc(CREATE_IDENTITY_FN, {
+			p_id: crypto.randomUUID(),
+			p_name: params.name.trim(),
+			p_description: params.description,
+			p_cat_id: params.catId,
+			p_username: params.username,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to create cat identity", 500);
+		}
+
+		const record = this.unwrapSingleRow<CatIdentityRow>(data);
+		if (!record) {
+			throw new HttpError("Cat not found", 404);
+		}
+
+		return record;
+	}
+
+	async getIdentityById(identityId: string): Promise<CatIdentityRow> {
+		const { data, error } = await this.supabase
+			.from("cat_identities")
+			.select("*")
+			.eq("id", identityId)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load cat identity", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("Cat identity not found", 404);
+		}
+
+		return data as CatIdentityRow;
+	}
+
+	async linkCat(
+		identityId: string,
+		catId: string,
+		username: string,
+	): Promise<number> {
+		await this.getIdentityById(identityId);
+		await this.assertCatOwner(catId, username);
+
+		const { data, error } = await this.supabase.rpc(LINK_CAT_FN, {
+			p_identity_id: identityId,
+			p_cat_id: catId,
+			p_username: username,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to link cat to identity", 500);
+		}
+
+		const count = this.unwrapSingleRow<number>(data);
+		if (count === null || count === undefined) {
+			throw new HttpError("Cat identity not found", 404);
+		}
+
+		return Number(count);
+	}
+
+	async unlinkCat(
+		catId: string,
+		username: string,
+	): Promise<{ identityId: string; sightingCount: number }> {
+		const cat = await this.assertCatOwner(catId, username);
+		if (!cat.identity_id) {
+			throw new HttpError("Cat is not linked to an identity", 404);
+		}
+
+		const { data, error } = await this.supabase.rpc(UNLINK_CAT_FN, {
+			p_cat_id: catId,
+			p_username: username,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to unlink cat from identity", 500);
+		}
+
+		const count = this.unwrapSingleRow<number>(data);
+
+		return { identityId: cat.identity_id, sightingCount: Number(count ?? 0) };
+	}
+
+	async listSightings(
+		identityId: string,
+		options: { limit: number; cursor: CursorPayload | null },
+	): Promise<CatRecord[]> {
+		let query = this.supabase
+			.from("cats")
+			.select("*")
+			.eq("identity_id", identityId)
+			.is("hidden_at", null)
+			.order("created_at", { ascending: false })
+			.order("id", { ascending: false })
+			.limit(options.limit);
+
+		if (options.cursor) {
+			query = query.or(buildCursorClause(options.cursor));
+		}
+
+		const { data, error } = await query;
+
+		if (error) {
+			throw new HttpError("Failed to load sightings", 500);
+		}
+
+		return (data ?? []) as CatRecord[];
+	}
+
+	/**
+	 * Returns the most recent located sightings in the order the cat was seen
+	 * (spotted_at, falling back to created_at), with each poster's location
+	 * precision applied. Hidden locations and hidden cats are left out.
+	 */
+	async listTrail(
+		identityId: string,
+		sessionUsername: string | null,
+	): Promise<CatTrailPoint[]> {
+		const { data, error } = await this.supabase
+			.from("cats")
+			.select("id,username,seen_at,location_latitude,location_longitude")
+			.eq("identity_id", identityId)
+			.is("hidden_at", null)
+			.not("location_latitude", "is", null)
+			.not("location_longitude", "is", null)
+			.order("seen_at", { ascending: false })
+			.order("id", { ascending: false })
+			.limit(TRAIL_MAX_POINTS);
+
+		if (error) {
+			throw new HttpError("Failed to load location trail", 500);
+		}
+
+		const rows = (data ?? []) as TrailRow[];
+		const precisions = await fetchLocationPrecisions(
+			this.supabase,
+			Array.from(new Set(rows.map((row) => row.username))),
+		);
+
+		const points: CatTrailPoint[] = [];
+		for (const row of rows.reverse()) {
+			const precision: LocationPrecision =
+				precisions.get(row.username) ?? "exact";
+			const location = applyLocationPrecision(
+				{
+					latitude: row.location_latitude,
+					longitude: row.location_longitude,
+				},
+				precision,
+				row.username === sessionUsername,
+			);
+			if (location.latitude === null || location.longitude === null) {
+				continue;
+			}
+			points.push({
+				cat_id: row.id,
+				latitude: location.latitude,
+				longitude: location.longitude,
+				spotted_at: row.seen_at,
+			});
+		}
+
+		return points;
+	}
+
+	private async assertCatOwner(
+		catId: string,
+		username: string,
+	): Promise<Pick<CatRecord, "id" | "username" | "identity_id">> {
+		const { data, error } = await this.supabase
+			.from("cats")
+			.select("id,username,identity_id")
+			.eq("id", catId)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to lookup cat", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("Cat not found", 404);
+		}
+
+		if (data.username !== username) {
+			throw new HttpError("Cannot change another user's cat", 403);
+		}
+
+		return data as Pick<CatRecord, "id" | "username" | "identity_id">;
+	}
+
+	private unwrapSingleRow<T>(rowOrRows: T | T[] | null): T | null {
+		if (Array.isArray(rowOrRows)) {
+			return rowOrRows[0] ?? null;
+		}
+		return rowOrRows;
+	}
+}
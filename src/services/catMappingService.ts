@@ -1,7 +1,21 @@
 import { HttpError } from "../errors";
-import type { Cat, CatRecord, GuestUser } from "../models";
+import type {
+	Cat,
+	CatIdentityRow,
+	CatIdentitySummary,
+	CatImageRecord,
+	CatMapSummary,
+	CatReaction,
+	CatReactionCounts,
+	CatRecord,
+	GuestUser,
+	ImageInfo,
+	LocationPrecision,
+} from "../models";
+import { applyLocationPrecision } from "../locationPrivacy";
 import { buildPublicR2Url } from "../r2";
 import type { SupabaseClientType } from "../supabaseClient";
+import { CAT_REACTIONS, LOST_ALERT_RADIUS_DEFAULT_M } from "../validation";
 import { GuestService } from "./guestService";
 
 export async function mapCatRecordsWithMetadata(
@@ -18,46 +32,209 @@ export async function mapCatRecordsWithMetadata(
 	const guestService = new GuestService(supabase, env);
 	const guestMap = await guestService.fetchGuests(uniqueUsernames, sessionUsername);
 	const catIds = rows.map((row) => row.id);
-	const likedIds =
+	const reactionsByCat =
 		sessionUsername && catIds.length
-			? await fetchUserLikedCatIds(supabase, sessionUsername, catIds)
-			: new Set<string>();
+			? await fetchUserReactions(supabase, sessionUsername, catIds)
+			: new Map<string, CatReaction[]>();
+	const imagesByCat = await fetchCatImages(supabase, catIds);
+	const precisions = await fetchLocationPrecisions(supabase, uniqueUsernames);
+	const identityIds = Array.from(
+		new Set(
+			rows
+				.map((row) => row.identity_id)
+				.filter((id): id is string => typeof id === "string"),
+		),
+	);
+	const identities = await fetchCatIdentitySummaries(supabase, env, identityIds);
 
 	return rows.map((row) =>
 		mapCatRecordToApi(row, env, {
 			poster: guestMap.get(row.username) ?? buildFallbackGuest(row.username),
-			userLiked: likedIds.has(row.id),
+			userReactions: reactionsByCat.get(row.id),
+			images: imagesByCat.get(row.id),
+			locationPrecision: precisions.get(row.username),
+			identity: row.identity_id ? identities.get(row.identity_id) : undefined,
+			sessionUsername,
 		}),
 	);
 }
 
-export async function fetchUserLikedCatIds(
+export async function fetchCatIdentitySummaries(
+	supabase: SupabaseClientType,
+	env: Env,
+	identityIds: string[],
+): Promise<Map<string, CatIdentitySummary>> {
+	const summaries = new Map<string, CatIdentitySummary>();
+
+	if (!identityIds.length) {
+		return summaries;
+	}
+
+	const { data, error } = await supabase
+		.from("cat_identities")
+		.select("id,name,photo_cat_id,sighting_count")
+		.in("id", identityIds);
+
+	if (error) {
+		throw new HttpError("Failed to load cat identities", 500);
+	}
+
+	const rows = (data ?? []) as Pick<
+		CatIdentityRow,
+		"id" | "name" | "photo_cat_id" | "sighting_count"
+	>[];
+	const photoPaths = await fetchCatImagePaths(
+		supabase,
+		rows
+			.map((row) => row.photo_cat_id)
+			.filter((id): id is string => typeof id === "string"),
+	);
+
+	for (const row of rows) {
+		const photoPath = row.photo_cat_id ? photoPaths.get(row.photo_cat_id) : null;
+		summaries.set(row.id, {
+			id: row.id,
+			name: row.name,
+			photo_url: photoPath ? buildPublicR2Url(photoPath, env) : null,
+			sighting_count: Number(row.sighting_count ?? 0),
+		});
+	}
+
+	return summaries;
+}
+
+async function fetchCatImagePaths(
+	supabase: SupabaseClientType,
+	catIds: string[],
+): Promise<Map<string, string>> {
+	if (!catIds.length) {
+		return new Map<string, string>();
+	}
+
+	const { data, error } = await supabase
+		.from("cats")
+		.select("id,r2_path")
+		.in("id", catIds)
+		.is("hidden_at", null);
+
+	if (error) {
+		throw new HttpError("Failed to load cat identity photos", 500);
+	}
+
+	const rows = (data ?? []) as { id: string; r2_path: string }[];
+
+	return new Map(rows.map((row) => [row.id, row.r2_path]));
+}
+
+export async function fetchLocationPrecisions(
+	supabase: SupabaseClientType,
+	usernames: string[],
+): Promise<Map<string, LocationPrecision>> {
+	if (!usernames.length) {
+		return new Map<string, LocationPrecision>();
+	}
+
+	const { data, error } = await supabase
+		.from("users")
+		.select("username,location_precision")
+		.in("username", usernames);
+
+	if (error) {
+		throw new HttpError("Failed to load location settings", 500);
+	}
+
+	const rows = (data ?? []) as {
+		username: string;
+		location_precision: LocationPrecision | null;
+	}[];
+
+	return new Map(
+		rows.map((row) => [row.username, row.location_precision ?? "exact"]),
+	);
+}
+
+export async function fetchCatImages(
+	supabase: SupabaseClientType,
+	catIds: string[],
+): Promise<Map<string, CatImageRecord[]>> {
+	const imagesByCat = new Map<string, CatImageRecord[]>();
+
+	if (!catIds.length) {
+		return imagesByCat;
+	}
+
+	const { data, error } = await supabase
+		.from("cat_images")
+		.select("cat_id,position,r2_path,width,height,placeholder")
+		.in("cat_id", catIds)
+		.order("position", { ascending: true });
+
+	if (error) {
+		throw new HttpError("Failed to fetch cat images", 500);
+	}
+
+	for (const row of (data ?? []) as CatImageRecord[]) {
+		const images = imagesByCat.get(row.cat_id) ?? [];
+		images.push(row);
+		imagesByCat.set(row.cat_id, images);
+	}
+
+	return imagesByCat;
+}
+
+export async function fetchUserReactions(
 	supabase: SupabaseClientType,
 	username: string,
 	catIds: string[],
-): Promise<Set<string>> {
+): Promise<Map<string, CatReaction[]>> {
+	const reactionsByCat = new Map<string, CatReaction[]>();
 	if (!catIds.length) {
-		return new Set<string>();
+		return reactionsByCat;
 	}
 
 	const { data, error } = await supabase
 		.from("likes")
-		.select("cat_id")
+		.select("cat_id,reaction")
 		.eq("username", username)
 		.in("cat_id", catIds);
 
 	if (error) {
-		throw new HttpError("Failed to fetch liked cats", 500);
+		throw new HttpError("Failed to fetch cat reactions", 500);
 	}
 
-	const likedRows = (data ?? []) as { cat_id: string }[];
+	for (const row of (data ?? []) as { cat_id: string; reaction: CatReaction }[]) {
+		const reactions = reactionsByCat.get(row.cat_id) ?? [];
+		reactions.push(row.reaction);
+		reactionsByCat.set(row.cat_id, reactions);
+	}
 
-	return new Set(likedRows.map((row) => row.cat_id));
+	// Keep the order stable regardless of when each reaction was left.
+	for (const reactions of reactionsByCat.values()) {
+		reactions.sort((a, b) => CAT_REACTIONS.indexOf(a) - CAT_REACTIONS.indexOf(b));
+	}
+
+	return reactionsByCat;
+}
+
+// Fills in every allowed reaction so clients never see a missing key.
+export function normalizeReactionCounts(
+	counts: Partial<Record<CatReaction, number>> | null | undefined,
+	hearts: number,
+): CatReactionCounts {
+	const normalized = {} as CatReactionCounts;
+	for (const reaction of CAT_REACTIONS) {
+		normalized[reaction] = reaction === "heart" ? hearts : Number(counts?.[reaction] ?? 0);
+	}
+	return normalized;
 }
 
 type CatRecordExtras = {
 	poster: GuestUser;
-	userLiked?: boolean;
+	userReactions?: CatReaction[];
+	images?: CatImageRecord[];
+	locationPrecision?: LocationPrecision;
+	identity?: CatIdentitySummary;
+	sessionUsername?: string | null;
 };
 
 export function mapCatRecordToApi(
@@ -65,20 +242,82 @@ export function mapCatRecordToApi(
 	env: Env,
 	extras: CatRecordExtras,
 ): Cat {
+	const imageUrl = buildPublicR2Url(row.r2_path, env);
+	const image: ImageInfo = {
+		url: imageUrl,
+		width: row.image_width ?? null,
+		height: row.image_height ?? null,
+		placeholder: row.image_placeholder ?? null,
+	};
+	// Posts created before galleries have no cat_images rows; expose their single image instead.
+	const images: ImageInfo[] = extras.images?.length
+		? extras.images.map((entry) => ({
+				url: buildPublicR2Url(entry.r2_path, env),
+				width: entry.width,
+				height: entry.height,
+				placeholder: entry.placeholder ?? null,
+			}))
+		: [image];
+
 	return {
 		id: row.id,
 		name: row.name,
 		tags: row.tags ?? [],
 		created_at: row.created_at,
+		edited_at: row.edited_at ?? null,
+		spotted_at: row.spotted_at ?? null,
 		description: row.description,
-		location: {
-			latitude: row.location_latitude,
-			longitude: row.location_longitude,
-		},
-		image_url: buildPublicR2Url(row.r2_path, env),
+		location: applyLocationPrecision(
+			{
+				latitude: row.location_latitude,
+				longitude: row.location_longitude,
+			},
+			extras.locationPrecision ?? "exact",
+			row.username === extras.sessionUsername,
+		),
+		image_url: imageUrl,
+		image,
+		images,
 		likes: row.likes ?? 0,
+		reactions: normalizeReactionCounts(row.reaction_counts, row.likes ?? 0),
 		poster: extras.poster,
-		user_liked: extras.userLiked ?? false,
+		user_liked: extras.userReactions?.includes("heart") ?? false,
+		user_reactions: extras.userReactions ?? [],
+		identity: extras.identity ?? null,
+		post_type: row.post_type ?? "sighting",
+		post_status: row.post_status ?? null,
+		reunited_at: row.reunited_at ?? null,
+		lost:
+			row.post_type === "lost"
+				? {
+						reward: row.reward ?? null,
+						contact: row.contact ?? null,
+						alert_radius_m: row.alert_radius_m ?? LOST_ALERT_RADIUS_DEFAULT_M,
+					}
+				: null,
+	};
+}
+
+export function mapCatRecordToMapSummary(
+	row: CatRecord,
+	env: Env,
+	locationPrecision: LocationPrecision,
+	sessionUsername: string | null,
+): CatMapSummary {
+	return {
+		id: row.id,
+		name: row.name,
+		created_at: row.created_at,
+		location: applyLocationPrecision(
+			{
+				latitude: row.location_latitude,
+				longitude: row.location_longitude,
+			},
+			locationPrecision,
+			row.username === sessionUsername,
+		),
+		image_url: buildPublicR2Url(row.r2_path, env),
+		likes: row.likes ?? 0,
 	};
 }
 
@@ -88,6 +327,7 @@ export function buildFallbackGuest(username: string): GuestUser {
 		bio: null,
 		location: null,
 		avatar_url: null,
+		avatar: null,
 		post_count: 0,
 		follower_count: 0,
 		following_count: 0,
@@ -0,0 +1,82 @@
+import { HttpError } from "../errors";
+import type { CatReaction, CatReactionCounts } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+import { normalizeReactionCounts } from "./catMappingService";
+import { UserService } from "./userService";
+
+const ADD_REACTION_FN = "add_cat_reaction_with_counts";
+const REMOVE_REACTION_FN = "remove_cat_reaction_with_counts";
+
+export class CatReactionService {
+	constructor(
+		private readonly supabase: SupabaseClientType,
+		private readonly userService: UserService,
+	) {}
+
+	async addReaction(
+		sessionToken: string,
+		catId: string,
+		reaction: CatReaction,
+	): Promise<CatReactionCounts> {
+		const { username } = await this.userService.getUserBySessionToken(
+			sessionToken,
+		);
+
+		return this.executeReactionMutation({
+			functionName: ADD_REACTION_FN,
+			catId,
+			username,
+			reaction,
+			errorMessage: "Failed to add reaction",
+		});
+	}
+
+	async removeReaction(
+		sessionToken: string,
+		catId: string,
+		reaction: CatReaction,
+	): Promise<CatReactionCounts> {
+		const { username } = await this.userService.getUserBySessionToken(
+			sessionToken,
+		);
+
+		return this.executeReactionMutation({
+			functionName: REMOVE_REACTION_FN,
+			catId,
+			username,
+			reaction,
+			errorMessage: "Failed to remove reaction",
+		});
+	}
+
+	private async executeReactionMutation({
+		functionName,
+		catId,
+		username,
+		reaction,
+		errorMessage,
+	}: {
+		functionName: typeof ADD_REACTION_FN | typeof REMOVE_REACTION_FN;
+		catId: string;
+		username: string;
+		reaction: CatReaction;
+		errorMessage: string;
+	}): Promise<CatReactionCounts> {
+		const { data, error } = await this.supabase.rpc(functionName, {
+			p_cat_id: catId,
+			p_username: username,
+			p_reaction: reaction,
+		});
+
+		if (error) {
+			throw new HttpError(errorMessage, 500);
+		}
+
+		if (data === null) {
+			throw new HttpError("Cat not found", 404);
+		}
+
+		const counts = data as Partial<Record<CatReaction, number>>;
+		return normalizeReactionCounts(counts, counts.heart ?? 0);
+	}
+}
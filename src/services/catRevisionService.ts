@@ -0,0 +1,91 @@
+import { HttpError } from "../errors";
+import type { CatRecord, CatRevision, LocationPrecision } from "../models";
+import { applyLocationPrecision } from "../locationPrivacy";
+import type { SupabaseClientType } from "../supabaseClient";
+
+const UPDATE_CAT_FN = "update_cat_with_revision";
+const REVISIONS_LIMIT = 50;
+
+type UpdateCatParams = {
+	id: string;
+	username: string;
+	name: string;
+	description: string | null;
+	tags: string[] | null;
+	location_latitude: number | null;
+	location_longitude: number | null;
+};
+
+type CatRevisionRow = {
+	revision_id: string;
+	cat_id: string;
+	name: string;
+	description: string | null;
+	tags: string[] | null;
+	location_latitude: number | null;
+	location_longitude: number | null;
+	edited_at: string;
+};
+
+export class CatRevisionService {
+	constructor(private readonly supabase: SupabaseClientType) {}
+
+	async updateCatWithRevision(params: UpdateCatParams): Promise<CatRecord> {
+		const { data, error } = await this.supabase.rpc(UPDATE_CAT_FN, {
+			p_cat_id: params.id,
+			p_username: params.username,
+			p_name: params.name,
+			p_description: params.description,
+			p_tags: params.tags,
+			p_location_latitude: params.location_latitude,
+			p_location_longitude: params.location_longitude,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to update cat", 500);
+		}
+
+		const rows = (Array.isArray(data) ? data : [data]) as (CatRecord | null)[];
+		const record = rows[0] ?? null;
+		if (!record) {
+			throw new HttpError("Cat not found", 404);
+		}
+
+		return record;
+	}
+
+	async listRevisions(
+		catId: string,
+		locationPrecision: LocationPrecision,
+		isPoster: boolean,
+	): Promise<CatRevision[]> {
+		const { data, error } = await this.supabase
+			.from("cat_revisions")
+			.select(
+				"revision_id,cat_id,name,description,tags,location_latitude,location_longitude,edited_at",
+			)
+			.eq("cat_id", catId)
+			.order("edited_at", { ascending: false })
+			.limit(REVISIONS_LIMIT);
+
+		if (error) {
+			throw new HttpError("Failed to load cat revisions", 500);
+		}
+
+		return ((data ?? []) as CatRevisionRow[]).map((row) => ({
+			revision_id: row.revision_id,
+			name: row.name,
+			description: row.description,
+			tags: row.tags ?? [],
+			location: applyLocationPrecision(
+				{
+					latitude: row.location_latitude,
+					longitude: row.location_longitude,
+				},
+				locationPrecision,
+				isPoster,
+			),
+			edited_at: row.edited_at,
+		}));
+	}
+}
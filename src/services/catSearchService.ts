@@ -0,0 +1,90 @@
+import { decodeCursorPayload, encodeCursorPayload } from "../cursors";
+import { HttpError } from "../errors";
+import type { CatRecord } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+
+const SEARCH_CATS_FN = "search_cats";
+
+export type SearchCursor = {
+	rank: number;
+	created_at: string;
+	id: string;
+};
+
+type SearchCatRow = {
+	cat: CatRecord;
+	rank: number;
+};
+
+type SearchOptions = {
+	terms: string[];
+	limit: number;
+	cursor: SearchCursor | null;
+};
+
+export class CatSearchService {
+	constructor(private readonly supabase: SupabaseClientType) {}
+
+	async searchCats(
+		options: SearchOptions,
+	): Promise<{ rows: CatRecord[]; nextCursor: string | null }> {
+		const { data, error } = await this.supabase.rpc(SEARCH_CATS_FN, {
+			p_terms: options.terms,
+			p_after_rank: options.cursor?.rank ?? null,
+			p_after_created_at: options.cursor?.created_at ?? null,
+			p_after_id: options.cursor?.id ?? null,
+			p_limit: options.limit + 1,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to search cats", 500);
+		}
+
+		const rows = (data ?? []) as SearchCatRow[];
+		const hasMore = rows.length > options.limit;
+		const visibleRows = hasMore ? rows.slice(0, options.limit) : rows;
+		const nextCursor = hasMore
+			? encodeSearchCursor(visibleRows[visibleRows.length - 1])
+			: null;
+
+		return { rows: visibleRows.map((row) => row.cat), nextCursor };
+	}
+}
+
+function encodeSearchCursor(row: SearchCatRow): string {
+	return encodeCursorPayload({
+		rank: row.rank,
+		created_at: row.cat.created_at,
+		id: row.cat.id,
+	});
+}
+
+export function decodeSearchCursor(
+	rawCursor: string | null,
+): { cursor: SearchCursor | null; error: string | null } {
+	if (!rawCursor) {
+		return { cursor: null, error: null };
+	}
+
+	try {
+		const parsed = decodeCursorPayload(rawCursor) as Partial<SearchCursor>;
+		if (
+			typeof parsed.rank === "number" &&
+			Number.isFinite(parsed.rank) &&
+			typeof parsed.created_at === "string" &&
+			typeof parsed.id === "string"
+		) {
+			return {
+				cursor: {
+					rank: parsed.rank,
+					created_at: parsed.created_at,
+					id: parsed.id,
+				},
+				error: null,
+			};
+		}
+		return { cursor: null, error: "Invalid cursor" };
+	} catch {
+		return { cursor: null, error: "Invalid cursor" };
+	}
+}
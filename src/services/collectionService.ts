@@ -1,4 +1,5 @@
 
+import { decodeCursorPayload, encodeCursorPayload } from "../cursors";
 import { ConflictError, HttpError } from "../errors";
 import type { CollectionRow } from "../models";
 import type { SupabaseClientType } from "../supabaseClient";
@@ -264,11 +265,10 @@ export type CollectionListCursor = {
 };
 
 export function encodeCollectionListCursor(row: CollectionRow): string {
-	const payload = JSON.stringify({
+	return encodeCursorPayload({
 		created_at: row.created_at,
 		id: row.id,
 	});
-	return base64Encode(payload);
 }
 
 export function decodeCollectionListCursor(
@@ -279,7 +279,7 @@ export function decodeCollectionListCursor(
 	}
 
 	try {
-		const parsed = JSON.parse(base64Decode(rawCursor)) as Partial<CollectionListCursor>;
+		const parsed = decodeCursorPayload(rawCursor) as Partial<CollectionListCursor>;
 		if (typeof parsed.created_at === "string" && typeof parsed.id === "string") {
 			return { cursor: { created_at: parsed.created_at, id: parsed.id }, error: null };
 		}
@@ -291,22 +291,4 @@ export function decodeCollectionListCursor(
 
 export function buildCollectionListCursorClause(cursor: CollectionListCursor): string {
 	return `and(created_at.lt.${cursor.created_at}),and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`;
-}
-
-function base64Encode(input: string): string {
-	const utf8 = new TextEncoder().encode(input);
-	let binary = "";
-	for (const byte of utf8) {
-		binary += String.fromCharCode(byte);
-	}
-	return btoa(binary);
-}
-
-function base64Decode(encoded: string): string {
-	const binary = atob(encoded);
-	const bytes = new Uint8Array(binary.length);
-	for (let i = 0; i < binary.length; i += 1) {
-		bytes[i] = binary.charCodeAt(i);
-	}
-	return new TextDecoder().decode(bytes);
 }
\ No newline at end of file
@@ -5,6 +5,9 @@ import { buildFallbackGuest } from "./catMappingService";
 import { GuestService } from "./guestService";
 import { UserService } from "./userService";
 
+const ADD_COMMENT_FN = "add_comment_with_count";
+const DELETE_COMMENT_FN = "delete_comment_with_count";
+
 type ListOptions = {
 	page: number;
 	limit: number;
@@ -46,22 +49,24 @@ export class CommentService {
 		const guestMap = await this.guestService.fetchGuests([username], username);
 		const guest = guestMap.get(username) ?? null;
 
-		const { data, error } = await this.supabase
-			.from("comments")
-			.insert({
-				cat_id: catId,
-				username,
-				comment: trimmed,
-			})
-			.select("comment_id,cat_id,username,comment,comment_at")
-			.single();
+		const { data, error } = await this.supabase.rpc(ADD_COMMENT_FN, {
+			p_cat_id: catId,
+			p_username: username,
+			p_comment: trimmed,
+		});
 
-		if (error || !data) {
+		if (error) {
 			throw new HttpError("Failed to create comment", 500);
 		}
 
+		// The cat can be deleted between the existence check and the insert.
+		const row = ((data ?? []) as CommentRow[])[0];
+		if (!row) {
+			throw new HttpError("Cat not found", 404);
+		}
+
 		return this.mapRowToComment(
-			data as CommentRow,
+			row,
 			username,
 			username,
 			guest,
@@ -81,6 +86,7 @@ export class CommentService {
 			.from("comments")
 			.select("comment_id,cat_id,username,comment,comment_at")
 			.eq("cat_id", catId)
+			.is("hidden_at", null)
 			.order("comment_at", { ascending: false })
 			.order("comment_id", { ascending: false })
 			.range(start, end);
@@ -125,14 +131,30 @@ export class CommentService {
 			throw new HttpError("Cannot delete another user's comment", 403);
 		}
 
-		const { error: deleteError } = await this.supabase
-			.from("comments")
-			.delete()
-			.eq("comment_id", commentId);
+		await this.deleteComment(commentId, username);
+	}
+
+	// For moderators: deletes a comment regardless of who wrote it.
+	async deleteAnyComment(commentId: string): Promise<void> {
+		await this.deleteComment(commentId, null);
+	}
+
+	private async deleteComment(
+		commentId: string,
+		username: string | null,
+	): Promise<void> {
+		const { data, error } = await this.supabase.rpc(DELETE_COMMENT_FN, {
+			p_comment_id: commentId,
+			p_username: username,
+		});
 
-		if (deleteError) {
+		if (error) {
 			throw new HttpError("Failed to delete comment", 500);
 		}
+
+		if (!(data as CommentRow[] | null)?.length) {
+			throw new HttpError("Comment not found", 404);
+		}
 	}
 
 	private async mapRowsToComments(
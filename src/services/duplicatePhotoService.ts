@@ -0,0 +1,95 @@
+import { ConflictError, HttpError } from "../errors";
+import type { CatRecord, DuplicateMatch, DuplicatePhotoPolicy } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+
+const FIND_SIMILAR_FN = "find_similar_cats";
+const FIND_DUPLICATES_FN = "find_duplicate_cats";
+// dHash bits that may differ between two copies of the same photo. The band
+// index in cat_duplicates.sql only guarantees recall up to 7.
+const DUPLICATE_MAX_DISTANCE = 6;
+const DUPLICATE_CHECK_LIMIT = 5;
+const DUPLICATE_POLICIES: DuplicatePhotoPolicy[] = ["reject", "warn", "off"];
+
+type EnvWithDuplicatePolicy = Env & {
+	DUPLICATE_PHOTO_POLICY?: string;
+};
+
+type SimilarCatRow = {
+	cat: CatRecord;
+	hash_distance: number;
+};
+
+export class DuplicatePhotoService {
+	constructor(
+		private readonly supabase: SupabaseClientType,
+		private readonly env: Env,
+	) {}
+
+	/**
+	 * Looks for posts by other users with a near-identical photo, or with the
+	 * exact same bytes for photos that have no perceptual hash. Under the
+	 * `reject` policy (the default) a match is a 409; under `warn` the matches
+	 * are returned so the post can go ahead with a warning.
+	 */
+	async checkNewPhotos(
+		hashes: (string | null)[],
+		contentHashes: string[],
+		username: string,
+	): Promise<DuplicateMatch[]> {
+		const policy = readDuplicatePolicy(this.env);
+		const knownHashes = hashes.filter((hash): hash is string => hash !== null);
+		if (policy === "off" || (!knownHashes.length && !contentHashes.length)) {
+			return [];
+		}
+
+		const { data, error } = await this.supabase.rpc(FIND_SIMILAR_FN, {
+			p_hashes: knownHashes,
+			p_content_hashes: contentHashes,
+			p_max_distance: DUPLICATE_MAX_DISTANCE,
+			p_exclude_username: username,
+			p_limit: DUPLICATE_CHECK_LIMIT,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to check for duplicate photos", 500);
+		}
+
+		const matches = ((data ?? []) as SimilarCatRow[]).map((row) => ({
+			cat_id: row.cat.id,
+			hash_distance: Number(row.hash_distance),
+		}));
+
+		if (matches.length && policy === "reject") {
+			throw new ConflictError("This photo looks like a duplicate of an existing post");
+		}
+
+		return matches;
+	}
+
+	async listDuplicatesOf(
+		catId: string,
+		limit: number,
+	): Promise<{ record: CatRecord; hashDistance: number }[]> {
+		const { data, error } = await this.supabase.rpc(FIND_DUPLICATES_FN, {
+			p_cat_id: catId,
+			p_max_distance: DUPLICATE_MAX_DISTANCE,
+			p_limit: limit,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to load duplicate cats", 500);
+		}
+
+		return ((data ?? []) as SimilarCatRow[]).map((row) => ({
+			record: row.cat,
+			hashDistance: Number(row.hash_distance),
+		}));
+	}
+}
+
+function readDuplicatePolicy(env: Env): DuplicatePhotoPolicy {
+	const raw = (env as EnvWithDuplicatePolicy).DUPLICATE_PHOTO_POLICY?.trim().toLowerCase();
+	return DUPLICATE_POLICIES.includes(raw as DuplicatePhotoPolicy)
+		? (raw as DuplicatePhotoPolicy)
+		: "reject";
+}
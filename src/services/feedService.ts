@@ -0,0 +1,246 @@
+import { decodeCursorPayload, encodeCursorPayload } from "../cursors";
+import { HttpError } from "../errors";
+import type { CatRecord } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+import { isValidUuid } from "../validation";
+
+const FOLLOWING_FEED_FN = "following_feed";
+const CREATE_EXPLORE_SNAPSHOT_FN = "create_explore_snapshot";
+const EXPLORE_SNAPSHOT_PAGE_FN = "explore_snapshot_page";
+// Only recent posts are scored; older ones have decayed out of reach anyway.
+const EXPLORE_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+// A snapshot holds the first ranking pages of one explore session.
+const EXPLORE_SNAPSHOT_MAX_CATS = 500;
+const EXPLORE_SNAPSHOT_TTL_MS = 60 * 60 * 1000;
+// Anonymous viewers all get the same ranking, so one snapshot serves them for a while.
+const EXPLORE_ANONYMOUS_SNAPSHOT_REUSE_MS = 5 * 60 * 1000;
+
+type EnvWithExploreWeights = Env & {
+	EXPLORE_LIKE_WEIGHT?: string;
+	EXPLORE_COMMENT_WEIGHT?: string;
+	EXPLORE_GRAVITY?: string;
+};
+
+type ExploreWeights = {
+	likeWeight: number;
+	commentWeight: number;
+	gravity: number;
+};
+
+const DEFAULT_EXPLORE_WEIGHTS: ExploreWeights = {
+	likeWeight: 1,
+	commentWeight: 2,
+	gravity: 1.8,
+};
+
+type FeedCursor = {
+	created_at: string;
+	id: string;
+};
+
+export type ExploreCursor = {
+	snapshot_id: string;
+	position: number;
+};
+
+type ExploreCatRow = {
+	cat: CatRecord;
+	snapshot_position: number;
+};
+
+export class FeedService {
+	constructor(
+		private readonly supabase: SupabaseClientType,
+		private readonly env: Env,
+	) {}
+
+	async listFollowingFeed(
+		username: string,
+		options: { limit: number; cursor: FeedCursor | null },
+	): Promise<CatRecord[]> {
+		const { data, error } = await this.supabase.rpc(FOLLOWING_FEED_FN, {
+			p_username: username,
+			p_after_created_at: options.cursor?.created_at ?? null,
+			p_after_id: options.cursor?.id ?? null,
+			p_limit: options.limit,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to load following feed", 500);
+		}
+
+		return (data ?? []) as CatRecord[];
+	}
+
+	/**
+	 * The first page ranks the feed once and stores it as a snapshot; the
+	 * cursor then pages through that snapshot by position. Anonymous first
+	 * pages reuse a recent anonymous snapshot instead of ranking again.
+	 */
+	async listExploreFeed(
+		sessionUsername: string | null,
+		options: { limit: number; cursor: ExploreCursor | null },
+	): Promise<{ rows: CatRecord[]; nextCursor: string | null }> {
+		const snapshotId =
+			options.cursor?.snapshot_id ??
+			(sessionUsername ? null : await this.findRecentAnonymousSnapshot()) ??
+			(await this.createExploreSnapshot(sessionUsername));
+		const offset = options.cursor?.position ?? 0;
+
+		const { data, error } = await this.supabase.rpc(EXPLORE_SNAPSHOT_PAGE_FN, {
+			p_snapshot_id: snapshotId,
+			p_viewer_username: sessionUsername,
+			p_offset: offset,
+			p_limit: options.limit + 1,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to load explore feed", 500);
+		}
+
+		const rows = (data ?? []) as ExploreCatRow[];
+		if (!rows.length && options.cursor) {
+			await this.assertSnapshotExists(snapshotId, sessionUsername);
+		}
+
+		const hasMore = rows.length > options.limit;
+		const visibleRows = hasMore ? rows.slice(0, options.limit) : rows;
+		const last = visibleRows[visibleRows.length - 1];
+		const nextCursor = hasMore
+			? encodeExploreCursor({
+					snapshot_id: snapshotId,
+					position: Number(last.snapshot_position),
+				})
+			: null;
+
+		return { rows: visibleRows.map((row) => row.cat), nextCursor };
+	}
+
+	private async findRecentAnonymousSnapshot(): Promise<string | null> {
+		const { data, error } = await this.supabase
+			.from("explore_snapshots")
+			.select("id")
+			.is("viewer_username", null)
+			.gte(
+				"created_at",
+				new Date(Date.now() - EXPLORE_ANONYMOUS_SNAPSHOT_REUSE_MS).toISOString(),
+			)
+			.order("created_at", { ascending: false })
+			.limit(1)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load explore feed", 500);
+		}
+
+		return (data?.id as string | undefined) ?? null;
+	}
+
+	private async createExploreSnapshot(
+		sessionUsername: string | null,
+	): Promise<string> {
+		const weights = readExploreWeights(this.env);
+		const now = Date.now();
+
+		const { data, error } = await this.supabase.rpc(CREATE_EXPLORE_SNAPSHOT_FN, {
+			p_viewer_username: sessionUsername,
+			p_like_weight: weights.likeWeight,
+			p_comment_weight: weights.commentWeight,
+			p_gravity: weights.gravity,
+			p_as_of: new Date(now).toISOString(),
+			p_since: new Date(now - EXPLORE_MAX_AGE_MS).toISOString(),
+			p_max_cats: EXPLORE_SNAPSHOT_MAX_CATS,
+			p_expire_before: new Date(now - EXPLORE_SNAPSHOT_TTL_MS).toISOString(),
+		});
+
+		if (error || typeof data !== "string") {
+			throw new HttpError("Failed to load explore feed", 500);
+		}
+
+		return data;
+	}
+
+	// Snapshots ranked for another viewer are reported as expired too.
+	private async assertSnapshotExists(
+		snapshotId: string,
+		sessionUsername: string | null,
+	): Promise<void> {
+		let query = this.supabase
+			.from("explore_snapshots")
+			.select("id")
+			.eq("id", snapshotId);
+		if (sessionUsername) {
+			query = query.eq("viewer_username", sessionUsername);
+		} else {
+			query = query.is("viewer_username", null);
+		}
+
+		const { data, error } = await query.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load explore feed", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("Explore cursor expired", 410);
+		}
+	}
+}
+
+function readExploreWeights(env: Env): ExploreWeights {
+	const envWithWeights = env as EnvWithExploreWeights;
+	return {
+		likeWeight: parseWeight(
+			envWithWeights.EXPLORE_LIKE_WEIGHT,
+			DEFAULT_EXPLORE_WEIGHTS.likeWeight,
+		),
+		commentWeight: parseWeight(
+			envWithWeights.EXPLORE_COMMENT_WEIGHT,
+			DEFAULT_EXPLORE_WEIGHTS.commentWeight,
+		),
+		gravity: parseWeight(
+			envWithWeights.EXPLORE_GRAVITY,
+			DEFAULT_EXPLORE_WEIGHTS.gravity,
+		),
+	};
+}
+
+function parseWeight(rawValue: string | undefined, fallback: number): number {
+	if (!rawValue) {
+		return fallback;
+	}
+
+	const parsed = Number.parseFloat(rawValue);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function encodeExploreCursor(cursor: ExploreCursor): string {
+	return encodeCursorPayload(cursor);
+}
+
+export function decodeExploreCursor(
+	rawCursor: string | null,
+): { cursor: ExploreCursor | null; error: string | null } {
+	if (!rawCursor) {
+		return { cursor: null, error: null };
+	}
+
+	try {
+		const parsed = decodeCursorPayload(rawCursor) as Partial<ExploreCursor>;
+		if (
+			typeof parsed.snapshot_id === "string" &&
+			isValidUuid(parsed.snapshot_id) &&
+			typeof parsed.position === "number" &&
+			Number.isInteger(parsed.position) &&
+			parsed.position >= 0
+		) {
+			return {
+				cursor: { snapshot_id: parsed.snapshot_id, position: parsed.position },
+				error: null,
+			};
+		}
+		return { cursor: null, error: "Invalid cursor" };
+	} catch {
+		return { cursor: null, error: "Invalid cursor" };
+	}
+}
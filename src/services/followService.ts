@@ -180,6 +180,7 @@ export class FollowService {
 			bio: null,
 			location: null,
 			avatar_url: null,
+			avatar: null,
 			post_count: 0,
 			follower_count: 0,
 			following_count: 0,
@@ -2,7 +2,7 @@ import type { Collection, CollectionRow, GuestUser } from "../models";
 import { CollectionService } from "./collectionService";
 import { UserService } from "./userService";
 import type { SupabaseClientType } from "../supabaseClient";
-import { buildOptionalPublicR2Url } from "../r2";
+import { AVATAR_COLUMNS, buildAvatarImage, buildOptionalPublicR2Url } from "../r2";
 import { HttpError } from "../errors";
 
 export class GuestService {
@@ -28,7 +28,7 @@ export class GuestService {
 		const { data, error } = await this.supabase
 			.from("users")
 			.select(
-				"username,bio,location,r2_avatar,post_count,follower_count,following_count",
+				`username,bio,location,${AVATAR_COLUMNS},post_count,follower_count,following_count,hidden_at`,
 			)
 			.in("username", usernames);
 
@@ -42,11 +42,18 @@ export class GuestService {
 				: new Set<string>();
 
 		for (const row of data) {
+			// Hidden profiles are left out, so callers fall back to a bare guest
+			// or a 404; their owner still sees their own.
+			if (row.hidden_at && row.username !== sessionUsername) {
+				continue;
+			}
+
 			guestMap.set(row.username, {
 				username: row.username,
 				bio: row.bio ?? null,
 				location: row.location ?? null,
 				avatar_url: buildOptionalPublicR2Url(row.r2_avatar ?? null, this.env),
+				avatar: buildAvatarImage(row, this.env),
 				post_count: Number(row.post_count ?? 0),
 				follower_count: Number(row.follower_count ?? 0),
 				following_count: Number(row.following_count ?? 0),
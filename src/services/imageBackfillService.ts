@@ -0,0 +1,303 @@
+import { decodeCursorPayload, encodeCursorPayload } from "../cursors";
+import { HttpError } from "../errors";
+import { readImageDimensions, sniffImageType } from "../imageMetadata";
+import { computeImagePlaceholder } from "../imagePlaceholder";
+import { decodeImageThumbnail } from "../imageThumbnail";
+import { computePerceptualHash } from "../perceptualHash";
+import type { CatImageRecord, CatRecord } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+
+type CatBackfillCursor = {
+	created_at: string;
+	id: string;
+};
+
+type CatImageBackfillCursor = {
+	cat_id: string;
+	position: number;
+};
+
+type StoredImageInfo = {
+	width: number | null;
+	height: number | null;
+	placeholder: string | null;
+	perceptualHash: string | null;
+};
+
+export type ImageBackfillBatch<TRow> = {
+	rows: TRow[];
+	updatedImages: number;
+};
+
+/**
+ * Fills in dimensions, placeholders and perceptual hashes for images stored
+ * before they were computed at upload time. Every image is read back from R2,
+ * so callers work through the table in small batches. Rows whose images cannot
+ * be summarised (e.g. WebP placeholders) stay null and are skipped by the cursor.
+ */
+export class ImageBackfillService {
+	constructor(
+		private readonly supabase: SupabaseClientType,
+		private readonly env: Env,
+	) {}
+
+	async backfillCats(options: {
+		limit: number;
+		cursor: CatBackfillCursor | null;
+	}): Promise<ImageBackfillBatch<Pick<CatRecord, "id" | "created_at">>> {
+		let query = this.supabase
+			.from("cats")
+			.select("id,created_at,r2_path")
+			.is("image_placeholder", null)
+			.order("created_at", { ascending: true })
+			.order("id", { ascending: true })
+			.limit(options.limit);
+
+		if (options.cursor) {
+			query = query.or(
+				`and(created_at.gt.${options.cursor.created_at}),and(created_at.eq.${options.cursor.created_at},id.gt.${options.cursor.id})`,
+			);
+		}
+
+		const { data, error } = await query;
+
+		if (error) {
+			throw new HttpError("Failed to load cats for image backfill", 500);
+		}
+
+		const rows = (data ?? []) as Pick<CatRecord, "id" | "created_at" | "r2_path">[];
+		let updatedImages = 0;
+
+		for (const row of rows) {
+			// The cover is normally gallery image 0, so each R2 object is read at most once.
+			const described = new Map<string, StoredImageInfo | null>();
+			const describe = async (path: string) => {
+				if (!described.has(path)) {
+					described.set(path, await this.describeStoredImage(path));
+				}
+				return described.get(path)!;
+			};
+
+			const cover = await describe(row.r2_path);
+			if (cover) {
+				await this.updateRow(
+					"cats",
+					{
+						image_width: cover.width,
+						image_height: cover.height,
+						image_placeholder: cover.placeholder,
+					},
+					{ id: row.id },
+				);
+				updatedImages += 1;
+			}
+
+			for (const image of await this.fetchGalleryImagesMissingPlaceholder(row.id)) {
+				const info = await describe(image.r2_path);
+				if (!info) {
+					continue;
+				}
+				await this.updateGalleryImage(row.id, image.position, info);
+				updatedImages += 1;
+			}
+		}
+
+		return {
+			rows: rows.map((row) => ({ id: row.id, created_at: row.created_at })),
+			updatedImages,
+		};
+	}
+
+	// Gallery images that got placeholders before hashing existed only need the hash.
+	async backfillPerceptualHashes(options: {
+		limit: number;
+		cursor: CatImageBackfillCursor | null;
+	}): Promise<ImageBackfillBatch<CatImageBackfillCursor>> {
+		let query = this.supabase
+			.from("cat_images")
+			.select("cat_id,position,r2_path")
+			.is("perceptual_hash", null)
+			.order("cat_id", { ascending: true })
+			.order("position", { ascending: true })
+			.limit(options.limit);
+
+		if (options.cursor) {
+			query = query.or(
+				`and(cat_id.gt.${options.cursor.cat_id}),and(cat_id.eq.${options.cursor.cat_id},position.gt.${options.cursor.position})`,
+			);
+		}
+
+		const { data, error } = await query;
+
+		if (error) {
+			throw new HttpError("Failed to load cat images for image backfill", 500);
+		}
+
+		const rows = (data ?? []) as Pick<CatImageRecord, "cat_id" | "position" | "r2_path">[];
+		let updatedImages = 0;
+
+		for (const row of rows) {
+			const info = await this.describeStoredImage(row.r2_path);
+			if (!info?.perceptualHash) {
+				continue;
+			}
+			await this.updateGalleryImage(row.cat_id, row.position, info);
+			updatedImages += 1;
+		}
+
+		return {
+			rows: rows.map((row) => ({ cat_id: row.cat_id, position: row.position })),
+			updatedImages,
+		};
+	}
+
+	async backfillAvatars(options: {
+		limit: number;
+		cursor: string | null;
+	}): Promise<ImageBackfillBatch<{ username: string }>> {
+		let query = this.supabase
+			.from("users")
+			.select("username,r2_avatar")
+			.not("r2_avatar", "is", null)
+			.is("avatar_placeholder", null)
+			.order("username", { ascending: true })
+			.limit(options.limit);
+
+		if (options.cursor) {
+			query = query.gt("username", options.cursor);
+		}
+
+		const { data, error } = await query;
+
+		if (error) {
+			throw new HttpError("Failed to load avatars for image backfill", 500);
+		}
+
+		const rows = (data ?? []) as { username: string; r2_avatar: string }[];
+		let updatedImages = 0;
+
+		for (const row of rows) {
+			const info = await this.describeStoredImage(row.r2_avatar);
+			if (!info) {
+				continue;
+			}
+			await this.updateRow(
+				"users",
+				{
+					avatar_width: info.width,
+					avatar_height: info.height,
+					avatar_placeholder: info.placeholder,
+				},
+				{ username: row.username },
+			);
+			updatedImages += 1;
+		}
+
+		return {
+			rows: rows.map((row) => ({ username: row.username })),
+			updatedImages,
+		};
+	}
+
+	private async fetchGalleryImagesMissingPlaceholder(
+		catId: string,
+	): Promise<Pick<CatImageRecord, "position" | "r2_path">[]> {
+		const { data, error } = await this.supabase
+			.from("cat_images")
+			.select("position,r2_path")
+			.eq("cat_id", catId)
+			.is("placeholder", null)
+			.order("position", { ascending: true });
+
+		if (error) {
+			throw new HttpError("Failed to load cat images for image backfill", 500);
+		}
+
+		return (data ?? []) as Pick<CatImageRecord, "position" | "r2_path">[];
+	}
+
+	// Stored objects predate magic-byte validation, so the type is sniffed rather than trusted.
+	private async describeStoredImage(r2Path: string): Promise<StoredImageInfo | null> {
+		const object = await this.env.R2_BUCKET.get(r2Path);
+		if (!object) {
+			return null;
+		}
+
+		const bytes = new Uint8Array(await object.arrayBuffer());
+		const contentType = sniffImageType(bytes);
+		if (!contentType) {
+			return null;
+		}
+
+		const dimensions = readImageDimensions(bytes, contentType);
+		const thumbnail = await decodeImageThumbnail(bytes, contentType);
+		if (!dimensions && !thumbnail) {
+			return null;
+		}
+
+		return {
+			width: dimensions?.width ?? null,
+			height: dimensions?.height ?? null,
+			placeholder: computeImagePlaceholder(thumbnail),
+			perceptualHash: computePerceptualHash(thumbnail),
+		};
+	}
+
+	private async updateGalleryImage(
+		catId: string,
+		position: number,
+		info: StoredImageInfo,
+	): Promise<void> {
+		await this.updateRow(
+			"cat_images",
+			{
+				width: info.width,
+				height: info.height,
+				placeholder: info.placeholder,
+				perceptual_hash: info.perceptualHash,
+			},
+			{ cat_id: catId, position },
+		);
+	}
+
+	private async updateRow(
+		table: "cats" | "cat_images" | "users",
+		values: Record<string, number | string | null>,
+		match: Record<string, number | string>,
+	): Promise<void> {
+		const { error } = await this.supabase.from(table).update(values).match(match);
+
+		if (error) {
+			throw new HttpError("Failed to store image metadata", 500);
+		}
+	}
+}
+
+export function encodeCatImageBackfillCursor(cursor: CatImageBackfillCursor): string {
+	return encodeCursorPayload(cursor);
+}
+
+export function decodeCatImageBackfillCursor(
+	rawCursor: string | null,
+): { cursor: CatImageBackfillCursor | null; error: string | null } {
+	if (!rawCursor) {
+		return { cursor: null, error: null };
+	}
+
+	try {
+		const parsed = decodeCursorPayload(rawCursor) as Partial<CatImageBackfillCursor>;
+		if (
+			typeof parsed.cat_id === "string" &&
+			typeof parsed.position === "number" &&
+			Number.isInteger(parsed.position)
+		) {
+			return {
+				cursor: { cat_id: parsed.cat_id, position: parsed.position },
+				error: null,
+			};
+		}
+		return { cursor: null, error: "Invalid cursor" };
+	} catch {
+		return { cursor: null, error: "Invalid cursor" };
+	}
+}
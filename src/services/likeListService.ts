@@ -0,0 +1,211 @@
+import { decodeCursorPayload, encodeCursorPayload } from "../cursors";
+import { HttpError } from "../errors";
+import type { Cat, CatRecord, LikeEdge, LikesVisibility } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+import { isValidUuid } from "../validation";
+import { buildFallbackGuest, mapCatRecordsWithMetadata } from "./catMappingService";
+import { GuestService } from "./guestService";
+
+const LIST_LIKERS_FN = "list_cat_likers";
+const LIST_LIKED_CATS_FN = "list_liked_cats";
+
+export type LikerCursor = {
+	liked_at: string;
+	username: string;
+};
+
+export type LikedCatCursor = {
+	liked_at: string;
+	cat_id: string;
+};
+
+type ListOptions<TCursor> = {
+	limit: number;
+	cursor: TCursor | null;
+};
+
+type LikerRow = {
+	username: string;
+	liked_at: string;
+};
+
+type LikedCatRow = {
+	cat: CatRecord;
+	liked_at: string;
+};
+
+export class LikeListService {
+	constructor(
+		private readonly supabase: SupabaseClientType,
+		private readonly env: Env,
+	) {}
+
+	/**
+	 * Lists a cat's likers, newest first. Users who hide their likes are only
+	 * included when they are the viewer.
+	 */
+	async listLikers(
+		catId: string,
+		viewerUsername: string | null,
+		options: ListOptions<LikerCursor>,
+	): Promise<{ likers: LikeEdge[]; nextCursor: LikerCursor | null }> {
+		await this.assertCatExists(catId);
+
+		const { data, error } = await this.supabase.rpc(LIST_LIKERS_FN, {
+			p_cat_id: catId,
+			p_viewer_username: viewerUsername,
+			p_cursor_liked_at: options.cursor?.liked_at ?? null,
+			p_cursor_username: options.cursor?.username ?? null,
+			p_limit: options.limit + 1,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to list likes", 500);
+		}
+
+		const rows = (data ?? []) as LikerRow[];
+		const hasMore = rows.length > options.limit;
+		const visibleRows = hasMore ? rows.slice(0, options.limit) : rows;
+
+		const guestService = new GuestService(this.supabase, this.env);
+		const guests = await guestService.fetchGuests(
+			visibleRows.map((row) => row.username),
+			viewerUsername,
+		);
+
+		const likers: LikeEdge[] = visibleRows.map((row) => ({
+			user: guests.get(row.username) ?? buildFallbackGuest(row.username),
+			liked_at: row.liked_at,
+		}));
+
+		const last = visibleRows[visibleRows.length - 1];
+		return {
+			likers,
+			nextCursor: hasMore ? { liked_at: last.liked_at, username: last.username } : null,
+		};
+	}
+
+	async listLikedCats(
+		username: string,
+		viewerUsername: string | null,
+		options: ListOptions<LikedCatCursor>,
+	): Promise<{ cats: Cat[]; nextCursor: LikedCatCursor | null }> {
+		const visibility = await this.fetchLikesVisibility(username);
+		if (visibility === "hidden" && viewerUsername !== username) {
+			throw new HttpError("This user's likes are hidden", 403);
+		}
+
+		const { data, error } = await this.supabase.rpc(LIST_LIKED_CATS_FN, {
+			p_username: username,
+			p_cursor_liked_at: options.cursor?.liked_at ?? null,
+			p_cursor_cat_id: options.cursor?.cat_id ?? null,
+			p_limit: options.limit + 1,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to list liked cats", 500);
+		}
+
+		const rows = (data ?? []) as LikedCatRow[];
+		const hasMore = rows.length > options.limit;
+		const visibleRows = hasMore ? rows.slice(0, options.limit) : rows;
+
+		const cats = await mapCatRecordsWithMetadata(
+			visibleRows.map((row) => row.cat),
+			this.env,
+			this.supabase,
+			viewerUsername,
+		);
+
+		const last = visibleRows[visibleRows.length - 1];
+		return {
+			cats,
+			nextCursor: hasMore ? { liked_at: last.liked_at, cat_id: last.cat.id } : null,
+		};
+	}
+
+	private async assertCatExists(catId: string): Promise<void> {
+		const { data, error } = await this.supabase
+			.from("cats")
+			.select("id")
+			.eq("id", catId)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load cat", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("Cat not found", 404);
+		}
+	}
+
+	private async fetchLikesVisibility(username: string): Promise<LikesVisibility> {
+		const { data, error } = await this.supabase
+			.from("users")
+			.select("likes_visibility")
+			.eq("username", username)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load user", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("User not found", 404);
+		}
+
+		return (data.likes_visibility as LikesVisibility | null) ?? "public";
+	}
+}
+
+export function encodeLikeCursor(cursor: LikerCursor | LikedCatCursor): string {
+	return encodeCursorPayload(cursor);
+}
+
+export function decodeLikerCursor(
+	rawCursor: string | null,
+): { cursor: LikerCursor | null; error: string | null } {
+	const parsed = parseLikeCursor(rawCursor, "username");
+	return {
+		cursor: parsed.cursor && { liked_at: parsed.cursor.liked_at, username: parsed.cursor.key },
+		error: parsed.error,
+	};
+}
+
+export function decodeLikedCatCursor(
+	rawCursor: string | null,
+): { cursor: LikedCatCursor | null; error: string | null } {
+	const parsed = parseLikeCursor(rawCursor, "cat_id");
+	if (parsed.cursor && !isValidUuid(parsed.cursor.key)) {
+		return { cursor: null, error: "Invalid cursor" };
+	}
+	return {
+		cursor: parsed.cursor && { liked_at: parsed.cursor.liked_at, cat_id: parsed.cursor.key },
+		error: parsed.error,
+	};
+}
+
+function parseLikeCursor(
+	rawCursor: string | null,
+	keyField: "username" | "cat_id",
+): { cursor: { liked_at: string; key: string } | null; error: string | null } {
+	if (!rawCursor) {
+		return { cursor: null, error: null };
+	}
+
+	try {
+		const parsed = decodeCursorPayload(rawCursor) as Record<string, unknown>;
+		const key = parsed[keyField];
+		if (
+			typeof parsed.liked_at === "string" &&
+			!Number.isNaN(Date.parse(parsed.liked_at)) &&
+			typeof key === "string"
+		) {
+			return { cursor: { liked_at: parsed.liked_at, key }, error: null };
+		}
+		return { cursor: null, error: "Invalid cursor" };
+	} catch {
+		return { cursor: null, error: "Invalid cursor" };
+	}
+}
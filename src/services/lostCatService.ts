@@ -0,0 +1,145 @@
+import { ConflictError, HttpError } from "../errors";
+import type { CatRecord } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+import { NEARBY_RADIUS_MAX_M } from "../validation";
+import {
+	encodeNearbyCursor,
+	type NearbyCatRow,
+	type NearbyCursor,
+} from "./catGeoService";
+
+const LOST_CATS_NEAR_FN = "lost_cats_near";
+const LOST_CAT_MATCHES_FN = "lost_cat_matches";
+// How long after a cat went missing a sighting still counts as a possible match.
+const MATCH_WINDOW_DAYS = 30;
+
+type PageOptions = {
+	limit: number;
+	cursor: NearbyCursor | null;
+	sessionUsername: string | null;
+};
+
+export class LostCatService {
+	constructor(private readonly supabase: SupabaseClientType) {}
+
+	/**
+	 * Open lost posts whose alert radius reaches the given point, nearest
+	 * first.
+	 */
+	async findAlertsNear(
+		latitude: number,
+		longitude: number,
+		options: PageOptions,
+	): Promise<{ rows: NearbyCatRow[]; nextCursor: string | null }> {
+		const { data, error } = await this.supabase.rpc(LOST_CATS_NEAR_FN, {
+			p_latitude: latitude,
+			p_longitude: longitude,
+			p_max_radius_m: NEARBY_RADIUS_MAX_M,
+			p_after_distance_m: options.cursor?.distance_m ?? null,
+			p_after_id: options.cursor?.id ?? null,
+			p_limit: options.limit + 1,
+			p_viewer_username: options.sessionUsername,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to search lost cats", 500);
+		}
+
+		return paginate(data, options.limit);
+	}
+
+	/**
+	 * Sightings and found posts by other users that were posted within the
+	 * lost post's alert radius and around the time it went missing.
+	 */
+	async findMatches(
+		catId: string,
+		options: PageOptions,
+	): Promise<{ rows: NearbyCatRow[]; nextCursor: string | null }> {
+		const lost = await this.loadCat(catId);
+		if (lost.post_type !== "lost") {
+			throw new HttpError("Cat is not a lost post", 400);
+		}
+
+		const { data, error } = await this.supabase.rpc(LOST_CAT_MATCHES_FN, {
+			p_lost_cat_id: catId,
+			p_window_days: MATCH_WINDOW_DAYS,
+			p_after_distance_m: options.cursor?.distance_m ?? null,
+			p_after_id: options.cursor?.id ?? null,
+			p_limit: options.limit + 1,
+			p_viewer_username: options.sessionUsername,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to load possible matches", 500);
+		}
+
+		return paginate(data, options.limit);
+	}
+
+	// Closes a lost or found post. Only the poster can do this, and only once.
+	async markReunited(catId: string, username: string): Promise<CatRecord> {
+		const existing = await this.loadCat(catId);
+
+		if (existing.username !== username) {
+			throw new HttpError("Cannot update another user's cat", 403);
+		}
+
+		if (existing.post_type !== "lost" && existing.post_type !== "found") {
+			throw new HttpError("Only lost and found posts can be reunited", 400);
+		}
+
+		const { data, error } = await this.supabase
+			.from("cats")
+			.update({ post_status: "reunited", reunited_at: new Date().toISOString() })
+			.eq("id", catId)
+			.eq("post_status", "open")
+			.select("*")
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to update cat", 500);
+		}
+
+		if (!data) {
+			throw new ConflictError("Cat is already reunited");
+		}
+
+		return data as CatRecord;
+	}
+
+	private async loadCat(catId: string): Promise<CatRecord> {
+		const { data, error } = await this.supabase
+			.from("cats")
+			.select("*")
+			.eq("id", catId)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load cat", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("Cat not found", 404);
+		}
+
+		return data as CatRecord;
+	}
+}
+
+function paginate(
+	data: unknown,
+	limit: number,
+): { rows: NearbyCatRow[]; nextCursor: string | null } {
+	const rows = ((data ?? []) as NearbyCatRow[]).map((row) => ({
+		cat: row.cat,
+		distance_m: Number(row.distance_m),
+	}));
+	const hasMore = rows.length > limit;
+	const visibleRows = hasMore ? rows.slice(0, limit) : rows;
+	const nextCursor = hasMore
+		? encodeNearbyCursor(visibleRows[visibleRows.length - 1])
+		: null;
+
+	return { rows: visibleRows, nextCursor };
+}
@@ -0,0 +1,331 @@
+import { decodeCursorPayload, encodeCursorPayload } from "../cursors";
+import { ConflictError, HttpError } from "../errors";
+import type {
+	ModerationCase,
+	ModerationCaseRecord,
+	ModerationCaseStatus,
+	ModerationReport,
+	Report,
+	ReportReason,
+	ReportTargetType,
+} from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+import { isValidUuid } from "../validation";
+
+const CREATE_REPORT_FN = "create_report";
+const CLAIM_CASE_FN = "claim_moderation_case";
+const CLOSE_CASE_FN = "close_moderation_case";
+const REPORT_HIDE_THRESHOLD_DEFAULT = 3;
+// Reports returned per queued case; `report_count` always has the full number.
+const CASE_REPORTS_LIMIT = 20;
+const CASE_COLUMNS =
+	"id,target_type,target_id,status,report_count,auto_hidden,claimed_by,claimed_at,closed_by,closed_at,resolution_note,created_at,updated_at";
+const REPORT_COLUMNS =
+	"id,case_id,target_type,target_id,reporter_username,reason,details,created_at";
+
+type EnvWithReportThreshold = Env & {
+	REPORT_HIDE_THRESHOLD?: string;
+};
+
+type ReportRow = ModerationReport & {
+	case_id: string;
+};
+
+export type ModerationQueueCursor = {
+	created_at: string;
+	id: string;
+};
+
+export class ModerationService {
+	constructor(
+		private readonly supabase: SupabaseClientType,
+		private readonly env: Env,
+	) {}
+
+	/**
+	 * Files a report and returns it. Each user can report a target once; the
+	 * target is hidden automatically once its open case reaches
+	 * REPORT_HIDE_THRESHOLD reports.
+	 */
+	async createReport(
+		reporterUsername: string,
+		input: {
+			targetType: ReportTargetType;
+			targetId: string;
+			reason: ReportReason;
+			details: string | null;
+		},
+	): Promise<Report> {
+		const owner = await this.fetchTargetOwner(input.targetType, input.targetId);
+		if (owner === reporterUsername) {
+			throw new HttpError("You cannot report your own content", 400);
+		}
+
+		const reportId = crypto.randomUUID();
+		const { error } = await this.supabase.rpc(CREATE_REPORT_FN, {
+			p_report_id: reportId,
+			p_case_id: crypto.randomUUID(),
+			p_target_type: input.targetType,
+			p_target_id: input.targetId,
+			p_reporter_username: reporterUsername,
+			p_reason: input.reason,
+			p_details: input.details,
+			p_hide_threshold: readHideThreshold(this.env),
+		});
+
+		if (error) {
+			if ((error as { code?: string }).code === "23505") {
+				throw new ConflictError("You have already reported this");
+			}
+			throw new HttpError("Failed to create report", 500);
+		}
+
+		const { data, error: loadError } = await this.supabase
+			.from("reports")
+			.select("id,target_type,target_id,reason,details,created_at")
+			.eq("id", reportId)
+			.single();
+
+		if (loadError || !data) {
+			throw new HttpError("Failed to load report", 500);
+		}
+
+		return data as Report;
+	}
+
+	async listQueue(options: {
+		status: ModerationCaseStatus;
+		targetType: ReportTargetType | null;
+		limit: number;
+		cursor: ModerationQueueCursor | null;
+	}): Promise<{ cases: ModerationCase[]; nextCursor: ModerationQueueCursor | null }> {
+		let query = this.supabase
+			.from("moderation_cases")
+			.select(CASE_COLUMNS)
+			.eq("status", options.status)
+			.order("created_at", { ascending: true })
+			.order("id", { ascending: true })
+			.limit(options.limit + 1);
+
+		if (options.targetType) {
+			query = query.eq("target_type", options.targetType);
+		}
+
+		if (options.cursor) {
+			query = query.or(
+				`and(created_at.gt.${options.cursor.created_at}),and(created_at.eq.${options.cursor.created_at},id.gt.${options.cursor.id})`,
+			);
+		}
+
+		const { data, error } = await query;
+
+		if (error) {
+			throw new HttpError("Failed to load moderation queue", 500);
+		}
+
+		const rows = (data ?? []) as ModerationCaseRecord[];
+		const hasMore = rows.length > options.limit;
+		const visibleRows = hasMore ? rows.slice(0, options.limit) : rows;
+		const reportsByCase = await this.fetchReportsByCase(visibleRows.map((row) => row.id));
+
+		const cases = visibleRows.map((row) => {
+			const reports = reportsByCase.get(row.id) ?? [];
+			const reasonCounts: Partial<Record<ReportReason, number>> = {};
+			for (const report of reports) {
+				reasonCounts[report.reason] = (reasonCounts[report.reason] ?? 0) + 1;
+			}
+			return {
+				...row,
+				reason_counts: reasonCounts,
+				reports: reports.slice(0, CASE_REPORTS_LIMIT).map(({ case_id: _caseId, ...report }) => report),
+			};
+		});
+
+		const last = visibleRows[visibleRows.length - 1];
+		return {
+			cases,
+			nextCursor: hasMore ? { created_at: last.created_at, id: last.id } : null,
+		};
+	}
+
+	async claimCase(caseId: string, moderator: string): Promise<ModerationCaseRecord> {
+		const { data, error } = await this.supabase.rpc(CLAIM_CASE_FN, {
+			p_case_id: caseId,
+			p_moderator: moderator,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to claim moderation case", 500);
+		}
+
+		return this.unwrapCase(data) ?? (await this.throwUnavailableCase(caseId));
+	}
+
+	/**
+	 * Closes a case. `resolved` keeps the target hidden (hiding it if it was
+	 * not already); `dismissed` makes it visible again.
+	 */
+	async closeCase(
+		caseId: string,
+		moderator: string,
+		status: "resolved" | "dismissed",
+		note: string | null,
+	): Promise<ModerationCaseRecord> {
+		const { data, error } = await this.supabase.rpc(CLOSE_CASE_FN, {
+			p_case_id: caseId,
+			p_moderator: moderator,
+			p_status: status,
+			p_note: note,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to close moderation case", 500);
+		}
+
+		return this.unwrapCase(data) ?? (await this.throwUnavailableCase(caseId));
+	}
+
+	// Hidden cats drop out of listings until they are restored.
+	async setCatHidden(catId: string, hidden: boolean): Promise<{ hidden_at: string | null }> {
+		const { data, error } = await this.supabase
+			.from("cats")
+			.update({ hidden_at: hidden ? new Date().toISOString() : null })
+			.eq("id", catId)
+			.select("hidden_at")
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError(hidden ? "Failed to hide cat" : "Failed to restore cat", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("Cat not found", 404);
+		}
+
+		return { hidden_at: (data.hidden_at as string | null) ?? null };
+	}
+
+	private async fetchTargetOwner(
+		targetType: ReportTargetType,
+		targetId: string,
+	): Promise<string> {
+		const lookup =
+			targetType === "cat"
+				? this.supabase.from("cats").select("username").eq("id", targetId)
+				: targetType === "comment"
+					? this.supabase.from("comments").select("username").eq("comment_id", targetId)
+					: this.supabase.from("users").select("username").eq("username", targetId);
+
+		const { data, error } = await lookup.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load reported content", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("Reported content not found", 404);
+		}
+
+		return data.username as string;
+	}
+
+	private async fetchReportsByCase(caseIds: string[]): Promise<Map<string, ReportRow[]>> {
+		const reportsByCase = new Map<string, ReportRow[]>();
+		if (!caseIds.length) {
+			return reportsByCase;
+		}
+
+		const { data, error } = await this.supabase
+			.from("reports")
+			.select(REPORT_COLUMNS)
+			.in("case_id", caseIds)
+			.order("created_at", { ascending: false });
+
+		if (error) {
+			throw new HttpError("Failed to load reports", 500);
+		}
+
+		for (const row of (data ?? []) as ReportRow[]) {
+			const reports = reportsByCase.get(row.case_id) ?? [];
+			reports.push(row);
+			reportsByCase.set(row.case_id, reports);
+		}
+
+		return reportsByCase;
+	}
+
+	private unwrapCase(data: unknown): ModerationCaseRecord | null {
+		const row = (Array.isArray(data) ? data[0] : data) as ModerationCaseRecord | null;
+		return row?.id ? row : null;
+	}
+
+	// The claim/close functions return nothing when a case cannot move; work out why.
+	private async throwUnavailableCase(caseId: string): Promise<never> {
+		const { data, error } = await this.supabase
+			.from("moderation_cases")
+			.select("status,claimed_by")
+			.eq("id", caseId)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load moderation case", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("Moderation case not found", 404);
+		}
+
+		if (data.status === "claimed") {
+			throw new ConflictError(`Case is claimed by ${data.claimed_by}`);
+		}
+
+		throw new ConflictError(`Case is already ${data.status}`);
+	}
+}
+
+// A threshold of 0 or "off" disables auto-hiding.
+function readHideThreshold(env: Env): number | null {
+	const raw = (env as EnvWithReportThreshold).REPORT_HIDE_THRESHOLD?.trim().toLowerCase();
+	if (!raw) {
+		return REPORT_HIDE_THRESHOLD_DEFAULT;
+	}
+
+	if (raw === "off" || raw === "0") {
+		return null;
+	}
+
+	const threshold = Number(raw);
+	return Number.isInteger(threshold) && threshold > 0
+		? threshold
+		: REPORT_HIDE_THRESHOLD_DEFAULT;
+}
+
+export function encodeModerationCursor(cursor: ModerationQueueCursor): string {
+	return encodeCursorPayload(cursor);
+}
+
+export function decodeModerationCursor(
+	rawCursor: string | null,
+): { cursor: ModerationQueueCursor | null; error: string | null } {
+	if (!rawCursor) {
+		return { cursor: null, error: null };
+	}
+
+	try {
+		const parsed = decodeCursorPayload(rawCursor) as Partial<ModerationQueueCursor>;
+		if (
+			typeof parsed.created_at === "string" &&
+			!Number.isNaN(Date.parse(parsed.created_at)) &&
+			typeof parsed.id === "string" &&
+			isValidUuid(parsed.id)
+		) {
+			return {
+				cursor: { created_at: parsed.created_at, id: parsed.id },
+				error: null,
+			};
+		}
+		return { cursor: null, error: "Invalid cursor" };
+	} catch {
+		return { cursor: null, error: "Invalid cursor" };
+	}
+}
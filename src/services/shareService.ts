@@ -0,0 +1,143 @@
+import { HttpError } from "../errors";
+import type { CatPostType, CollectionRow, ImageInfo, ShareCard } from "../models";
+import { buildPublicR2Url } from "../r2";
+import type { SupabaseClientType } from "../supabaseClient";
+
+// Collection covers come from the newest cats; hidden ones are skipped.
+const COLLECTION_COVER_CANDIDATES = 10;
+const TITLE_PREFIXES: Record<CatPostType, string> = {
+	sighting: "",
+	lost: "Lost: ",
+	found: "Found: ",
+};
+
+type ShareCatRow = {
+	id: string;
+	name: string;
+	description: string | null;
+	username: string;
+	r2_path: string;
+	image_width: number | null;
+	image_height: number | null;
+	image_placeholder: string | null;
+	hidden_at: string | null;
+	post_type: CatPostType | null;
+};
+
+type CoverRow = {
+	cat: Pick<
+		ShareCatRow,
+		"r2_path" | "image_width" | "image_height" | "image_placeholder" | "hidden_at"
+	> | null;
+};
+
+export class ShareService {
+	constructor(
+		private readonly supabase: SupabaseClientType,
+		private readonly env: Env,
+	) {}
+
+	/**
+	 * Share card for a cat post. Hidden posts and posts by hidden or suspended
+	 * users are reported as not found.
+	 */
+	async getCatCard(catId: string): Promise<ShareCard> {
+		const { data, error } = await this.supabase
+			.from("cats")
+			.select(
+				"id,name,description,username,r2_path,image_width,image_height,image_placeholder,hidden_at,post_type",
+			)
+			.eq("id", catId)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load cat", 500);
+		}
+
+		const row = data as ShareCatRow | null;
+		if (!row || row.hidden_at || !(await this.isUserPublic(row.username))) {
+			throw new HttpError("Cat not found", 404);
+		}
+
+		return {
+			type: "cat",
+			id: row.id,
+			title: `${TITLE_PREFIXES[row.post_type ?? "sighting"]}${row.name}`,
+			description: row.description ?? `Spotted by @${row.username} on Pawparazzi`,
+			author_name: row.username,
+			image: this.buildImage(row),
+		};
+	}
+
+	async getCollectionCard(collectionId: string): Promise<ShareCard> {
+		const { data, error } = await this.supabase
+			.from("collections")
+			.select("*")
+			.eq("id", collectionId)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load collection", 500);
+		}
+
+		const row = data as CollectionRow | null;
+		if (!row || !row.is_public || !(await this.isUserPublic(row.owner_username))) {
+			throw new HttpError("Collection not found", 404);
+		}
+
+		const catCount = Number(row.cat_count ?? 0);
+		return {
+			type: "collection",
+			id: row.id,
+			title: row.name,
+			description:
+				row.description ??
+				`${catCount} ${catCount === 1 ? "cat" : "cats"} collected by @${row.owner_username}`,
+			author_name: row.owner_username,
+			image: await this.fetchCollectionCover(row.id),
+		};
+	}
+
+	private async isUserPublic(username: string): Promise<boolean> {
+		const { data, error } = await this.supabase
+			.from("users")
+			.select("hidden_at,suspended_at")
+			.eq("username", username)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load user", 500);
+		}
+
+		return Boolean(data && !data.hidden_at && !data.suspended_at);
+	}
+
+	private async fetchCollectionCover(collectionId: string): Promise<ImageInfo | null> {
+		const { data, error } = await this.supabase
+			.from("collection_cats")
+			.select("cat:cats(r2_path,image_width,image_height,image_placeholder,hidden_at)")
+			.eq("collection_id", collectionId)
+			.order("added_at", { ascending: false })
+			.limit(COLLECTION_COVER_CANDIDATES);
+
+		if (error) {
+			throw new HttpError("Failed to load collection cats", 500);
+		}
+
+		const cover = ((data ?? []) as unknown as CoverRow[]).find(
+			(row) => row.cat && !row.cat.hidden_at,
+		);
+		return cover?.cat ? this.buildImage(cover.cat) : null;
+	}
+
+	private buildImage(
+		row: Pick<ShareCatRow, "r2_path" | "image_width" | "image_height" | "image_placeholder">,
+	): ImageInfo {
+		return {
+			url: buildPublicR2Url(row.r2_path, this.env),
+			width: row.image_width ?? null,
+			height: row.image_height ?? null,
+			placeholder: row.image_placeholder ?? null,
+		};
+	}
+}
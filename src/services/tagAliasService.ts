@@ -0,0 +1,126 @@
+import { HttpError } from "../errors";
+import type { TagAlias } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+
+const BACKFILL_FN = "backfill_canonical_tags";
+
+export class TagAliasService {
+	constructor(private readonly supabase: SupabaseClientType) {}
+
+	/**
+	 * Maps tags onto their canonical form, keeping first-seen order and dropping
+	 * duplicates created by the mapping (e.g. "ginger,orange" -> ["orange"]).
+	 */
+	async resolveTags(tags: string[]): Promise<string[]> {
+		if (!tags.length) {
+			return [];
+		}
+
+		const { data, error } = await this.supabase
+			.from("tag_aliases")
+			.select("alias,canonical_tag")
+			.in("alias", tags);
+
+		if (error) {
+			throw new HttpError("Failed to resolve tag aliases", 500);
+		}
+
+		const canonicalByAlias = new Map(
+			((data ?? []) as Pick<TagAlias, "alias" | "canonical_tag">[]).map(
+				(row) => [row.alias, row.canonical_tag],
+			),
+		);
+
+		return Array.from(
+			new Set(tags.map((tag) => canonicalByAlias.get(tag) ?? tag)),
+		);
+	}
+
+	async listAliases(): Promise<TagAlias[]> {
+		const { data, error } = await this.supabase
+			.from("tag_aliases")
+			.select("alias,canonical_tag,created_at")
+			.order("canonical_tag", { ascending: true })
+			.order("alias", { ascending: true });
+
+		if (error) {
+			throw new HttpError("Failed to list tag aliases", 500);
+		}
+
+		return (data ?? []) as TagAlias[];
+	}
+
+	async setAlias(alias: string, canonicalTag: string): Promise<TagAlias> {
+		if (alias === canonicalTag) {
+			throw new HttpError("alias and canonical_tag must differ", 400);
+		}
+
+		// Keep the mapping one level deep so resolving a tag never needs to follow a chain.
+		const [canonicalIsAlias, aliasIsCanonical] = await Promise.all([
+			this.hasAliasRow("alias", canonicalTag),
+			this.hasAliasRow("canonical_tag", alias),
+		]);
+
+		if (canonicalIsAlias || aliasIsCanonical) {
+			throw new HttpError(
+				"canonical_tag cannot be an alias, and alias cannot already be a canonical tag",
+				400,
+			);
+		}
+
+		const { data, error } = await this.supabase
+			.from("tag_aliases")
+			.upsert({ alias, canonical_tag: canonicalTag }, { onConflict: "alias" })
+			.select("alias,canonical_tag,created_at")
+			.single();
+
+		if (error || !data) {
+			throw new HttpError("Failed to save tag alias", 500);
+		}
+
+		return data as TagAlias;
+	}
+
+	async deleteAlias(alias: string): Promise<void> {
+		const { data, error } = await this.supabase
+			.from("tag_aliases")
+			.delete()
+			.eq("alias", alias)
+			.select("alias")
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to delete tag alias", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("Tag alias not found", 404);
+		}
+	}
+
+	async backfillCanonicalTags(): Promise<number> {
+		const { data, error } = await this.supabase.rpc(BACKFILL_FN);
+
+		if (error) {
+			throw new HttpError("Failed to backfill canonical tags", 500);
+		}
+
+		return Number(data ?? 0);
+	}
+
+	private async hasAliasRow(
+		column: "alias" | "canonical_tag",
+		tag: string,
+	): Promise<boolean> {
+		const { error, count } = await this.supabase
+			.from("tag_aliases")
+			.select("alias", { count: "exact", head: true })
+			.eq(column, tag);
+
+		if (error) {
+			throw new HttpError("Failed to validate tag alias", 500);
+		}
+
+		return (count ?? 0) > 0;
+	}
+}
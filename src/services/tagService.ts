@@ -0,0 +1,65 @@
+import { HttpError } from "../errors";
+import type { TagCount, TrendingWindow } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+
+const SUGGEST_TAGS_FN = "suggest_tags";
+const TRENDING_TAGS_FN = "trending_tags";
+const REFRESH_TAG_COUNTS_FN = "refresh_tag_counts";
+
+const TRENDING_WINDOW_MS: Record<TrendingWindow, number> = {
+	"24h": 24 * 60 * 60 * 1000,
+	"7d": 7 * 24 * 60 * 60 * 1000,
+};
+
+type TagCountRow = {
+	tag: string;
+	post_count: number | string;
+};
+
+export class TagService {
+	constructor(private readonly supabase: SupabaseClientType) {}
+
+	async suggestTags(prefix: string, limit: number): Promise<TagCount[]> {
+		const { data, error } = await this.supabase.rpc(SUGGEST_TAGS_FN, {
+			p_prefix: prefix,
+			p_limit: limit,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to suggest tags", 500);
+		}
+
+		return this.mapTagCounts(data);
+	}
+
+	async trendingTags(window: TrendingWindow, limit: number): Promise<TagCount[]> {
+		const since = new Date(Date.now() - TRENDING_WINDOW_MS[window]).toISOString();
+
+		const { data, error } = await this.supabase.rpc(TRENDING_TAGS_FN, {
+			p_since: since,
+			p_limit: limit,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to load trending tags", 500);
+		}
+
+		return this.mapTagCounts(data);
+	}
+
+	// Recomputes the per-tag counts behind suggestTags; run from the cron trigger.
+	async refreshTagCounts(): Promise<void> {
+		const { error } = await this.supabase.rpc(REFRESH_TAG_COUNTS_FN);
+
+		if (error) {
+			throw new HttpError("Failed to refresh tag counts", 500);
+		}
+	}
+
+	private mapTagCounts(data: unknown): TagCount[] {
+		return ((data ?? []) as TagCountRow[]).map((row) => ({
+			tag: row.tag,
+			post_count: Number(row.post_count ?? 0),
+		}));
+	}
+}
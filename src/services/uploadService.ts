@@ -0,0 +1,232 @@
+import { HttpError } from "../errors";
+import type { PendingUploadRecord } from "../models";
+import type { SupabaseClientType } from "../supabaseClient";
+
+const UPLOAD_TTL_MS = 15 * 60 * 1000;
+const UPLOAD_KEY_PREFIX = "uploads/";
+
+export type StagedUpload = {
+	record: PendingUploadRecord;
+	bytes: Uint8Array;
+};
+
+/**
+ * Tracks two-phase uploads. Raw bytes are staged under `uploads/` in R2 and only
+ * become public after the consuming endpoint has validated and stripped them.
+ */
+export class UploadService {
+	constructor(
+		private readonly supabase: SupabaseClientType,
+		private readonly env: Env,
+	) {}
+
+	async initUpload(username: string): Promise<PendingUploadRecord> {
+		const id = crypto.randomUUID();
+		const { data, error } = await this.supabase
+			.from("pending_uploads")
+			.insert({
+				id,
+				username,
+				r2_key: `${UPLOAD_KEY_PREFIX}${id}`,
+				status: "pending",
+				expires_at: new Date(Date.now() + UPLOAD_TTL_MS).toISOString(),
+			})
+			.select("*")
+			.single();
+
+		if (error || !data) {
+			throw new HttpError("Failed to start upload", 500);
+		}
+
+		return data as PendingUploadRecord;
+	}
+
+	/**
+	 * Claims a pending upload owned by `username` and streams its bytes to R2.
+	 * The claim is a conditional update, so only one PUT per upload can write.
+	 */
+	async storeUploadBody(
+		uploadId: string,
+		username: string,
+		body: ReadableStream,
+		byteLength: number,
+		contentType: string | null,
+	): Promise<PendingUploadRecord> {
+		const { data, error } = await this.supabase
+			.from("pending_uploads")
+			.update({
+				status: "uploaded",
+				byte_length: byteLength,
+				content_type: contentType,
+			})
+			.eq("id", uploadId)
+			.eq("username", username)
+			.eq("status", "pending")
+			.gt("expires_at", new Date().toISOString())
+			.select("*")
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to record upload", 500);
+		}
+
+		if (!data) {
+			throw await this.explainUnclaimableUpload(uploadId, username);
+		}
+
+		const record = data as PendingUploadRecord;
+		try {
+			await this.env.R2_BUCKET.put(record.r2_key, body, {
+				httpMetadata: contentType ? { contentType } : undefined,
+			});
+		} catch (err) {
+			// Hand the slot back so the client can retry the PUT.
+			await this.supabase
+				.from("pending_uploads")
+				.update({ status: "pending", byte_length: null, content_type: null })
+				.eq("id", uploadId);
+			throw err;
+		}
+
+		return record;
+	}
+
+	/**
+	 * Loads the staged bytes for uploads owned by `username`, in the order given.
+	 * Every upload must have been received and must not have expired.
+	 */
+	async loadStagedUploads(
+		uploadIds: string[],
+		username: string,
+	): Promise<StagedUpload[]> {
+		const { data, error } = await this.supabase
+			.from("pending_uploads")
+			.select("*")
+			.in("id", uploadIds)
+			.eq("username", username);
+
+		if (error) {
+			throw new HttpError("Failed to load uploads", 500);
+		}
+
+		const records = new Map(
+			((data ?? []) as PendingUploadRecord[]).map((row) => [row.id, row]),
+		);
+
+		return Promise.all(
+			uploadIds.map(async (uploadId) => {
+				const record = records.get(uploadId);
+				if (!record) {
+					throw new HttpError(`Upload ${uploadId} not found`, 404);
+				}
+
+				this.assertNotExpired(record);
+				if (record.status !== "uploaded") {
+					throw new HttpError(`Upload ${uploadId} has no data yet`, 409);
+				}
+
+				const object = await this.env.R2_BUCKET.get(record.r2_key);
+				if (!object) {
+					throw new HttpError(`Upload ${uploadId} not found`, 404);
+				}
+
+				return { record, bytes: new Uint8Array(await object.arrayBuffer()) };
+			}),
+		);
+	}
+
+	async discardUploads(records: PendingUploadRecord[]): Promise<void> {
+		if (!records.length) {
+			return;
+		}
+
+		const { error } = await this.supabase
+			.from("pending_uploads")
+			.delete()
+			.in(
+				"id",
+				records.map((record) => record.id),
+			);
+
+		if (error) {
+			throw new HttpError("Failed to clear uploads", 500);
+		}
+
+		// A failed delete only leaves a staged object behind; it is never served publicly.
+		await this.env.R2_BUCKET.delete(records.map((record) => record.r2_key)).catch(
+			() => {},
+		);
+	}
+
+	/**
+	 * Deletes expired upload rows and staged objects older than the upload TTL,
+	 * including objects whose row is already gone. Returns how many objects
+	 * were removed.
+	 */
+	async purgeExpiredUploads(): Promise<number> {
+		const now = Date.now();
+		const { error } = await this.supabase
+			.from("pending_uploads")
+			.delete()
+			.lt("expires_at", new Date(now).toISOString());
+
+		if (error) {
+			throw new HttpError("Failed to clear expired uploads", 500);
+		}
+
+		let removed = 0;
+		let cursor: string | undefined;
+		do {
+			const listing = await this.env.R2_BUCKET.list({
+				prefix: UPLOAD_KEY_PREFIX,
+				cursor,
+			});
+			const expiredKeys = listing.objects
+				.filter((object) => object.uploaded.getTime() < now - UPLOAD_TTL_MS)
+				.map((object) => object.key);
+
+			if (expiredKeys.length) {
+				await this.env.R2_BUCKET.delete(expiredKeys);
+				removed += expiredKeys.length;
+			}
+
+			cursor = listing.truncated ? listing.cursor : undefined;
+		} while (cursor);
+
+		return removed;
+	}
+
+	// Works out why a PUT could not claim the upload, without revealing other users' uploads.
+	private async explainUnclaimableUpload(
+		uploadId: string,
+		username: string,
+	): Promise<HttpError> {
+		const { data, error } = await this.supabase
+			.from("pending_uploads")
+			.select("*")
+			.eq("id", uploadId)
+			.eq("username", username)
+			.maybeSingle();
+
+		if (error) {
+			return new HttpError("Failed to load upload", 500);
+		}
+
+		const record = data as PendingUploadRecord | null;
+		if (!record) {
+			return new HttpError("Upload not found", 404);
+		}
+
+		if (record.status !== "pending") {
+			return new HttpError("Upload already received", 409);
+		}
+
+		return new HttpError("Upload expired", 410);
+	}
+
+	private assertNotExpired(record: PendingUploadRecord): void {
+		if (Date.parse(record.expires_at) <= Date.now()) {
+			throw new HttpError("Upload expired", 410);
+		}
+	}
+}
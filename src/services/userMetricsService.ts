@@ -1,8 +1,9 @@
 import { HttpError } from "../errors";
-import type { CatRecord } from "../models";
+import type { CatImageRecord, CatPostType, CatRecord } from "../models";
 import type { SupabaseClientType } from "../supabaseClient";
 
 const CREATE_CAT_FN = "create_cat_with_post_count";
+const DELETE_CAT_FN = "delete_cat_with_post_count";
 const FOLLOW_FN = "follow_user_with_counts";
 const UNFOLLOW_FN = "unfollow_user_with_counts";
 
@@ -14,7 +15,17 @@ type CreateCatWithCountParams = {
 	description: string | null;
 	location_latitude: number | null;
 	location_longitude: number | null;
+	spotted_at: string | null;
+	post_type: CatPostType;
+	reward: string | null;
+	contact: string | null;
+	alert_radius_m: number | null;
 	r2_path: string;
+	// Hashes are signed decimal strings; a JSON number would lose bigint precision.
+	images: (Omit<CatImageRecord, "cat_id"> & {
+		perceptual_hash: string | null;
+		content_hash: string;
+	})[];
 };
 
 type FollowMetricsRow = {
@@ -41,7 +52,13 @@ export class UserMetricsService {
 			p_description: params.description,
 			p_location_latitude: params.location_latitude,
 			p_location_longitude: params.location_longitude,
+			p_spotted_at: params.spotted_at,
+			p_post_type: params.post_type,
+			p_reward: params.reward,
+			p_contact: params.contact,
+			p_alert_radius_m: params.alert_radius_m,
 			p_r2_path: params.r2_path,
+			p_images: params.images,
 		});
 
 		if (error) {
@@ -52,6 +69,28 @@ export class UserMetricsService {
 		return record;
 	}
 
+	async deleteCatWithPostCount(
+		catId: string,
+		username: string,
+	): Promise<CatRecord> {
+		const { data, error } = await this.supabase.rpc(DELETE_CAT_FN, {
+			p_cat_id: catId,
+			p_username: username,
+		});
+
+		if (error) {
+			throw new HttpError("Failed to delete cat", 500);
+		}
+
+		const rows = (Array.isArray(data) ? data : [data]) as (CatRecord | null)[];
+		const record = rows[0] ?? null;
+		if (!record) {
+			throw new HttpError("Cat not found", 404);
+		}
+
+		return record;
+	}
+
 	async followWithCounts(
 		followerUsername: string,
 		followeeUsername: string,
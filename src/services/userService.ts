@@ -1,12 +1,20 @@
 import type { SupabaseClientType } from "../supabaseClient";
-import type { UserProfile } from "../models";
-import { AuthError, ConflictError, HttpError } from "../errors";
+import type {
+	LikesVisibility,
+	LocationPrecision,
+	ModeratedUser,
+	UserProfile,
+	UserRole,
+} from "../models";
+import { AuthError, ConflictError, HttpError, SuspendedError } from "../errors";
+import { computeImagePlaceholder } from "../imagePlaceholder";
+import { decodeImageThumbnail } from "../imageThumbnail";
 import {
 	generateSessionToken,
 	normalizeEmail,
-	type ParsedBase64Image,
+	type ParsedImage,
 } from "../validation";
-import { buildOptionalPublicR2Url } from "../r2";
+import { AVATAR_COLUMNS, buildAvatarImage, buildOptionalPublicR2Url } from "../r2";
 
 type UserRecord = {
 	username: string;
@@ -14,12 +22,24 @@ type UserRecord = {
 	location: string | null;
 	email: string;
 	r2_avatar: string | null;
+	avatar_width: number | null;
+	avatar_height: number | null;
+	avatar_placeholder: string | null;
 	post_count: number | string | null;
 	follower_count: number | string | null;
 	following_count: number | string | null;
+	location_precision: LocationPrecision | null;
+	likes_visibility: LikesVisibility | null;
+	role: UserRole | null;
 };
 
-type UserRecordWithPassword = UserRecord & { password_hash: string };
+type UserRecordWithPassword = UserRecord & {
+	password_hash: string;
+	suspended_at: string | null;
+	suspension_reason: string | null;
+};
+
+const MODERATED_USER_COLUMNS = "username,role,suspended_at,suspension_reason";
 
 export class UserService {
 	constructor(
@@ -87,7 +107,7 @@ export class UserService {
 				session_token: sessionToken,
 			})
 			.select(
-				"username,bio,location,email,r2_avatar,post_count,follower_count,following_count",
+				`username,bio,location,email,${AVATAR_COLUMNS},post_count,follower_count,following_count,location_precision,likes_visibility,role`,
 			)
 			.single();
 
@@ -113,7 +133,7 @@ export class UserService {
 		const { data, error } = await this.supabase
 			.from("users")
 			.select(
-				"username,bio,location,email,password_hash,r2_avatar,post_count,follower_count,following_count",
+				`username,bio,location,email,password_hash,${AVATAR_COLUMNS},post_count,follower_count,following_count,location_precision,likes_visibility,role,suspended_at,suspension_reason`,
 			)
 			.eq("email", normalizedEmail)
 			.maybeSingle();
@@ -126,6 +146,8 @@ export class UserService {
 			throw new AuthError("Invalid email or password");
 		}
 
+		assertNotSuspended(data as UserRecordWithPassword);
+
 		const sessionToken = generateSessionToken();
 
 		const { error: updateError } = await this.supabase
@@ -148,7 +170,7 @@ export class UserService {
 		const { data, error } = await this.supabase
 			.from("users")
 			.select(
-				"username,bio,location,email,password_hash,r2_avatar,post_count,follower_count,following_count",
+				`username,bio,location,email,password_hash,${AVATAR_COLUMNS},post_count,follower_count,following_count,location_precision,likes_visibility,role,suspended_at,suspension_reason`,
 			)
 			.eq("session_token", sessionToken)
 			.maybeSingle();
@@ -161,7 +183,10 @@ export class UserService {
 			throw new AuthError("Invalid session token");
 		}
 
-		return data as UserRecordWithPassword;
+		const record = data as UserRecordWithPassword;
+		assertNotSuspended(record);
+
+		return record;
 	}
 
 	async getUserBySessionToken(sessionToken: string): Promise<UserProfile> {
@@ -173,16 +198,26 @@ export class UserService {
 		sessionToken: string,
 		bio: string | null,
 		location: string | null,
+		locationPrecision?: LocationPrecision,
+		likesVisibility?: LikesVisibility,
 	): Promise<UserProfile> {
 		// Ensure session token is valid and get username
 		const record = await this.getUserRecordBySessionToken(sessionToken);
 
+		const updates: Record<string, string | null> = { bio, location };
+		if (locationPrecision) {
+			updates.location_precision = locationPrecision;
+		}
+		if (likesVisibility) {
+			updates.likes_visibility = likesVisibility;
+		}
+
 		const { data, error } = await this.supabase
 			.from("users")
-			.update({ bio, location })
+			.update(updates)
 			.eq("username", record.username)
 			.select(
-				"username,bio,location,email,r2_avatar,post_count,follower_count,following_count",
+				`username,bio,location,email,${AVATAR_COLUMNS},post_count,follower_count,following_count,location_precision,likes_visibility,role`,
 			)
 			.single();
 
@@ -217,7 +252,7 @@ export class UserService {
 
 	async changeAvatar(
 		sessionToken: string,
-		avatar: ParsedBase64Image,
+		avatar: ParsedImage,
 		r2Bucket: Env["R2_BUCKET"],
 	): Promise<UserProfile> {
 		const record = await this.getUserRecordBySessionToken(sessionToken);
@@ -228,6 +263,9 @@ export class UserService {
 		await r2Bucket.put(newKey, avatar.arrayBuffer, {
 			httpMetadata: { contentType: avatar.contentType },
 		});
+		const placeholder = computeImagePlaceholder(
+			await decodeImageThumbnail(new Uint8Array(avatar.arrayBuffer), avatar.contentType),
+		);
 
 		if (record.r2_avatar) {
 			await r2Bucket.delete(record.r2_avatar).catch(() => {});
@@ -235,10 +273,15 @@ export class UserService {
 
 		const { data, error } = await this.supabase
 			.from("users")
-			.update({ r2_avatar: newKey })
+			.update({
+				r2_avatar: newKey,
+				avatar_width: avatar.width,
+				avatar_height: avatar.height,
+				avatar_placeholder: placeholder,
+			})
 			.eq("username", record.username)
 			.select(
-				"username,bio,location,email,r2_avatar,post_count,follower_count,following_count",
+				`username,bio,location,email,${AVATAR_COLUMNS},post_count,follower_count,following_count,location_precision,likes_visibility,role`,
 			)
 			.single();
 
@@ -249,6 +292,80 @@ export class UserService {
 		return this.mapUserRecordToProfile(data as UserRecord);
 	}
 
+	async getModeratedUser(username: string): Promise<ModeratedUser> {
+		const { data, error } = await this.supabase
+			.from("users")
+			.select(MODERATED_USER_COLUMNS)
+			.eq("username", username)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError("Failed to load user", 500);
+		}
+
+		if (!data) {
+			throw new HttpError("User not found", 404);
+		}
+
+		return data as ModeratedUser;
+	}
+
+	/**
+	 * Suspends an account. Its session token is kept, so the user's requests
+	 * fail with a SuspendedError instead of looking logged out.
+	 */
+	async suspendUser(username: string, reason: string | null): Promise<ModeratedUser> {
+		return this.updateModeratedUser(
+			username,
+			{ suspended_at: new Date().toISOString(), suspension_reason: reason },
+			"Failed to suspend user",
+		);
+	}
+
+	async unsuspendUser(username: string): Promise<ModeratedUser> {
+		return this.updateModeratedUser(
+			username,
+			{ suspended_at: null, suspension_reason: null },
+			"Failed to unsuspend user",
+		);
+	}
+
+	async setRole(username: string, role: UserRole): Promise<ModeratedUser> {
+		return this.updateModeratedUser(username, { role }, "Failed to update role");
+	}
+
+	// Clears the session token; the user has to log in again.
+	async revokeSession(username: string): Promise<void> {
+		await this.updateModeratedUser(
+			username,
+			{ session_token: null },
+			"Failed to log out user",
+		);
+	}
+
+	private async updateModeratedUser(
+		username: string,
+		updates: Record<string, string | null>,
+		failureMessage: string,
+	): Promise<ModeratedUser> {
+		const { data, error } = await this.supabase
+			.from("users")
+			.update(updates)
+			.eq("username", username)
+			.select(MODERATED_USER_COLUMNS)
+			.maybeSingle();
+
+		if (error) {
+			throw new HttpError(failureMessage, 500);
+		}
+
+		if (!data) {
+			throw new HttpError("User not found", 404);
+		}
+
+		return data as ModeratedUser;
+	}
+
 	private mapUserRecordToProfile(record: UserRecord): UserProfile {
 		return {
 			username: record.username,
@@ -256,11 +373,25 @@ export class UserService {
 			location: record.location,
 			email: record.email,
 			avatar_url: buildOptionalPublicR2Url(record.r2_avatar, this.env),
+			avatar: buildAvatarImage(record, this.env),
 			post_count: Number(record.post_count ?? 0),
 			follower_count: Number(record.follower_count ?? 0),
 			following_count: Number(record.following_count ?? 0),
+			location_precision: record.location_precision ?? "exact",
+			likes_visibility: record.likes_visibility ?? "public",
+			role: record.role ?? "user",
 		};
 	}
 }
 
+function assertNotSuspended(record: UserRecordWithPassword): void {
+	if (record.suspended_at) {
+		throw new SuspendedError(
+			record.suspension_reason
+				? `Account suspended: ${record.suspension_reason}`
+				: undefined,
+		);
+	}
+}
+
 
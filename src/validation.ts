@@ -1,14 +1,78 @@
-import type { BodyFields } from "./models";
+import type {
+	BodyArrayFields,
+	BodyFields,
+	BodyFileFields,
+	CatPostType,
+	CatReaction,
+	ImageBackfillTarget,
+	LikesVisibility,
+	LocationPrecision,
+	MapBoundingBox,
+	ModerationCaseStatus,
+	ReportReason,
+	ReportTargetType,
+	TrendingWindow,
+	UserRole,
+} from "./models";
+import { HttpError } from "./errors";
+import { readExifMetadata, stripImageMetadata, type ExifMetadata } from "./exif";
+import { readImageDimensions, sniffImageType } from "./imageMetadata";
+import { LOCATION_PRECISIONS } from "./locationPrivacy";
 
 export const CAT_NAME_MAX_LENGTH = 100;
 export const CAT_DESCRIPTION_MAX_LENGTH = 500;
 export const CAT_TAGS_MAX = 10;
 export const CAT_TAG_MAX_LENGTH = 32;
 export const CAT_IMAGE_MAX_BYTES = 10 * 1024 * 1024; // 10MB
+export const CAT_IMAGES_MAX = 6;
+// Combined size of the images sent inline with one post (base64 or multipart).
+export const CAT_IMAGES_TOTAL_MAX_BYTES = 25 * 1024 * 1024; // 25MB
+// Hard cap on JSON and multipart bodies, enforced before they are parsed. A
+// full gallery is about 33.4MB once base64 encoded, which leaves room for the
+// other fields.
+export const REQUEST_BODY_MAX_BYTES = 36 * 1024 * 1024; // 36MB
 export const AVATAR_IMAGE_MAX_BYTES = 5 * 1024 * 1024; // 5MB
 export const COLLECTION_NAME_MAX_LENGTH = 100;
 export const COLLECTION_DESCRIPTION_MAX_LENGTH = 500;
 export const COMMENT_MAX_LENGTH = 500;
+export const REPORT_DETAILS_MAX_LENGTH = 500;
+export const MODERATION_NOTE_MAX_LENGTH = 500;
+export const NEARBY_RADIUS_DEFAULT_M = 1000;
+export const NEARBY_RADIUS_MAX_M = 50_000;
+export const LOST_ALERT_RADIUS_DEFAULT_M = 2000;
+export const LOST_REWARD_MAX_LENGTH = 100;
+export const LOST_CONTACT_MAX_LENGTH = 200;
+export const MAP_ZOOM_MIN = 0;
+export const MAP_ZOOM_MAX = 22;
+export const SEARCH_QUERY_MAX_LENGTH = 100;
+export const SEARCH_TERMS_MAX = 8;
+export const SPOTTED_AT_MAX_FUTURE_MS = 24 * 60 * 60 * 1000;
+
+const LIKES_VISIBILITIES: LikesVisibility[] = ["public", "hidden"];
+// Must stay in sync with likes_reaction_check in sql/cat_reactions.sql.
+export const CAT_REACTIONS: CatReaction[] = ["heart", "cute", "funny", "chonk"];
+// Must stay in sync with the cats.post_type check in sql/lost_found.sql.
+const CAT_POST_TYPES: CatPostType[] = ["sighting", "lost", "found"];
+const REPORT_TARGET_TYPES: ReportTargetType[] = ["cat", "comment", "user"];
+// Must stay in sync with the reports.reason check in sql/moderation.sql.
+const REPORT_REASONS: ReportReason[] = [
+	"spam",
+	"harassment",
+	"hate_speech",
+	"explicit_content",
+	"animal_cruelty",
+	"not_a_cat",
+	"other",
+];
+// Must stay in sync with the users.role check in sql/user_roles.sql.
+const USER_ROLES: UserRole[] = ["user", "moderator", "admin"];
+const IMAGE_BACKFILL_TARGETS: ImageBackfillTarget[] = ["cats", "avatars", "hashes"];
+const MODERATION_CASE_STATUSES: ModerationCaseStatus[] = [
+	"open",
+	"claimed",
+	"resolved",
+	"dismissed",
+];
 
 const ALLOWED_IMAGE_MIME_TYPES = [
 	"image/jpeg",
@@ -57,25 +121,144 @@ export function isValidSha256Hex(hash: string | null | undefined): boolean {
 }
 
 export async function parseBodyFields(request: Request): Promise<BodyFields> {
+	const { fields } = await parseBodyFieldsWithArrays(request);
+	return fields;
+}
+
+/**
+ * `invalidArrays` lists JSON array fields holding anything but strings. They
+ * are left out of `arrays`, so callers can reject them instead of treating the
+ * field as missing.
+ */
+export async function parseBodyFieldsWithArrays(
+	request: Request,
+): Promise<{
+	fields: BodyFields;
+	arrays: BodyArrayFields;
+	files: BodyFileFields;
+	invalidArrays: string[];
+}> {
 	const contentType = request.headers.get("content-type") || "";
 
 	const fields: BodyFields = {};
+	const arrays: BodyArrayFields = {};
+	const files: BodyFileFields = {};
+	const invalidArrays: string[] = [];
+
+	const isMultipart = contentType.includes("multipart/form-data");
+	const isJson = contentType.includes("application/json");
+	const body =
+		isMultipart || isJson
+			? await readBodyWithLimit(request, REQUEST_BODY_MAX_BYTES)
+			: null;
+
+	// Multipart bodies carry binary file parts next to the usual string fields.
+	// A repeated text field becomes an array, mirroring JSON array fields. The
+	// body is buffered, not streamed; large files go through /uploads instead.
+	if (isMultipart && body) {
+		const form = await new Response(body, {
+			headers: { "content-type": contentType },
+		})
+			.formData()
+			.catch(() => null);
+		if (form) {
+			for (const key of new Set(form.keys())) {
+				const values = form.getAll(key);
+				const strings = values.filter(
+					(value): value is string => typeof value === "string",
+				);
+				const fileParts = values.filter(
+					(value): value is File => typeof value !== "string",
+				);
+
+				if (strings.length === 1) {
+					fields[key] = strings[0];
+				} else if (strings.length > 1) {
+					arrays[key] = strings;
+				}
 
-	// JSON-only body parsing; all user endpoints now expect JSON with the same field names.
-	if (contentType.includes("application/json")) {
-		const json = await request.json().catch(() => ({}));
+				if (fileParts.length) {
+					files[key] = fileParts;
+				}
+			}
+		}
+	}
+
+	// All user endpoints accept JSON with the same field names.
+	if (isJson && body) {
+		let json: unknown = {};
+		try {
+			json = JSON.parse(new TextDecoder().decode(body));
+		} catch {
+			// Malformed JSON reads as an empty body, like a missing one.
+		}
 		if (json && typeof json === "object") {
 			for (const [key, value] of Object.entries(
 				json as Record<string, unknown>,
 			)) {
 				if (typeof value === "string") {
 					fields[key] = value;
+				} else if (Array.isArray(value)) {
+					if (value.every((item) => typeof item === "string")) {
+						arrays[key] = value as string[];
+					} else {
+						invalidArrays.push(key);
+					}
 				}
 			}
 		}
 	}
 
-	return fields;
+	return { fields, arrays, files, invalidArrays };
+}
+
+/**
+ * Buffers a request body, failing with 413 as soon as it is known to exceed
+ * `maxBytes`: up front from Content-Length, or while streaming a body sent
+ * without one.
+ */
+async function readBodyWithLimit(
+	request: Request,
+	maxBytes: number,
+): Promise<Uint8Array | null> {
+	const tooLarge = () =>
+		new HttpError(
+			`Request body exceeds ${maxBytes / (1024 * 1024)}MB limit`,
+			413,
+		);
+
+	const declaredLength = Number.parseInt(request.headers.get("content-length") ?? "", 10);
+	if (declaredLength > maxBytes) {
+		throw tooLarge();
+	}
+
+	if (!request.body) {
+		return null;
+	}
+
+	const chunks: Uint8Array[] = [];
+	let total = 0;
+	const reader = request.body.getReader();
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		total += value.byteLength;
+		if (total > maxBytes) {
+			await reader.cancel();
+			throw tooLarge();
+		}
+		chunks.push(value);
+	}
+
+	const body = new Uint8Array(total);
+	let offset = 0;
+	for (const chunk of chunks) {
+		body.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return body;
 }
 
 export function validateSessionToken(
@@ -92,6 +275,18 @@ export function validateSessionToken(
 	return null;
 }
 
+/**
+ * Returns an error when `role` ranks below `requiredRole`. Admins pass every
+ * moderator check.
+ */
+export function validateUserRole(role: UserRole, requiredRole: UserRole): string | null {
+	if (USER_ROLES.indexOf(role) < USER_ROLES.indexOf(requiredRole)) {
+		return `Requires the ${requiredRole} role`;
+	}
+
+	return null;
+}
+
 export function validateCatName(name: string | null | undefined): string | null {
 	if (!name || !name.trim()) {
 		return "Missing name";
@@ -165,6 +360,29 @@ export function validateComment(
 	return null;
 }
 
+export function normalizeTag(tag: string): string {
+	return tag.trim().toLowerCase();
+}
+
+export function validateTag(
+	tag: string | null | undefined,
+	fieldName = "tag",
+): string | null {
+	if (!tag) {
+		return `Missing ${fieldName}`;
+	}
+
+	if (tag.includes(",")) {
+		return `${fieldName} cannot contain commas`;
+	}
+
+	if (tag.length > CAT_TAG_MAX_LENGTH) {
+		return `${fieldName} must be <= ${CAT_TAG_MAX_LENGTH} characters`;
+	}
+
+	return null;
+}
+
 export function parseCatTags(
 	rawTags: string | null | undefined,
 ): { tags: string[]; error: string | null } {
@@ -174,7 +392,7 @@ export function parseCatTags(
 
 	const normalized = rawTags
 		.split(",")
-		.map((tag) => tag.trim().toLowerCase())
+		.map(normalizeTag)
 		.filter(Boolean);
 
 	const uniqueTags = Array.from(new Set(normalized));
@@ -193,6 +411,36 @@ export function parseCatTags(
 	return { tags: uniqueTags, error: null };
 }
 
+export function parseSearchQuery(
+	rawQuery: string | null | undefined,
+): { terms: string[]; error: string | null } {
+	if (!rawQuery || !rawQuery.trim()) {
+		return { terms: [], error: "Missing q" };
+	}
+
+	if (rawQuery.length > SEARCH_QUERY_MAX_LENGTH) {
+		return {
+			terms: [],
+			error: `q must be <= ${SEARCH_QUERY_MAX_LENGTH} characters`,
+		};
+	}
+
+	// Only letters and digits reach the tsquery, so user input cannot inject query operators.
+	const terms = Array.from(
+		new Set(rawQuery.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []),
+	);
+
+	if (!terms.length) {
+		return { terms: [], error: "q must contain at least one word" };
+	}
+
+	if (terms.length > SEARCH_TERMS_MAX) {
+		return { terms: [], error: `Too many search terms (max ${SEARCH_TERMS_MAX})` };
+	}
+
+	return { terms, error: null };
+}
+
 export function parseCoordinate(
 	value: string | null | undefined,
 	type: "latitude" | "longitude",
@@ -217,6 +465,107 @@ export function parseCoordinate(
 	return { value: parsed, error: null };
 }
 
+export function parseSpottedAt(
+	value: string | null | undefined,
+): { value: string | null; error: string | null } {
+	if (!value) {
+		return { value: null, error: null };
+	}
+
+	const timestamp = Date.parse(value);
+	if (Number.isNaN(timestamp)) {
+		return { value: null, error: "Invalid spotted_at" };
+	}
+
+	if (timestamp > Date.now() + SPOTTED_AT_MAX_FUTURE_MS) {
+		return { value: null, error: "spotted_at cannot be in the future" };
+	}
+
+	return { value: new Date(timestamp).toISOString(), error: null };
+}
+
+export function parseRadiusParam(
+	rawRadius: string | null | undefined,
+	defaultValue = NEARBY_RADIUS_DEFAULT_M,
+	maxValue = NEARBY_RADIUS_MAX_M,
+	fieldName = "radius_m",
+): { radius: number; error: string | null } {
+	if (!rawRadius) {
+		return { radius: defaultValue, error: null };
+	}
+
+	const parsed = Number.parseFloat(rawRadius);
+	if (Number.isNaN(parsed) || parsed <= 0) {
+		return { radius: defaultValue, error: `Invalid ${fieldName}` };
+	}
+
+	if (parsed > maxValue) {
+		return { radius: defaultValue, error: `${fieldName} must be <= ${maxValue}` };
+	}
+
+	return { radius: parsed, error: null };
+}
+
+export function parseBoundingBox(
+	rawBbox: string | null | undefined,
+): { bbox: MapBoundingBox | null; error: string | null } {
+	if (!rawBbox) {
+		return { bbox: null, error: "Missing bbox" };
+	}
+
+	const parts = rawBbox.split(",").map((part) => part.trim());
+	if (parts.length !== 4 || parts.some((part) => !part)) {
+		return {
+			bbox: null,
+			error: "Invalid bbox (expected minLon,minLat,maxLon,maxLat)",
+		};
+	}
+
+	const [minLonRaw, minLatRaw, maxLonRaw, maxLatRaw] = parts;
+	const minLon = parseCoordinate(minLonRaw, "longitude");
+	const minLat = parseCoordinate(minLatRaw, "latitude");
+	const maxLon = parseCoordinate(maxLonRaw, "longitude");
+	const maxLat = parseCoordinate(maxLatRaw, "latitude");
+
+	const coordinateError =
+		minLon.error ?? minLat.error ?? maxLon.error ?? maxLat.error;
+	if (coordinateError) {
+		return { bbox: null, error: coordinateError };
+	}
+
+	if (minLat.value! > maxLat.value!) {
+		return { bbox: null, error: "bbox minLat must be <= maxLat" };
+	}
+
+	return {
+		bbox: {
+			min_latitude: minLat.value!,
+			min_longitude: minLon.value!,
+			max_latitude: maxLat.value!,
+			max_longitude: maxLon.value!,
+		},
+		error: null,
+	};
+}
+
+export function parseZoomParam(
+	rawZoom: string | null | undefined,
+): { zoom: number; error: string | null } {
+	if (!rawZoom) {
+		return { zoom: MAP_ZOOM_MIN, error: "Missing zoom" };
+	}
+
+	const parsed = Number.parseInt(rawZoom, 10);
+	if (Number.isNaN(parsed) || parsed < MAP_ZOOM_MIN || parsed > MAP_ZOOM_MAX) {
+		return {
+			zoom: MAP_ZOOM_MIN,
+			error: `zoom must be an integer between ${MAP_ZOOM_MIN} and ${MAP_ZOOM_MAX}`,
+		};
+	}
+
+	return { zoom: parsed, error: null };
+}
+
 export function parseLimitParam(
 	rawLimit: string | null | undefined,
 	defaultValue = 20,
@@ -271,6 +620,211 @@ export function isValidUuid(value: string | null | undefined): boolean {
 	return uuidRegex.test(value);
 }
 
+export function parseLocationPrecision(
+	rawPrecision: string | null | undefined,
+): { precision: LocationPrecision | null; error: string | null } {
+	if (!rawPrecision) {
+		return { precision: null, error: null };
+	}
+
+	if (!LOCATION_PRECISIONS.includes(rawPrecision as LocationPrecision)) {
+		return {
+			precision: null,
+			error: "Invalid location_precision (expected exact|neighborhood|hidden)",
+		};
+	}
+
+	return { precision: rawPrecision as LocationPrecision, error: null };
+}
+
+export function parseLikesVisibility(
+	rawVisibility: string | null | undefined,
+): { visibility: LikesVisibility | null; error: string | null } {
+	if (!rawVisibility) {
+		return { visibility: null, error: null };
+	}
+
+	if (!LIKES_VISIBILITIES.includes(rawVisibility as LikesVisibility)) {
+		return {
+			visibility: null,
+			error: "Invalid likes_visibility (expected public|hidden)",
+		};
+	}
+
+	return { visibility: rawVisibility as LikesVisibility, error: null };
+}
+
+export function parseCatPostType(
+	rawType: string | null | undefined,
+): { postType: CatPostType; error: string | null } {
+	if (!rawType) {
+		return { postType: "sighting", error: null };
+	}
+
+	if (!CAT_POST_TYPES.includes(rawType as CatPostType)) {
+		return {
+			postType: "sighting",
+			error: `Invalid post_type (expected ${CAT_POST_TYPES.join("|")})`,
+		};
+	}
+
+	return { postType: rawType as CatPostType, error: null };
+}
+
+export function parseUserRole(
+	rawRole: string | null | undefined,
+): { role: UserRole | null; error: string | null } {
+	if (!rawRole) {
+		return { role: null, error: "Missing role" };
+	}
+
+	if (!USER_ROLES.includes(rawRole as UserRole)) {
+		return {
+			role: null,
+			error: `Invalid role (expected ${USER_ROLES.join("|")})`,
+		};
+	}
+
+	return { role: rawRole as UserRole, error: null };
+}
+
+export function parseImageBackfillTarget(
+	rawTarget: string | null | undefined,
+): { target: ImageBackfillTarget; error: string | null } {
+	if (!rawTarget) {
+		return { target: "cats", error: null };
+	}
+
+	if (!IMAGE_BACKFILL_TARGETS.includes(rawTarget as ImageBackfillTarget)) {
+		return { target: "cats", error: "target must be cats, avatars or hashes" };
+	}
+
+	return { target: rawTarget as ImageBackfillTarget, error: null };
+}
+
+export function parseCatReaction(
+	rawReaction: string | null | undefined,
+): { reaction: CatReaction | null; error: string | null } {
+	if (!rawReaction) {
+		return { reaction: null, error: "Missing reaction" };
+	}
+
+	if (!CAT_REACTIONS.includes(rawReaction as CatReaction)) {
+		return {
+			reaction: null,
+			error: `Invalid reaction (expected ${CAT_REACTIONS.join("|")})`,
+		};
+	}
+
+	return { reaction: rawReaction as CatReaction, error: null };
+}
+
+export function parseReportTargetType(
+	rawType: string | null | undefined,
+): { targetType: ReportTargetType | null; error: string | null } {
+	if (!rawType) {
+		return { targetType: null, error: "Missing target_type" };
+	}
+
+	if (!REPORT_TARGET_TYPES.includes(rawType as ReportTargetType)) {
+		return {
+			targetType: null,
+			error: `Invalid target_type (expected ${REPORT_TARGET_TYPES.join("|")})`,
+		};
+	}
+
+	return { targetType: rawType as ReportTargetType, error: null };
+}
+
+export function parseReportTarget(
+	rawType: string | null | undefined,
+	rawId: string | null | undefined,
+): { targetType: ReportTargetType | null; targetId: string | null; error: string | null } {
+	const { targetType, error: typeError } = parseReportTargetType(rawType);
+	if (typeError) {
+		return { targetType: null, targetId: null, error: typeError };
+	}
+
+	if (!rawId) {
+		return { targetType: null, targetId: null, error: "Missing target_id" };
+	}
+
+	// Profiles are reported by username; cats and comments by UUID.
+	const idError =
+		targetType === "user" ? validateUsername(rawId) : isValidUuid(rawId) ? null : "Invalid target_id";
+	if (idError) {
+		return { targetType: null, targetId: null, error: idError };
+	}
+
+	return { targetType, targetId: rawId, error: null };
+}
+
+export function parseReportReason(
+	rawReason: string | null | undefined,
+): { reason: ReportReason | null; error: string | null } {
+	if (!rawReason) {
+		return { reason: null, error: "Missing reason" };
+	}
+
+	if (!REPORT_REASONS.includes(rawReason as ReportReason)) {
+		return {
+			reason: null,
+			error: `Invalid reason (expected ${REPORT_REASONS.join("|")})`,
+		};
+	}
+
+	return { reason: rawReason as ReportReason, error: null };
+}
+
+export function parseModerationCaseStatus(
+	rawStatus: string | null | undefined,
+): { status: ModerationCaseStatus; error: string | null } {
+	if (!rawStatus) {
+		return { status: "open", error: null };
+	}
+
+	if (!MODERATION_CASE_STATUSES.includes(rawStatus as ModerationCaseStatus)) {
+		return {
+			status: "open",
+			error: `Invalid status (expected ${MODERATION_CASE_STATUSES.join("|")})`,
+		};
+	}
+
+	return { status: rawStatus as ModerationCaseStatus, error: null };
+}
+
+// Shared by report details and moderator notes: optional, trimmed, empty becomes null.
+export function parseOptionalText(
+	rawText: string | null | undefined,
+	field: string,
+	maxLength: number,
+): { text: string | null; error: string | null } {
+	const trimmed = rawText?.trim() ?? "";
+	if (!trimmed) {
+		return { text: null, error: null };
+	}
+
+	if (trimmed.length > maxLength) {
+		return { text: null, error: `${field} must be <= ${maxLength} characters` };
+	}
+
+	return { text: trimmed, error: null };
+}
+
+export function parseTrendingWindow(
+	rawWindow: string | null | undefined,
+): { window: TrendingWindow; error: string | null } {
+	if (!rawWindow) {
+		return { window: "24h", error: null };
+	}
+
+	if (rawWindow !== "24h" && rawWindow !== "7d") {
+		return { window: "24h", error: "Invalid window (expected 24h|7d)" };
+	}
+
+	return { window: rawWindow, error: null };
+}
+
 export type FollowAction = "follow" | "unfollow";
 
 export function parseFollowAction(
@@ -302,22 +856,25 @@ export function parseFollowCursor(
 	return { cursor: new Date(timestamp).toISOString(), error: null };
 }
 
-export type ParsedBase64Image = {
+export type ParsedImage = {
 	arrayBuffer: ArrayBuffer;
 	byteLength: number;
 	contentType: AllowedImageMimeType;
 	extension: string;
+	width: number;
+	height: number;
+	exif: ExifMetadata | null;
 };
 
-type ParseBase64ImageOptions = {
+type ParseImageOptions = {
 	fieldName?: string;
 	maxBytes?: number;
 };
 
 export function parseBase64Image(
 	base64: string | null | undefined,
-	options?: ParseBase64ImageOptions,
-): { image: ParsedBase64Image | null; error: string | null; status?: number } {
+	options?: ParseImageOptions,
+): { image: ParsedImage | null; error: string | null; status?: number } {
 	const fieldName = options?.fieldName ?? "image_base64";
 	const maxBytes = options?.maxBytes ?? CAT_IMAGE_MAX_BYTES;
 
@@ -326,13 +883,13 @@ export function parseBase64Image(
 	}
 
 	let working = base64.trim();
-	let contentType: AllowedImageMimeType = "image/jpeg";
+	let declaredType: AllowedImageMimeType | null = null;
 
 	const dataUrlMatch = working.match(/^data:(.+);base64,(.*)$/);
 	if (dataUrlMatch) {
 		const detectedType = dataUrlMatch[1];
 		if (ALLOWED_IMAGE_MIME_TYPES.includes(detectedType as AllowedImageMimeType)) {
-			contentType = detectedType as AllowedImageMimeType;
+			declaredType = detectedType as AllowedImageMimeType;
 		} else {
 			return {
 				image: null,
@@ -343,11 +900,6 @@ export function parseBase64Image(
 		working = dataUrlMatch[2];
 	}
 
-	if (!dataUrlMatch) {
-		// If the caller omitted the prefix we still need to ensure the mime type is allowed.
-		contentType = "image/jpeg";
-	}
-
 	let binaryString: string;
 	try {
 		binaryString = atob(working);
@@ -376,12 +928,95 @@ export function parseBase64Image(
 		bytes[i] = binaryString.charCodeAt(i);
 	}
 
+	return parseImageBytes(bytes, { fieldName, maxBytes, declaredType });
+}
+
+/**
+ * Multipart parts and staged uploads carry a free-form Content-Type; only
+ * image types are treated as a claim that must match the bytes.
+ */
+export function parseDeclaredImageType(
+	value: string | null | undefined,
+): string | null {
+	const normalized = value?.split(";")[0].trim().toLowerCase() ?? "";
+	return normalized.startsWith("image/") ? normalized : null;
+}
+
+/**
+ * Validates raw image bytes from any upload path (base64, multipart or staged
+ * upload). `declaredType` is the type the client claimed, if any; it must match
+ * the format detected from the bytes.
+ */
+export function parseImageBytes(
+	bytes: Uint8Array,
+	options: ParseImageOptions & { declaredType?: string | null },
+): { image: ParsedImage | null; error: string | null; status?: number } {
+	const fieldName = options.fieldName ?? "image";
+	const maxBytes = options.maxBytes ?? CAT_IMAGE_MAX_BYTES;
+	const declaredType = options.declaredType ?? null;
+
+	if (!bytes.byteLength) {
+		return { image: null, error: `${fieldName} data is empty`, status: 400 };
+	}
+
+	if (bytes.byteLength > maxBytes) {
+		return {
+			image: null,
+			error: `${fieldName} exceeds ${maxBytes / (1024 * 1024)}MB limit`,
+			status: 413,
+		};
+	}
+
+	// The stored content type always comes from the bytes; a data URL prefix is only cross-checked.
+	const sniffedType = sniffImageType(bytes);
+	if (sniffedType === "image/heic" || sniffedType === "image/avif") {
+		// Metadata cannot be stripped from HEIF containers yet, so they are refused outright.
+		return {
+			image: null,
+			error: `HEIC and AVIF images are not supported for ${fieldName}; convert to JPEG, PNG or WebP`,
+			status: 415,
+		};
+	}
+
+	if (!sniffedType) {
+		return {
+			image: null,
+			error: `${fieldName} is not a supported image`,
+			status: 400,
+		};
+	}
+
+	if (declaredType && declaredType !== sniffedType) {
+		return {
+			image: null,
+			error: `${fieldName} is declared as ${declaredType} but contains ${sniffedType}`,
+			status: 400,
+		};
+	}
+
+	const contentType: AllowedImageMimeType = sniffedType;
+
+	// Metadata is read and then stripped here so no caller can store the original EXIF block.
+	const exif = readExifMetadata(bytes, contentType);
+	const stored = stripImageMetadata(bytes, contentType, exif?.orientation ?? null);
+	const dimensions = readImageDimensions(stored, contentType);
+	if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+		return {
+			image: null,
+			error: `Could not read image dimensions for ${fieldName}`,
+			status: 400,
+		};
+	}
+
 	return {
 		image: {
-			arrayBuffer: bytes.buffer,
-			byteLength: bytes.byteLength,
+			arrayBuffer: stored.slice().buffer,
+			byteLength: stored.byteLength,
 			contentType,
 			extension: MIME_EXTENSION_MAP[contentType],
+			width: dimensions.width,
+			height: dimensions.height,
+			exif,
 		},
 		error: null,
 	};
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { buildCursorClause, decodeCursor, encodeCursor } from '../src/cursors';
+import { decodeNearbyCursor, encodeNearbyCursor } from '../src/services/catGeoService';
+import { decodeExploreCursor } from '../src/services/feedService';
+import { decodeModerationCursor, encodeModerationCursor } from '../src/services/moderationService';
+import type { CatRecord } from '../src/models';
+
+const CAT_ID = '6f1c2a3e-8b4d-4f5a-9c7e-0d1b2a3c4d5e';
+
+function encodeJson(value: unknown): string {
+	return btoa(JSON.stringify(value));
+}
+
+describe('nearby cursor', () => {
+	it('round-trips distance and id', () => {
+		const encoded = encodeNearbyCursor({ cat: { id: CAT_ID } as CatRecord, distance_m: 412.5 });
+		expect(decodeNearbyCursor(encoded)).toEqual({
+			cursor: { distance_m: 412.5, id: CAT_ID },
+			error: null,
+		});
+	});
+
+	it('treats a missing cursor as the first page', () => {
+		expect(decodeNearbyCursor(null)).toEqual({ cursor: null, error: null });
+	});
+
+	it('rejects ids that are not UUIDs', () => {
+		const encoded = encodeJson({ distance_m: 10, id: "x') or true" });
+		expect(decodeNearbyCursor(encoded)).toEqual({ cursor: null, error: 'Invalid cursor' });
+	});
+
+	it('rejects garbage', () => {
+		expect(decodeNearbyCursor('not base64!')).toEqual({ cursor: null, error: 'Invalid cursor' });
+		expect(decodeNearbyCursor(encodeJson({ distance_m: 'far', id: CAT_ID }))).toEqual({
+			cursor: null,
+			error: 'Invalid cursor',
+		});
+	});
+});
+
+describe('explore cursor', () => {
+	const SNAPSHOT_ID = '0b7e6c5d-4a3b-4c2d-8e1f-9a8b7c6d5e4f';
+
+	it('accepts a snapshot id and position', () => {
+		expect(decodeExploreCursor(encodeJson({ snapshot_id: SNAPSHOT_ID, position: 20 }))).toEqual({
+			cursor: { snapshot_id: SNAPSHOT_ID, position: 20 },
+			error: null,
+		});
+	});
+
+	it('rejects negative or fractional positions', () => {
+		for (const position of [-1, 2.5, '20']) {
+			expect(decodeExploreCursor(encodeJson({ snapshot_id: SNAPSHOT_ID, position }))).toEqual({
+				cursor: null,
+				error: 'Invalid cursor',
+			});
+		}
+	});
+
+	it('rejects snapshot ids that are not UUIDs', () => {
+		expect(decodeExploreCursor(encodeJson({ snapshot_id: 'latest', position: 0 }))).toEqual({
+			cursor: null,
+			error: 'Invalid cursor',
+		});
+	});
+});
+
+describe('moderation queue cursor', () => {
+	it('round-trips created_at and id', () => {
+		const cursor = { created_at: '2025-03-01T12:00:00.000Z', id: CAT_ID };
+		expect(decodeModerationCursor(encodeModerationCursor(cursor))).toEqual({ cursor, error: null });
+	});
+
+	it('rejects unparseable timestamps and non-UUID ids', () => {
+		expect(decodeModerationCursor(encodeJson({ created_at: 'yesterday', id: CAT_ID }))).toEqual({
+			cursor: null,
+			error: 'Invalid cursor',
+		});
+		expect(
+			decodeModerationCursor(encodeJson({ created_at: '2025-03-01T12:00:00.000Z', id: '42' })),
+		).toEqual({ cursor: null, error: 'Invalid cursor' });
+	});
+});
+
+describe('cat list cursor', () => {
+	const row = { created_at: '2025-03-01T12:00:00.000Z', id: CAT_ID };
+
+	it('round-trips created_at and id', () => {
+		expect(decodeCursor(encodeCursor(row))).toEqual({ cursor: row, error: null });
+	});
+
+	it('builds a keyset filter that breaks created_at ties by id', () => {
+		expect(buildCursorClause(row)).toBe(
+			`and(created_at.lt.${row.created_at}),and(created_at.eq.${row.created_at},id.lt.${CAT_ID})`,
+		);
+	});
+
+	it('rejects garbage', () => {
+		expect(decodeCursor(encodeJson({ id: CAT_ID }))).toEqual({ cursor: null, error: 'Invalid cursor' });
+		expect(decodeCursor('%%%')).toEqual({ cursor: null, error: 'Invalid cursor' });
+	});
+});
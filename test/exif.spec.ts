@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { readExifMetadata, stripImageMetadata } from '../src/exif';
+
+// Little-endian TIFF block: IFD0 holds Orientation = 6 and a pointer to a GPS
+// IFD placing the photo at 52°30'N 13°24'E.
+function buildTiff(): Uint8Array {
+	const tiff = new Uint8Array(140);
+	const view = new DataView(tiff.buffer);
+	tiff.set([0x49, 0x49, 0x2a, 0x00]);
+	view.setUint32(4, 8, true);
+
+	view.setUint16(8, 2, true);
+	writeEntry(view, 10, 0x0112, 3, 1, 6);
+	writeEntry(view, 22, 0x8825, 4, 1, 38);
+	view.setUint32(34, 0, true);
+
+	view.setUint16(38, 4, true);
+	writeEntry(view, 40, 0x0001, 2, 2, 0x4e); // "N\0"
+	writeEntry(view, 52, 0x0002, 5, 3, 92);
+	writeEntry(view, 64, 0x0003, 2, 2, 0x45); // "E\0"
+	writeEntry(view, 76, 0x0004, 5, 3, 116);
+	view.setUint32(88, 0, true);
+
+	writeRationals(view, 92, [52, 30, 0]);
+	writeRationals(view, 116, [13, 24, 0]);
+	return tiff;
+}
+
+function writeEntry(view: DataView, offset: number, tag: number, type: number, count: number, value: number) {
+	view.setUint16(offset, tag, true);
+	view.setUint16(offset + 2, type, true);
+	view.setUint32(offset + 4, count, true);
+	if (type === 3) {
+		view.setUint16(offset + 8, value, true);
+	} else {
+		view.setUint32(offset + 8, value, true);
+	}
+}
+
+function writeRationals(view: DataView, offset: number, values: number[]) {
+	values.forEach((value, index) => {
+		view.setUint32(offset + index * 8, value, true);
+		view.setUint32(offset + index * 8 + 4, 1, true);
+	});
+}
+
+function segment(marker: number, payload: Uint8Array): Uint8Array {
+	const length = payload.length + 2;
+	return new Uint8Array([0xff, marker, length >> 8, length & 0xff, ...payload]);
+}
+
+function buildJpeg(): Uint8Array {
+	const exifHeader = new Uint8Array([0x45, 0x78, 0x69, 0x66, 0x00, 0x00]);
+	const parts = [
+		new Uint8Array([0xff, 0xd8]),
+		segment(0xe1, new Uint8Array([...exifHeader, ...buildTiff()])),
+		segment(0xdb, new Uint8Array([0x00, 0x01])),
+		segment(0xda, new Uint8Array([0x01, 0x02, 0x03, 0x04, 0x05, 0x06])),
+		new Uint8Array([0x12, 0x34, 0xff, 0xd9]),
+	];
+	return new Uint8Array(parts.flatMap((part) => [...part]));
+}
+
+describe('EXIF metadata', () => {
+	it('reads orientation and GPS position from a JPEG', () => {
+		const metadata = readExifMetadata(buildJpeg(), 'image/jpeg');
+		expect(metadata?.orientation).toBe(6);
+		expect(metadata?.latitude).toBeCloseTo(52.5);
+		expect(metadata?.longitude).toBeCloseTo(13.4);
+	});
+
+	it('strips GPS but keeps orientation', () => {
+		const original = buildJpeg();
+		const stripped = stripImageMetadata(original, 'image/jpeg', 6);
+		const metadata = readExifMetadata(stripped, 'image/jpeg');
+
+		expect(metadata?.orientation).toBe(6);
+		expect(metadata?.latitude).toBeNull();
+		expect(metadata?.longitude).toBeNull();
+		expect([...stripped.slice(-6)]).toEqual([...original.slice(-6)]);
+	});
+
+	it('drops the EXIF block entirely for the default orientation', () => {
+		const stripped = stripImageMetadata(buildJpeg(), 'image/jpeg', 1);
+		expect(readExifMetadata(stripped, 'image/jpeg')).toBeNull();
+	});
+});
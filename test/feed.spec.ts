@@ -0,0 +1,79 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { FeedService } from '../src/services/feedService';
+import { getSupabaseClient } from '../src/supabaseClient';
+
+const testEnv = { ...env, SUPABASE_SECRET: 'test-service-key' };
+const SNAPSHOT_ID = '0b7e6c5d-4a3b-4c2d-8e1f-9a8b7c6d5e4f';
+
+describe('FeedService.listExploreFeed', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	function mockPage(viewer: string | null) {
+		fetchMock
+			.get(env.SUPABASE_URL)
+			.intercept({
+				method: 'POST',
+				path: '/rest/v1/rpc/explore_snapshot_page',
+				body: (body) => {
+					const params = JSON.parse(body);
+					return params.p_snapshot_id === SNAPSHOT_ID && params.p_viewer_username === viewer;
+				},
+			})
+			.reply(200, []);
+	}
+
+	it('reuses a recent anonymous snapshot', async () => {
+		fetchMock
+			.get(env.SUPABASE_URL)
+			.intercept({
+				path: (path) => path.startsWith('/rest/v1/explore_snapshots') && path.includes('viewer_username=is.null'),
+			})
+			.reply(200, [{ id: SNAPSHOT_ID }]);
+		mockPage(null);
+
+		const service = new FeedService(getSupabaseClient(testEnv), testEnv);
+		expect(await service.listExploreFeed(null, { limit: 20, cursor: null })).toEqual({
+			rows: [],
+			nextCursor: null,
+		});
+	});
+
+	it('ranks a new snapshot for signed-in viewers', async () => {
+		fetchMock
+			.get(env.SUPABASE_URL)
+			.intercept({
+				method: 'POST',
+				path: '/rest/v1/rpc/create_explore_snapshot',
+				body: (body) => JSON.parse(body).p_viewer_username === 'viewer',
+			})
+			.reply(200, JSON.stringify(SNAPSHOT_ID), { headers: { 'Content-Type': 'application/json' } });
+		mockPage('viewer');
+
+		const service = new FeedService(getSupabaseClient(testEnv), testEnv);
+		await service.listExploreFeed('viewer', { limit: 20, cursor: null });
+	});
+
+	it('reports a snapshot ranked for another viewer as expired', async () => {
+		mockPage('viewer');
+		fetchMock
+			.get(env.SUPABASE_URL)
+			.intercept({
+				path: (path) =>
+					path.startsWith('/rest/v1/explore_snapshots') && path.includes('viewer_username=eq.viewer'),
+			})
+			.reply(200, []);
+
+		const service = new FeedService(getSupabaseClient(testEnv), testEnv);
+		await expect(
+			service.listExploreFeed('viewer', { limit: 20, cursor: { snapshot_id: SNAPSHOT_ID, position: 20 } }),
+		).rejects.toMatchObject({ status: 410, message: 'Explore cursor expired' });
+	});
+});
@@ -0,0 +1,453 @@
+import { describe, it, expect } from 'vitest';
+import { computeImagePlaceholder } from '../src/imagePlaceholder';
+import { decodeImageThumbnail, type ImageThumbnail } from '../src/imageThumbnail';
+
+// --- JPEG fixtures -----------------------------------------------------------
+// The encoder below writes only DC coefficients (every AC run is an immediate
+// end-of-block), which is all the thumbnail decoder reads. With a DC quantiser
+// of 1, a block mean of m is stored as (m - 128) * 8.
+
+type JpegFixtureComponent = {
+	h: number;
+	v: number;
+	// Block means, one row per line of 8x8 blocks.
+	means: number[][];
+};
+
+type JpegFixtureOptions = {
+	width: number;
+	height: number;
+	components: JpegFixtureComponent[];
+	progressive?: boolean;
+	restartInterval?: number;
+	// Progressive only: the point transform of the DC scan.
+	successiveLow?: number;
+};
+
+class BitWriter {
+	private readonly bytes: number[] = [];
+	private buffer = 0;
+	private bits = 0;
+
+	write(value: number, length: number): void {
+		for (let i = length - 1; i >= 0; i -= 1) {
+			this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+			this.bits += 1;
+			if (this.bits === 8) {
+				this.push(this.buffer);
+			}
+		}
+	}
+
+	// Pads the last byte with ones, as encoders do before a marker.
+	flush(): void {
+		if (this.bits) {
+			this.write(0xff, 8 - this.bits);
+		}
+	}
+
+	marker(code: number): void {
+		this.flush();
+		this.bytes.push(0xff, code);
+	}
+
+	finish(): number[] {
+		this.flush();
+		return this.bytes;
+	}
+
+	private push(byte: number): void {
+		this.bytes.push(byte);
+		if (byte === 0xff) {
+			this.bytes.push(0x00);
+		}
+		this.buffer = 0;
+		this.bits = 0;
+	}
+}
+
+function segment(marker: number, payload: number[]): number[] {
+	const length = payload.length + 2;
+	return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+// DC categories 0-11 all get 4-bit codes equal to the category; AC holds EOB only.
+const DHT_PAYLOAD = [
+	0x00, 0, 0, 0, 12, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11,
+	0x10, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0x00,
+];
+
+function writeDc(writer: BitWriter, diff: number): void {
+	const size = diff === 0 ? 0 : Math.floor(Math.log2(Math.abs(diff))) + 1;
+	writer.write(size, 4);
+	if (size) {
+		writer.write(diff < 0 ? diff + (1 << size) - 1 : diff, size);
+	}
+}
+
+function encodeJpeg(options: JpegFixtureOptions): Uint8Array {
+	const { width, height, components } = options;
+	const progressive = options.progressive ?? false;
+	const successiveLow = options.successiveLow ?? 0;
+	const hMax = Math.max(...components.map((component) => component.h));
+	const vMax = Math.max(...components.map((component) => component.v));
+	const mcusPerLine = Math.ceil(width / (8 * hMax));
+	const mcusPerColumn = Math.ceil(height / (8 * vMax));
+	const ids = components.map((_, index) => index + 1);
+
+	const frame = [8, height >> 8, height & 0xff, width >> 8, width & 0xff, components.length];
+	components.forEach((component, index) => frame.push(ids[index], (component.h << 4) | component.v, 0));
+	const scanHeader = [components.length];
+	ids.forEach((id) => scanHeader.push(id, 0x00));
+	scanHeader.push(0, progressive ? 0 : 63, successiveLow);
+
+	const writer = new BitWriter();
+	const predictors = components.map(() => 0);
+	let restarts = 0;
+	for (let mcu = 0; mcu < mcusPerLine * mcusPerColumn; mcu += 1) {
+		if (options.restartInterval && mcu > 0 && mcu % options.restartInterval === 0) {
+			writer.marker(0xd0 + (restarts % 8));
+			restarts += 1;
+			predictors.fill(0);
+		}
+		const mcuX = mcu % mcusPerLine;
+		const mcuY = Math.floor(mcu / mcusPerLine);
+		components.forEach((component, index) => {
+			for (let blockY = 0; blockY < component.v; blockY += 1) {
+				for (let blockX = 0; blockX < component.h; blockX += 1) {
+					const mean = component.means[mcuY * component.v + blockY][mcuX * component.h + blockX];
+					const dc = ((mean - 128) * 8) >> successiveLow;
+					writeDc(writer, dc - predictors[index]);
+					predictors[index] = dc;
+					if (!progressive) {
+						writer.write(0, 1);
+					}
+				}
+			}
+		});
+	}
+
+	const bytes = [
+		0xff, 0xd8,
+		...segment(0xdb, [0x00, ...new Array(64).fill(1)]),
+		...segment(progressive ? 0xc2 : 0xc0, frame),
+		...segment(0xc4, DHT_PAYLOAD),
+		...(options.restartInterval
+			? segment(0xdd, [options.restartInterval >> 8, options.restartInterval & 0xff])
+			: []),
+		...segment(0xda, scanHeader),
+		...writer.finish(),
+	];
+	if (progressive) {
+		// An AC scan of the first component; the decoder must skip it.
+		bytes.push(...segment(0xda, [1, ids[0], 0x00, 1, 63, successiveLow]), 0x12, 0x34, 0x56);
+	}
+	bytes.push(0xff, 0xd9);
+	return new Uint8Array(bytes);
+}
+
+const GREY_MEANS = [
+	[16, 64, 128, 240],
+	[200, 100, 50, 0],
+];
+
+function greyscaleJpeg(options: Partial<JpegFixtureOptions> = {}): Uint8Array {
+	return encodeJpeg({ width: 32, height: 16, components: [{ h: 1, v: 1, means: GREY_MEANS }], ...options });
+}
+
+function greyPixels(rows: number[][]): Uint8ClampedArray {
+	return new Uint8ClampedArray(rows.flat().flatMap((value) => [value, value, value, 255]));
+}
+
+// --- PNG fixtures ------------------------------------------------------------
+
+type PngFixtureOptions = {
+	width: number;
+	height: number;
+	colorType: number;
+	bitDepth?: number;
+	// Unfiltered scanlines, without the filter-type byte.
+	rows: number[][];
+	palette?: number[];
+	interlaced?: boolean;
+	// Filter type per row; cycles through all five by default.
+	filters?: number[];
+};
+
+function pngChunk(type: string, data: Uint8Array): number[] {
+	const length = data.length;
+	return [
+		length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff,
+		...new TextEncoder().encode(type),
+		...data,
+		// CRCs are not checked.
+		0, 0, 0, 0,
+	];
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+	const estimate = left + up - upLeft;
+	const distanceLeft = Math.abs(estimate - left);
+	const distanceUp = Math.abs(estimate - up);
+	const distanceUpLeft = Math.abs(estimate - upLeft);
+	if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) {
+		return left;
+	}
+	return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+function filterRow(filterType: number, row: number[], previous: number[], stride: number): number[] {
+	return row.map((value, i) => {
+		const left = i >= stride ? row[i - stride] : 0;
+		const up = previous[i] ?? 0;
+		const upLeft = i >= stride ? (previous[i - stride] ?? 0) : 0;
+		const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filterType];
+		return (value - predictor) & 0xff;
+	});
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function encodePng(options: PngFixtureOptions): Promise<Uint8Array> {
+	const bitDepth = options.bitDepth ?? 8;
+	const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[options.colorType] ?? 1;
+	const stride = Math.max(1, Math.ceil((channels * bitDepth) / 8));
+	const raw: number[] = [];
+	options.rows.forEach((row, y) => {
+		const filterType = options.filters?.[y] ?? y % 5;
+		raw.push(filterType, ...filterRow(filterType, row, options.rows[y - 1] ?? [], stride));
+	});
+
+	const header = new Uint8Array(13);
+	const view = new DataView(header.buffer);
+	view.setUint32(0, options.width);
+	view.setUint32(4, options.height);
+	header.set([bitDepth, options.colorType, 0, 0, options.interlaced ? 1 : 0], 8);
+
+	return new Uint8Array([
+		0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+		...pngChunk('IHDR', header),
+		...(options.palette ? pngChunk('PLTE', new Uint8Array(options.palette)) : []),
+		...pngChunk('IDAT', await deflate(new Uint8Array(raw))),
+		...pngChunk('IEND', new Uint8Array(0)),
+	]);
+}
+
+// A 3x5 image with a distinct colour per pixel; five rows so every filter type is used.
+const PNG_RGBA = Array.from({ length: 5 }, (_, y) =>
+	Array.from({ length: 3 }, (_, x) => [x * 80 + 10, y * 50 + 5, (x * 30 + y * 40) % 256, 255 - x * 100]),
+);
+
+function pixelsOf(rgba: number[][][]): Uint8ClampedArray {
+	return new Uint8ClampedArray(rgba.flat(2));
+}
+
+// --- Tests -------------------------------------------------------------------
+
+describe('decodeImageThumbnail (JPEG)', () => {
+	it('reads one pixel per 8x8 block of a baseline greyscale JPEG', async () => {
+		expect(await decodeImageThumbnail(greyscaleJpeg(), 'image/jpeg')).toEqual({
+			width: 4,
+			height: 2,
+			pixels: greyPixels(GREY_MEANS),
+		});
+	});
+
+	it('converts subsampled YCbCr to RGB', async () => {
+		const jpeg = encodeJpeg({
+			width: 16,
+			height: 16,
+			components: [
+				{ h: 2, v: 2, means: [[128, 128], [128, 128]] },
+				{ h: 1, v: 1, means: [[128]] },
+				{ h: 1, v: 1, means: [[178]] },
+			],
+		});
+		const red = [198, 92, 128, 255];
+		expect(await decodeImageThumbnail(jpeg, 'image/jpeg')).toEqual({
+			width: 2,
+			height: 2,
+			pixels: new Uint8ClampedArray([...red, ...red, ...red, ...red]),
+		});
+	});
+
+	it('reads the DC scan of a progressive JPEG and skips the AC scans', async () => {
+		const thumbnail = await decodeImageThumbnail(
+			greyscaleJpeg({ progressive: true, successiveLow: 1 }),
+			'image/jpeg',
+		);
+		expect(thumbnail).toEqual({ width: 4, height: 2, pixels: greyPixels(GREY_MEANS) });
+	});
+
+	it('resets DC prediction at restart markers', async () => {
+		for (const restartInterval of [1, 3]) {
+			const thumbnail = await decodeImageThumbnail(greyscaleJpeg({ restartInterval }), 'image/jpeg');
+			expect(thumbnail?.pixels).toEqual(greyPixels(GREY_MEANS));
+		}
+	});
+
+	it('returns null for truncated or corrupt JPEGs', async () => {
+		const jpeg = greyscaleJpeg();
+		const scanStart = jpeg.findIndex((byte, i) => byte === 0xff && jpeg[i + 1] === 0xda);
+
+		expect(await decodeImageThumbnail(jpeg.subarray(0, scanStart), 'image/jpeg')).toBeNull();
+		expect(await decodeImageThumbnail(jpeg.subarray(0, scanStart + 6), 'image/jpeg')).toBeNull();
+
+		const badMarker = jpeg.slice();
+		badMarker[2] = 0x00;
+		expect(await decodeImageThumbnail(badMarker, 'image/jpeg')).toBeNull();
+
+		// 0xFE bytes start with 1111, which no DC code uses.
+		const badScan = jpeg.slice();
+		badScan.fill(0xfe, scanStart + 2 + 8, jpeg.length - 2);
+		expect(await decodeImageThumbnail(badScan, 'image/jpeg')).toBeNull();
+	});
+
+	it('returns null for arithmetic-coded and CMYK JPEGs', async () => {
+		const arithmetic = greyscaleJpeg();
+		const frameStart = arithmetic.findIndex((byte, i) => byte === 0xff && arithmetic[i + 1] === 0xc0);
+		arithmetic[frameStart + 1] = 0xc9;
+		expect(await decodeImageThumbnail(arithmetic, 'image/jpeg')).toBeNull();
+
+		const flat = { h: 1, v: 1, means: [[128]] };
+		const cmyk = encodeJpeg({ width: 8, height: 8, components: [flat, flat, flat, flat] });
+		expect(await decodeImageThumbnail(cmyk, 'image/jpeg')).toBeNull();
+	});
+});
+
+describe('decodeImageThumbnail (PNG)', () => {
+	it('reads RGBA and unfilters every filter type', async () => {
+		const png = await encodePng({ width: 3, height: 5, colorType: 6, rows: PNG_RGBA.map((row) => row.flat()) });
+		expect(await decodeImageThumbnail(png, 'image/png')).toEqual({
+			width: 3,
+			height: 5,
+			pixels: pixelsOf(PNG_RGBA),
+		});
+	});
+
+	it('reads RGB, greyscale and greyscale with alpha', async () => {
+		const rgb = await encodePng({
+			width: 3,
+			height: 5,
+			colorType: 2,
+			rows: PNG_RGBA.map((row) => row.flatMap(([r, g, b]) => [r, g, b])),
+		});
+		expect((await decodeImageThumbnail(rgb, 'image/png'))?.pixels).toEqual(
+			pixelsOf(PNG_RGBA.map((row) => row.map(([r, g, b]) => [r, g, b, 255]))),
+		);
+
+		const grey = await encodePng({ width: 2, height: 2, colorType: 0, rows: [[0, 90], [180, 255]] });
+		expect((await decodeImageThumbnail(grey, 'image/png'))?.pixels).toEqual(
+			greyPixels([[0, 90], [180, 255]]),
+		);
+
+		const greyAlpha = await encodePng({ width: 2, height: 1, colorType: 4, rows: [[90, 255, 180, 51]] });
+		expect((await decodeImageThumbnail(greyAlpha, 'image/png'))?.pixels).toEqual(
+			new Uint8ClampedArray([90, 90, 90, 255, 180, 180, 180, 51]),
+		);
+	});
+
+	it('reads packed palette indices', async () => {
+		const palette = [255, 0, 0, 0, 255, 0, 0, 0, 255, 10, 20, 30];
+		// Two bits per pixel: indices 0, 1, 2, 3, then 3 padded into the next byte.
+		const png = await encodePng({
+			width: 5,
+			height: 1,
+			colorType: 3,
+			bitDepth: 2,
+			palette,
+			rows: [[0b00011011, 0b11000000]],
+		});
+		expect((await decodeImageThumbnail(png, 'image/png'))?.pixels).toEqual(
+			new Uint8ClampedArray([
+				255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 10, 20, 30, 255, 10, 20, 30, 255,
+			]),
+		);
+	});
+
+	it('keeps the high byte of 16-bit samples', async () => {
+		const png = await encodePng({ width: 1, height: 1, colorType: 2, bitDepth: 16, rows: [[200, 1, 100, 2, 50, 3]] });
+		expect((await decodeImageThumbnail(png, 'image/png'))?.pixels).toEqual(
+			new Uint8ClampedArray([200, 100, 50, 255]),
+		);
+	});
+
+	it('averages large images onto a grid of about 64 cells a side', async () => {
+		const rows = Array.from({ length: 256 }, (_, y) =>
+			Array.from({ length: 128 }, (_, x) => (x < 64 ? 40 : 220) + (y < 128 ? 0 : 10)),
+		);
+		const thumbnail = await decodeImageThumbnail(
+			await encodePng({ width: 128, height: 256, colorType: 0, rows, filters: rows.map(() => 1) }),
+			'image/png',
+		);
+		expect(thumbnail).toMatchObject({ width: 64, height: 64 });
+		expect(Array.from(thumbnail!.pixels.subarray(0, 4))).toEqual([40, 40, 40, 255]);
+		expect(Array.from(thumbnail!.pixels.subarray(-4))).toEqual([230, 230, 230, 255]);
+	});
+
+	it('returns null for interlaced, truncated or corrupt PNGs', async () => {
+		const options = { width: 3, height: 5, colorType: 6, rows: PNG_RGBA.map((row) => row.flat()) };
+		expect(await decodeImageThumbnail(await encodePng({ ...options, interlaced: true }), 'image/png')).toBeNull();
+
+		const png = await encodePng(options);
+		expect(await decodeImageThumbnail(png.subarray(0, 30), 'image/png')).toBeNull();
+
+		const idatStart = png.findIndex((_, i) => new TextDecoder().decode(png.subarray(i, i + 4)) === 'IDAT');
+		expect(await decodeImageThumbnail(png.subarray(0, idatStart + 8), 'image/png')).toBeNull();
+
+		const corrupt = png.slice();
+		corrupt.fill(0xaa, idatStart + 4, idatStart + 12);
+		expect(await decodeImageThumbnail(corrupt, 'image/png')).toBeNull();
+
+		const missingPalette = await encodePng({ width: 1, height: 1, colorType: 3, rows: [[0]] });
+		expect(await decodeImageThumbnail(missingPalette, 'image/png')).toBeNull();
+	});
+
+	it('returns null for other formats', async () => {
+		expect(await decodeImageThumbnail(new Uint8Array(64), 'image/webp')).toBeNull();
+	});
+});
+
+describe('computeImagePlaceholder', () => {
+	function thumbnailOf(pixels: number[][]): ImageThumbnail {
+		return { width: pixels.length, height: 1, pixels: new Uint8ClampedArray(pixels.flat()) };
+	}
+
+	it('returns the mean of the most populated colour bucket', () => {
+		const placeholder = computeImagePlaceholder(
+			thumbnailOf([
+				[10, 20, 200, 255],
+				[12, 22, 198, 255],
+				[11, 21, 199, 255],
+				[255, 255, 255, 255],
+				[250, 10, 10, 255],
+			]),
+		);
+		expect(placeholder).toBe('#0b15c7');
+	});
+
+	it('ignores fully transparent pixels', () => {
+		const placeholder = computeImagePlaceholder(
+			thumbnailOf([
+				[0, 0, 0, 0],
+				[0, 0, 0, 0],
+				[0, 0, 0, 0],
+				[100, 150, 200, 128],
+			]),
+		);
+		expect(placeholder).toBe('#6496c8');
+		expect(computeImagePlaceholder(thumbnailOf([[0, 0, 0, 0]]))).toBeNull();
+	});
+
+	it('returns null without a thumbnail', () => {
+		expect(computeImagePlaceholder(null)).toBeNull();
+	});
+
+	it('summarises a decoded JPEG', async () => {
+		const jpeg = encodeJpeg({ width: 16, height: 8, components: [{ h: 1, v: 1, means: [[64, 64]] }] });
+		expect(computeImagePlaceholder(await decodeImageThumbnail(jpeg, 'image/jpeg'))).toBe('#404040');
+	});
+});
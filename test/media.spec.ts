@@ -0,0 +1,139 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import worker from '../src/index';
+import { signMediaKey } from '../src/mediaSignature';
+import { buildPublicR2Url } from '../src/r2';
+
+const KEY = 'cats/00000000-0000-4000-8000-000000000000/0.jpg';
+const MEDIA_URL = `https://example.com/media/${KEY}`;
+const BYTES = new Uint8Array([0xff, 0xd8, 0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0xff, 0xd9]);
+
+describe('media route', () => {
+	beforeEach(async () => {
+		await env.R2_BUCKET.put(KEY, BYTES, { httpMetadata: { contentType: 'image/jpeg' } });
+	});
+
+	it('serves the whole object with caching headers', async () => {
+		const response = await SELF.fetch(MEDIA_URL);
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('image/jpeg');
+		expect(response.headers.get('Content-Length')).toBe('10');
+		expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+		expect(response.headers.get('ETag')).toBeTruthy();
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(BYTES);
+	});
+
+	it('answers a bounded range with 206', async () => {
+		const response = await SELF.fetch(MEDIA_URL, { headers: { Range: 'bytes=2-5' } });
+		expect(response.status).toBe(206);
+		expect(response.headers.get('Content-Range')).toBe('bytes 2-5/10');
+		expect(response.headers.get('Content-Length')).toBe('4');
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(BYTES.slice(2, 6));
+	});
+
+	it('answers a suffix range with the last bytes', async () => {
+		const response = await SELF.fetch(MEDIA_URL, { headers: { Range: 'bytes=-2' } });
+		expect(response.status).toBe(206);
+		expect(response.headers.get('Content-Range')).toBe('bytes 8-9/10');
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(BYTES.slice(8));
+	});
+
+	it('clamps a range running past the end', async () => {
+		const response = await SELF.fetch(MEDIA_URL, { headers: { Range: 'bytes=6-99' } });
+		expect(response.status).toBe(206);
+		expect(response.headers.get('Content-Range')).toBe('bytes 6-9/10');
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(BYTES.slice(6));
+	});
+
+	it('answers a range starting past the end with 416', async () => {
+		const response = await SELF.fetch(MEDIA_URL, { headers: { Range: 'bytes=10-' } });
+		expect(response.status).toBe(416);
+		expect(response.headers.get('Content-Range')).toBe('bytes */10');
+		await response.body?.cancel();
+	});
+
+	it('ignores a malformed range and sends the whole object', async () => {
+		const response = await SELF.fetch(MEDIA_URL, { headers: { Range: 'bytes=5-2' } });
+		expect(response.status).toBe(200);
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(BYTES);
+	});
+
+	it('answers a matching If-None-Match with 304', async () => {
+		const first = await SELF.fetch(MEDIA_URL);
+		await first.arrayBuffer();
+		const response = await SELF.fetch(MEDIA_URL, {
+			headers: { 'If-None-Match': first.headers.get('ETag') ?? '' },
+		});
+		expect(response.status).toBe(304);
+	});
+
+	it('does not serve staged uploads', async () => {
+		await env.R2_BUCKET.put('uploads/raw.jpg', BYTES);
+		const response = await SELF.fetch('https://example.com/media/uploads/raw.jpg');
+		expect(response.status).toBe(404);
+		await response.body?.cancel();
+	});
+});
+
+describe('signed media URLs', () => {
+	const PRIVATE_KEY = 'cats/00000000-0000-4000-8000-000000000001/0.jpg';
+	const signingEnv = { ...env, MEDIA_SIGNING_SECRET: 'test-media-secret' };
+
+	beforeEach(async () => {
+		await env.R2_BUCKET.put(PRIVATE_KEY, BYTES, {
+			httpMetadata: { contentType: 'image/jpeg' },
+			customMetadata: { visibility: 'private' },
+		});
+	});
+
+	function fetchMedia(path: string): Promise<Response> {
+		return worker.fetch(new Request(new URL(path, 'https://example.com')), signingEnv);
+	}
+
+	function signedPath(signature: { expires: number; signature: string }): string {
+		return `/media/${PRIVATE_KEY}?expires=${signature.expires}&signature=${signature.signature}`;
+	}
+
+	it('serves a private object through a valid signed URL', async () => {
+		const url = await buildPublicR2Url(PRIVATE_KEY, signingEnv, 'private');
+		expect(url).toMatch(/\?expires=\d+&signature=[\w-]+$/);
+
+		const response = await fetchMedia(url);
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Cache-Control')).toMatch(/^private, max-age=\d+$/);
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(BYTES);
+	});
+
+	it('keeps public URLs unsigned', async () => {
+		expect(await buildPublicR2Url(KEY, signingEnv, 'public')).toBe(buildPublicR2Url(KEY, signingEnv));
+	});
+
+	it('refuses a private object without a signature', async () => {
+		const response = await fetchMedia(`/media/${PRIVATE_KEY}`);
+		expect(response.status).toBe(403);
+		expect(await response.json()).toMatchObject({ error: 'Media URL must be signed' });
+	});
+
+	it('refuses an expired signature', async () => {
+		const expired = await signMediaKey(PRIVATE_KEY, 'private', signingEnv, Date.now() - 3 * 60 * 60 * 1000);
+		const response = await fetchMedia(signedPath(expired));
+		expect(response.status).toBe(403);
+		expect(await response.json()).toMatchObject({ error: 'Media URL has expired' });
+	});
+
+	it('refuses a tampered signature, expiry or key', async () => {
+		const valid = await signMediaKey(PRIVATE_KEY, 'private', signingEnv);
+		const flipped = `${valid.signature[0] === 'A' ? 'B' : 'A'}${valid.signature.slice(1)}`;
+		const paths = [
+			signedPath({ ...valid, signature: flipped }),
+			signedPath({ ...valid, expires: valid.expires + 3600 }),
+			signedPath({ ...valid, signature: valid.signature.slice(0, -2) }),
+			`/media/${KEY}?expires=${valid.expires}&signature=${valid.signature}`,
+		];
+		for (const path of paths) {
+			const response = await fetchMedia(path);
+			expect(response.status).toBe(403);
+			expect(await response.json()).toMatchObject({ error: 'Invalid media signature' });
+		}
+	});
+});
@@ -0,0 +1,162 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import type { UserRole } from '../src/models';
+import { validateUserRole } from '../src/validation';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+const testEnv = { ...env, SUPABASE_SECRET: 'test-service-key' };
+const ACTOR_TOKEN = 'a'.repeat(64);
+
+describe('validateUserRole', () => {
+	it('orders roles user < moderator < admin', () => {
+		expect(validateUserRole('user', 'user')).toBeNull();
+		expect(validateUserRole('moderator', 'user')).toBeNull();
+		expect(validateUserRole('admin', 'moderator')).toBeNull();
+		expect(validateUserRole('user', 'moderator')).toBe('Requires the moderator role');
+		expect(validateUserRole('moderator', 'admin')).toBe('Requires the admin role');
+	});
+});
+
+describe('moderating another user', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	function mockSession(role: UserRole) {
+		fetchMock
+			.get(env.SUPABASE_URL)
+			.intercept({
+				path: (path) => path.startsWith('/rest/v1/users') && path.includes(`session_token=eq.${ACTOR_TOKEN}`),
+			})
+			.reply(200, [{ username: 'actor', role, suspended_at: null, suspension_reason: null }]);
+	}
+
+	function mockTarget(role: UserRole) {
+		fetchMock
+			.get(env.SUPABASE_URL)
+			.intercept({
+				path: (path) => path.startsWith('/rest/v1/users') && path.includes('username=eq.target'),
+			})
+			.reply(200, [{ username: 'target', role, suspended_at: null, suspension_reason: null }]);
+	}
+
+	async function forceLogout(): Promise<Response> {
+		const request = new IncomingRequest('https://example.com/admin/users/logout', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ session_token: ACTOR_TOKEN, username: 'target' }),
+		});
+		return worker.fetch(request, testEnv);
+	}
+
+	it('rejects regular users', async () => {
+		mockSession('user');
+		const response = await forceLogout();
+		expect(response.status).toBe(403);
+		expect(await response.json()).toMatchObject({ error: 'Requires the moderator role' });
+	});
+
+	it('stops moderators from acting on moderators or admins', async () => {
+		for (const role of ['moderator', 'admin'] as const) {
+			mockSession('moderator');
+			mockTarget(role);
+			const response = await forceLogout();
+			expect(response.status).toBe(403);
+			expect(await response.json()).toMatchObject({
+				error: 'Cannot moderate a user with the same or a higher role',
+			});
+		}
+	});
+
+	it('stops admins from acting on other admins', async () => {
+		mockSession('admin');
+		mockTarget('admin');
+		const response = await forceLogout();
+		expect(response.status).toBe(403);
+		await response.body?.cancel();
+	});
+
+	it('lets admins act on moderators', async () => {
+		mockSession('admin');
+		mockTarget('moderator');
+		fetchMock
+			.get(env.SUPABASE_URL)
+			.intercept({ method: 'PATCH', path: (path) => path.startsWith('/rest/v1/users') })
+			.reply(200, { username: 'target', role: 'moderator', suspended_at: null, suspension_reason: null });
+
+		const response = await forceLogout();
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ status: 'logged_out' });
+	});
+
+	it('keeps admin endpoints to admins', async () => {
+		mockSession('moderator');
+		const aliases = await worker.fetch(
+			new IncomingRequest(`https://example.com/admin/tags/aliases?session_token=${ACTOR_TOKEN}`),
+			testEnv,
+		);
+		expect(aliases.status).toBe(403);
+		expect(await aliases.json()).toMatchObject({ error: 'Requires the admin role' });
+
+		const backfill = await worker.fetch(
+			new IncomingRequest('https://example.com/admin/images/backfill', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ target: 'cats' }),
+			}),
+			testEnv,
+		);
+		expect(backfill.status).toBe(401);
+		await backfill.body?.cancel();
+	});
+});
+
+describe('hidden cats', () => {
+	const CAT_ID = '6f1c2a3e-8b4d-4f5a-9c7e-0d1b2a3c4d5e';
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	function mockHiddenCat() {
+		fetchMock
+			.get(env.SUPABASE_URL)
+			.intercept({ path: (path) => path.startsWith('/rest/v1/cats') && path.includes(`id=eq.${CAT_ID}`) })
+			.reply(200, [{ id: CAT_ID, username: 'poster', hidden_at: '2025-03-01T12:00:00.000Z' }]);
+	}
+
+	it('returns 404 to anonymous readers', async () => {
+		mockHiddenCat();
+		const response = await worker.fetch(new IncomingRequest(`https://example.com/cats/get?id=${CAT_ID}`), testEnv);
+		expect(response.status).toBe(404);
+		expect(await response.json()).toMatchObject({ error: 'Cat not found' });
+	});
+
+	it('returns 404 to regular users other than the poster', async () => {
+		fetchMock
+			.get(env.SUPABASE_URL)
+			.intercept({
+				path: (path) => path.startsWith('/rest/v1/users') && path.includes(`session_token=eq.${ACTOR_TOKEN}`),
+			})
+			.reply(200, [{ username: 'actor', role: 'user', suspended_at: null }]);
+		mockHiddenCat();
+
+		const response = await worker.fetch(
+			new IncomingRequest(`https://example.com/cats/get?id=${CAT_ID}&session_token=${ACTOR_TOKEN}`),
+			testEnv,
+		);
+		expect(response.status).toBe(404);
+		await response.body?.cancel();
+	});
+});
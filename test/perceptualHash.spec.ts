@@ -0,0 +1,118 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { ConflictError } from '../src/errors';
+import type { ImageThumbnail } from '../src/imageThumbnail';
+import { computeContentHash, computePerceptualHash } from '../src/perceptualHash';
+import { DuplicatePhotoService } from '../src/services/duplicatePhotoService';
+import type { SupabaseClientType } from '../src/supabaseClient';
+
+// A 36x32 greyscale thumbnail whose brightness is picked per pixel.
+function buildThumbnail(shade: (x: number, y: number) => number, width = 36, height = 32): ImageThumbnail {
+	const pixels = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const offset = (y * width + x) * 4;
+			const value = shade(x, y);
+			pixels.set([value, value, value, 255], offset);
+		}
+	}
+	return { width, height, pixels };
+}
+
+// Smooth diagonal waves so neighbouring hash cells differ by a clear margin.
+const photo = (x: number, y: number) => 128 + 100 * Math.sin(x / 3) * Math.cos(y / 5);
+
+function hammingDistance(a: string, b: string): number {
+	let diff = BigInt.asUintN(64, BigInt(a) ^ BigInt(b));
+	let bits = 0;
+	while (diff) {
+		bits += Number(diff & 1n);
+		diff >>= 1n;
+	}
+	return bits;
+}
+
+function serviceReturning(rows: unknown[], policy: string): DuplicatePhotoService {
+	const supabase = {
+		rpc: async () => ({ data: rows, error: null }),
+	} as unknown as SupabaseClientType;
+	return new DuplicatePhotoService(supabase, { ...env, DUPLICATE_PHOTO_POLICY: policy } as Env);
+}
+
+describe('computePerceptualHash', () => {
+	it('returns a signed 64-bit decimal string', () => {
+		const hash = computePerceptualHash(buildThumbnail(photo));
+		expect(hash).toMatch(/^-?\d+$/);
+		expect(BigInt.asIntN(64, BigInt(hash!))).toBe(BigInt(hash!));
+	});
+
+	it('encodes a left-to-right gradient as all ones and its mirror as all zeros', () => {
+		expect(computePerceptualHash(buildThumbnail((x) => x * 7))).toBe('-1');
+		expect(computePerceptualHash(buildThumbnail((x) => 255 - x * 7))).toBe('0');
+	});
+
+	it('keeps near-copies within a few bits', () => {
+		const original = computePerceptualHash(buildThumbnail(photo))!;
+		const brightened = computePerceptualHash(buildThumbnail((x, y) => photo(x, y) * 0.9 + 20))!;
+		const noisy = computePerceptualHash(
+			buildThumbnail((x, y) => photo(x, y) + ((x * 7 + y * 13) % 5) - 2),
+		)!;
+		// Pixel-doubled, the way a naive 2x upscale would store it.
+		const resized = computePerceptualHash(
+			buildThumbnail((x, y) => photo(Math.floor(x / 2), Math.floor(y / 2)), 72, 64),
+		)!;
+
+		expect(hammingDistance(original, brightened)).toBeLessThanOrEqual(2);
+		expect(hammingDistance(original, noisy)).toBeLessThanOrEqual(4);
+		expect(hammingDistance(original, resized)).toBe(0);
+	});
+
+	it('separates unrelated images', () => {
+		const original = computePerceptualHash(buildThumbnail(photo))!;
+		const other = computePerceptualHash(buildThumbnail((x, y) => 128 + 100 * Math.cos(x / 2 + y / 4)))!;
+		expect(hammingDistance(original, other)).toBeGreaterThan(10);
+	});
+
+	it('returns null without a thumbnail', () => {
+		expect(computePerceptualHash(null)).toBeNull();
+	});
+});
+
+describe('computeContentHash', () => {
+	it('returns the SHA-256 hex digest of the bytes', async () => {
+		expect(await computeContentHash(new TextEncoder().encode('abc'))).toBe(
+			'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+		);
+	});
+
+	it('matches byte-identical copies only', async () => {
+		const original = new Uint8Array([0xff, 0xd8, 0x01, 0x02, 0xff, 0xd9]);
+		const edited = original.slice();
+		edited[2] = 0x03;
+
+		const originalHash = await computeContentHash(original);
+		expect(await computeContentHash(original.slice())).toBe(originalHash);
+		expect(await computeContentHash(edited)).not.toBe(originalHash);
+	});
+});
+
+describe('DuplicatePhotoService.checkNewPhotos', () => {
+	const match = { cat: { id: '6f1c2a3e-8b4d-4f5a-9c7e-0d1b2a3c4d5e' }, hash_distance: 3 };
+
+	it('rejects a match with a 409 under the reject policy', async () => {
+		const service = serviceReturning([match], 'reject');
+		await expect(service.checkNewPhotos(['42'], [], 'poster')).rejects.toBeInstanceOf(ConflictError);
+	});
+
+	it('returns matches under the warn policy', async () => {
+		const service = serviceReturning([match], 'warn');
+		expect(await service.checkNewPhotos(['42'], [], 'poster')).toEqual([
+			{ cat_id: match.cat.id, hash_distance: 3 },
+		]);
+	});
+
+	it('skips the lookup when the policy is off', async () => {
+		const service = serviceReturning([match], 'off');
+		expect(await service.checkNewPhotos(['42'], ['abc'], 'poster')).toEqual([]);
+	});
+});
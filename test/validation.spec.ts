@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { HttpError } from '../src/errors';
+import { parseBodyFieldsWithArrays, parseImageBytes, REQUEST_BODY_MAX_BYTES } from '../src/validation';
+
+// SOI, a baseline SOF0 frame for a 3x2 greyscale image, EOI.
+const JPEG_BYTES = new Uint8Array([
+	0xff, 0xd8, 0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x02, 0x00, 0x03, 0x01, 0x01, 0x11, 0x00, 0xff, 0xd9,
+]);
+
+// Signature, an IHDR chunk for a 5x4 RGBA image and IEND (CRCs are not checked).
+const PNG_BYTES = new Uint8Array([
+	0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+	0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52,
+	0x00, 0x00, 0x00, 0x05, 0x00, 0x00, 0x00, 0x04, 0x08, 0x06, 0x00, 0x00, 0x00,
+	0x00, 0x00, 0x00, 0x00,
+	0x00, 0x00, 0x00, 0x00, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+]);
+
+function isoFile(brand: string): Uint8Array {
+	return new Uint8Array([0x00, 0x00, 0x00, 0x14, ...new TextEncoder().encode(`ftyp${brand}\0\0\0\0mif1`)]);
+}
+
+function jsonRequest(body: BodyInit): Request {
+	return new Request('https://example.com/cats/create', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body,
+	});
+}
+
+describe('parseBodyFieldsWithArrays', () => {
+	it('splits JSON strings, string arrays and invalid arrays', async () => {
+		const parsed = await parseBodyFieldsWithArrays(
+			jsonRequest(JSON.stringify({ name: 'Tom', upload_ids: ['a', 'b'], images: [1, 2] })),
+		);
+		expect(parsed.fields).toEqual({ name: 'Tom' });
+		expect(parsed.arrays).toEqual({ upload_ids: ['a', 'b'] });
+		expect(parsed.invalidArrays).toEqual(['images']);
+	});
+
+	it('reads malformed JSON as an empty body', async () => {
+		const parsed = await parseBodyFieldsWithArrays(jsonRequest('{"name":'));
+		expect(parsed.fields).toEqual({});
+	});
+
+	it('rejects a streamed body past the cap with 413', async () => {
+		// The same megabyte is enqueued repeatedly so the test never holds the whole body.
+		const chunk = new Uint8Array(1024 * 1024);
+		let sent = 0;
+		const stream = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				sent += chunk.byteLength;
+				controller.enqueue(chunk);
+				if (sent > REQUEST_BODY_MAX_BYTES) {
+					controller.close();
+				}
+			},
+		});
+
+		const error = await parseBodyFieldsWithArrays(jsonRequest(stream)).catch((err) => err);
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error).toMatchObject({ status: 413, message: 'Request body exceeds 36MB limit' });
+	});
+});
+
+describe('parseImageBytes', () => {
+	it('detects the format from magic bytes and reads dimensions', () => {
+		const jpeg = parseImageBytes(JPEG_BYTES, {});
+		expect(jpeg.error).toBeNull();
+		expect(jpeg.image).toMatchObject({ contentType: 'image/jpeg', extension: 'jpg', width: 3, height: 2 });
+
+		const png = parseImageBytes(PNG_BYTES, { declaredType: 'image/png' });
+		expect(png.error).toBeNull();
+		expect(png.image).toMatchObject({ contentType: 'image/png', width: 5, height: 4 });
+	});
+
+	it('rejects a declared type that does not match the bytes', () => {
+		expect(parseImageBytes(PNG_BYTES, { fieldName: 'images[0]', declaredType: 'image/jpeg' })).toEqual({
+			image: null,
+			error: 'images[0] is declared as image/jpeg but contains image/png',
+			status: 400,
+		});
+	});
+
+	it('refuses HEIC and AVIF with 415', () => {
+		for (const brand of ['heic', 'avif']) {
+			const result = parseImageBytes(isoFile(brand), {});
+			expect(result.image).toBeNull();
+			expect(result.status).toBe(415);
+		}
+	});
+
+	it('rejects bytes that are not an image', () => {
+		const result = parseImageBytes(new TextEncoder().encode('<svg></svg>'), {});
+		expect(result).toEqual({ image: null, error: 'image is not a supported image', status: 400 });
+	});
+
+	it('rejects images over the size limit with 413', () => {
+		expect(parseImageBytes(JPEG_BYTES, { maxBytes: 8 }).status).toBe(413);
+	});
+
+	it('copies only the viewed bytes of a larger buffer', () => {
+		const padded = new Uint8Array(JPEG_BYTES.length + 8);
+		padded.set(JPEG_BYTES, 4);
+		const { image } = parseImageBytes(padded.subarray(4, 4 + JPEG_BYTES.length), {});
+		expect(image!.arrayBuffer.byteLength).toBe(image!.byteLength);
+		expect(new Uint8Array(image!.arrayBuffer)).toEqual(JPEG_BYTES);
+	});
+});